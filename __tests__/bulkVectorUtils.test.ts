@@ -0,0 +1,58 @@
+import { Vertex3d } from "../src/models/types/basicGeometries";
+import { Transform3d } from "../src/models/basic/transform3d";
+import { BulkVectorUtils } from "../src/utils/bulkVectorUtils";
+import { VectorUtils } from "../src/utils/vectorUtils";
+
+describe('Bulk vector tests', () => {
+    test('Conversions between vertices, interleaved coordinates and buffers', () => {
+        const pts: Vertex3d[] = [{x: 1, y: 2, z: 3}, {x: -4, y: 5, z: -6}];
+        const buffer = BulkVectorUtils.fromVertices(pts);
+
+        expect(BulkVectorUtils.getCount(buffer)).toBe(2);
+        expect(Array.from(BulkVectorUtils.toInterleaved(buffer))).toEqual([1, 2, 3, -4, 5, -6]);
+        expect(BulkVectorUtils.toVertices(BulkVectorUtils.fromInterleaved([1, 2, 3, -4, 5, -6]))).toEqual(pts);
+        expect(() => BulkVectorUtils.fromInterleaved([1, 2])).toThrow();
+    });
+
+    test('Batches match the single vector functions', () => {
+        const pts: Vertex3d[] = [{x: 1, y: 2, z: 3}, {x: 0, y: 0, z: 0}, {x: -3, y: 0.5, z: 2}];
+        const buffer = BulkVectorUtils.fromVertices(pts);
+        const placement = Transform3d.rotation({x: 1, y: 1, z: 0}, 0.7).compose(Transform3d.translation({x: 10, y: 0, z: -2}));
+        const axis: Vertex3d = {x: 0, y: 1, z: 1};
+
+        const transformed = BulkVectorUtils.toVertices(BulkVectorUtils.transform(buffer, placement));
+        const normalized = BulkVectorUtils.toVertices(BulkVectorUtils.normalize(buffer));
+        const crossed = BulkVectorUtils.toVertices(BulkVectorUtils.cross(buffer, axis));
+        const dots = BulkVectorUtils.dot(buffer, buffer);
+
+        pts.forEach((pt, i) => {
+            const expected = placement.transformPoint(pt);
+            expect(transformed[i].x).toBeCloseTo(expected.x, 9);
+            expect(transformed[i].y).toBeCloseTo(expected.y, 9);
+            expect(transformed[i].z).toBeCloseTo(expected.z, 9);
+            expect(normalized[i]).toEqual(VectorUtils.normalize(pt));
+            expect(crossed[i]).toEqual(VectorUtils.cross(pt, axis));
+            expect(dots[i]).toBe(VectorUtils.dot(pt, pt));
+        });
+    });
+
+    test('Bounding box and centroid of a large point cloud', () => {
+        const count = 500000;
+        const pts: Vertex3d[] = [];
+        for (let i = 0; i < count; i++) {
+            pts.push({x: 300000 + (i % 1000) * 0.01, y: 4000000 + Math.floor(i / 1000) * 0.01, z: (i % 7) - 3});
+        }
+
+        // Spreading this many values into Math.min used to throw a RangeError.
+        const box = VectorUtils.getBoundingBox3d(pts);
+        expect(box.min).toEqual({x: 300000, y: 4000000, z: -3});
+
+        const buffer = BulkVectorUtils.fromVertices(pts);
+        expect(BulkVectorUtils.getBoundingBox(buffer)).toEqual(box);
+
+        const centroid = BulkVectorUtils.getCentroid(buffer)!;
+        expect(centroid.x).toBeCloseTo(300000 + 4.995, 6);
+        expect(centroid.y).toBeCloseTo(4000000 + 2.495, 6);
+        expect(BulkVectorUtils.getCentroid(BulkVectorUtils.create(0))).toBeUndefined();
+    });
+});
@@ -44,6 +44,28 @@ describe('Collision Tests', () => {
         expect(collisionCheck.result).toBe(true);
     });
 
+    test('Collision Test with unit axes in a model drawn in millimetres', () => {
+        const mm = {distance: 1};
+        const boxA2d: BoundingBox2d = { anchor: { x: 0, y: 0 }, uAxis: { x: 1, y: 0 }, length: { u: 3000, v: 200 } };
+        const boxB2d: BoundingBox2d = { anchor: { x: 1000, y: 100 }, uAxis: { x: 0, y: 1 }, length: { u: 3000, v: 200 } };
+
+        const check2d = CollisionUtils.hasBoundingBoxCollision2d(boxA2d, boxB2d, false, mm);
+        expect(check2d.hasError).toBeFalsy();
+        expect(check2d.result).toBe(true);
+
+        const boxA3d: BoundingBox3d = {
+            anchor: { x: 0, y: 0, z: 0 },
+            uAxis: { x: 1, y: 0, z: 0 },
+            vAxis: { x: 0, y: 1, z: 0 },
+            length: { u: 3000, v: 200, n: 2400 }
+        };
+        const boxB3d: BoundingBox3d = { ...boxA3d, anchor: { x: 5000, y: 0, z: 0 } };
+
+        const check3d = CollisionUtils.hasBoundingBoxCollision3d(boxA3d, boxB3d, false, mm);
+        expect(check3d.hasError).toBeFalsy();
+        expect(check3d.result).toBe(false);
+    });
+
     test('Collision Test Line and Triangle Edge', () => {
         const line: Line = {
             p0: {x: 0, y: 5, z: 0},
@@ -0,0 +1,51 @@
+import { BoundingBox3d, Polyline3d } from "../src/models/types/basicGeometries";
+import { CoordinateSystemUtils } from "../src/utils/coordinateSystemUtils";
+import { expectVertex } from "./helpers/expectGeometry";
+
+describe('Coordinate system tests', () => {
+    test('Frame from bounding box converts corners into box lengths', () => {
+        const box: BoundingBox3d = {
+            anchor: {x: 10, y: 5, z: 0},
+            uAxis: {x: 1, y: 1, z: 0},
+            vAxis: {x: -1, y: 1, z: 0},
+            length: {u: 4, v: 2, n: 3},
+        };
+
+        const cs = CoordinateSystemUtils.fromBoundingBox3d(box)!;
+        expect(CoordinateSystemUtils.isOrthonormal(cs)).toBe(true);
+
+        const corner = {x: 10 + 4 / Math.SQRT2 - 2 / Math.SQRT2, y: 5 + 4 / Math.SQRT2 + 2 / Math.SQRT2, z: 3};
+        expectVertex(CoordinateSystemUtils.toLocal(cs, corner), {x: 4, y: 2, z: 3}, 9);
+    });
+
+    test('Round trip of polyline through a frame from points', () => {
+        const cs = CoordinateSystemUtils.fromPoints({x: 1, y: 2, z: 3}, {x: 4, y: 2, z: 7}, {x: 0, y: 9, z: 3})!;
+        const pl: Polyline3d = [{x: 0, y: 0, z: 0}, {x: 5, y: -3, z: 2}, {x: -1, y: 8, z: 4}];
+
+        const restored = CoordinateSystemUtils.toWorld(cs, CoordinateSystemUtils.toLocal(cs, pl));
+        restored.forEach((pt, i) => expectVertex(pt, pl[i], 9));
+        expectVertex(CoordinateSystemUtils.toTransform3d(cs).apply(CoordinateSystemUtils.toLocal(cs, pl[1])), pl[1], 9);
+    });
+
+    test('Gram-Schmidt orthonormalization and degenerate inputs', () => {
+        const cs = CoordinateSystemUtils.orthonormalize({
+            origin: {x: 0, y: 0, z: 0},
+            uAxis: {x: 2, y: 0, z: 0},
+            vAxis: {x: 0.01, y: 3, z: 0.02},
+            nAxis: {x: 0, y: 0, z: 1},
+        })!;
+
+        expect(CoordinateSystemUtils.isOrthonormal(cs)).toBe(true);
+        expectVertex(cs.uAxis, {x: 1, y: 0, z: 0}, 9);
+
+        expect(CoordinateSystemUtils.fromPoints({x: 0, y: 0, z: 0}, {x: 1, y: 1, z: 1}, {x: 2, y: 2, z: 2})).toBeUndefined();
+        expectVertex(CoordinateSystemUtils.fromNormal({x: 0, y: 0, z: 0}, {x: 0, y: 0, z: 5})!.uAxis, {x: 1, y: 0, z: 0}, 9);
+
+        // Parallel axes are decided by angle, whatever their lengths.
+        const tiny = {origin: cs.origin, uAxis: {x: 1e-7, y: 0, z: 0}, vAxis: {x: 0, y: 1e-7, z: 0}, nAxis: cs.nAxis};
+        expect(CoordinateSystemUtils.orthonormalize(tiny)).toBeDefined();
+        expect(CoordinateSystemUtils.orthonormalize({...tiny, vAxis: {x: 1e4, y: 1e-3, z: 0}})).toBeUndefined();
+        expect(CoordinateSystemUtils.fromNormal({x: 0, y: 0, z: 0}, {x: 0, y: 0, z: 1}, {x: 1e-3, y: 0, z: 1e4})).toBeUndefined();
+        expect(CoordinateSystemUtils.fromPoints({x: 0, y: 0, z: 0}, {x: 1e-4, y: 0, z: 0}, {x: 0, y: 1e-4, z: 0})).toBeDefined();
+    });
+});
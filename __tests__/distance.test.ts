@@ -0,0 +1,105 @@
+import { BoundingBox3d, Line, Triangle } from "../src/models/types/basicGeometries";
+import { DistanceUtils } from "../src/utils/distanceUtils";
+
+const floor: Triangle = {p0: {x: 0, y: 0, z: 0}, p1: {x: 10, y: 0, z: 0}, p2: {x: 0, y: 10, z: 0}};
+
+function createBox(x: number, y: number, z: number, size: number): BoundingBox3d {
+    return {
+        anchor: {x, y, z},
+        uAxis: {x: 1, y: 0, z: 0},
+        vAxis: {x: 0, y: 1, z: 0},
+        length: {u: size, v: size, n: size},
+    };
+}
+
+describe('Distance utils test', () => {
+    test('Point and segment', () => {
+        const segment: Line = {p0: {x: 0, y: 0, z: 0}, p1: {x: 10, y: 0, z: 0}};
+
+        const inside = DistanceUtils.getDistanceOfPointAndSegment({x: 4, y: 3, z: 0}, segment);
+        expect(inside.dist).toBeCloseTo(3);
+        expect(inside.pt1).toEqual({x: 4, y: 0, z: 0});
+
+        const beyond = DistanceUtils.getDistanceOfPointAndSegment({x: 13, y: 4, z: 0}, segment);
+        expect(beyond.dist).toBeCloseTo(5);
+        expect(beyond.pt1).toEqual({x: 10, y: 0, z: 0});
+    });
+
+    test('Point and triangle regions', () => {
+        const above = DistanceUtils.getDistanceOfPointAndTriangle({x: 2, y: 2, z: 5}, floor);
+        expect(above.dist).toBeCloseTo(5);
+        expect(above.pt1.x).toBeCloseTo(2);
+        expect(above.pt1.y).toBeCloseTo(2);
+
+        const nearVertex = DistanceUtils.getDistanceOfPointAndTriangle({x: -3, y: -4, z: 0}, floor);
+        expect(nearVertex.dist).toBeCloseTo(5);
+        expect(nearVertex.pt1).toEqual({x: 0, y: 0, z: 0});
+
+        const nearHypotenuse = DistanceUtils.getDistanceOfPointAndTriangle({x: 6, y: 6, z: 0}, floor);
+        expect(nearHypotenuse.dist).toBeCloseTo(Math.SQRT2);
+        expect(nearHypotenuse.pt1.x).toBeCloseTo(5);
+    });
+
+    test('Segment and triangle', () => {
+        const piercing = DistanceUtils.getDistanceOfSegmentAndTriangle({p0: {x: 1, y: 1, z: -1}, p1: {x: 1, y: 1, z: 1}}, floor);
+        expect(piercing.dist).toBe(0);
+        expect(piercing.pt0.z).toBeCloseTo(0);
+
+        const hovering = DistanceUtils.getDistanceOfSegmentAndTriangle({p0: {x: -5, y: 2, z: 3}, p1: {x: 20, y: 2, z: 3}}, floor);
+        expect(hovering.dist).toBeCloseTo(3);
+        expect(hovering.pt1.z).toBeCloseTo(0);
+
+        const beside = DistanceUtils.getDistanceOfSegmentAndTriangle({p0: {x: -2, y: -5, z: 0}, p1: {x: -2, y: 5, z: 0}}, floor);
+        expect(beside.dist).toBeCloseTo(2);
+    });
+
+    test('Triangle and triangle', () => {
+        const wall: Triangle = {p0: {x: 2, y: 2, z: -1}, p1: {x: 2, y: 2, z: 5}, p2: {x: 3, y: 3, z: 5}};
+        expect(DistanceUtils.getDistanceOfTriangles(floor, wall).dist).toBe(0);
+
+        const ceiling: Triangle = {p0: {x: 0, y: 0, z: 3}, p1: {x: 10, y: 0, z: 3}, p2: {x: 0, y: 10, z: 3}};
+        const result = DistanceUtils.getDistanceOfTriangles(floor, ceiling);
+        expect(result.dist).toBeCloseTo(3);
+        expect(result.pt0.z).toBeCloseTo(0);
+        expect(result.pt1.z).toBeCloseTo(3);
+    });
+
+    test('Point and box', () => {
+        const box = createBox(0, 0, 0, 2);
+        expect(DistanceUtils.getDistanceOfPointAndBox({x: 1, y: 1, z: 1}, box).dist).toBe(0);
+
+        const corner = DistanceUtils.getDistanceOfPointAndBox({x: 3, y: 3, z: 3}, box);
+        expect(corner.dist).toBeCloseTo(Math.sqrt(3));
+        expect(corner.pt1).toEqual({x: 2, y: 2, z: 2});
+
+        expect(() => DistanceUtils.getDistanceOfPointAndBox({x: 0, y: 0, z: 0}, {...box, uAxis: {x: 0, y: 0, z: 0}})).toThrow();
+
+        // Unit axes are directions, so a model in millimetres with a coarse distance tolerance still works.
+        const mm = {distance: 1};
+        expect(DistanceUtils.getDistanceOfPointAndBox({x: 3, y: 1, z: 1}, box, mm).dist).toBeCloseTo(1);
+        expect(DistanceUtils.getDistanceOfBoxes(box, createBox(5, 0, 0, 2), mm).dist).toBeCloseTo(3);
+    });
+
+    test('Box and box clearance', () => {
+        // Duct running beside a beam
+        const beam = createBox(0, 0, 0, 1);
+        const duct: BoundingBox3d = {
+            anchor: {x: 1.05, y: 0.5, z: 0},
+            uAxis: {x: 1, y: -1, z: 0},
+            vAxis: {x: 1, y: 1, z: 0},
+            length: {u: 1, v: 1, n: 1},
+        };
+        const result = DistanceUtils.getDistanceOfBoxes(beam, duct);
+        expect(result.dist).toBeCloseTo(0.05);
+        expect(result.pt0.x).toBeCloseTo(1);
+        expect(result.pt1.x).toBeCloseTo(1.05);
+
+        expect(DistanceUtils.getDistanceOfBoxes(beam, createBox(0.5, 0.5, 0.5, 1)).dist).toBe(0);
+        expect(DistanceUtils.getDistanceOfBoxes(beam, createBox(3, 0, 0, 1)).dist).toBeCloseTo(2);
+
+        // Crossing bars without any corner inside the other
+        const bar0: BoundingBox3d = {anchor: {x: -5, y: 0, z: 0}, uAxis: {x: 1, y: 0, z: 0}, vAxis: {x: 0, y: 1, z: 0}, length: {u: 10, v: 1, n: 1}};
+        const bar1: BoundingBox3d = {anchor: {x: 0, y: -5, z: -2}, uAxis: {x: 1, y: 0, z: 0}, vAxis: {x: 0, y: 1, z: 0}, length: {u: 1, v: 10, n: 5}};
+        expect(DistanceUtils.getDistanceOfBoxes(bar0, bar1).dist).toBe(0);
+    });
+});
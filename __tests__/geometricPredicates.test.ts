@@ -0,0 +1,94 @@
+import { Vertex2d, Vertex3d } from "../src/models/types/basicGeometries";
+import { GeometricPredicates } from "../src/utils/geometricPredicates";
+import { computeContexHull2d } from "../src/utils/convexHullUtils";
+import { PolygonUtils } from "../src/utils/polygonUtils";
+import { PolylineUtils } from "../src/utils/polylineUtils";
+
+const ULP = Math.pow(2, -53);
+
+describe('Geometric predicates tests', () => {
+    test('orient2d is exact for nearly collinear points', () => {
+        const q: Vertex2d = {x: 12, y: 12};
+        const r: Vertex2d = {x: 24, y: 24};
+
+        // p is shifted off the line y = x by a few units in the last place.
+        for (let i = 0; i < 64; i++) {
+            for (let j = 0; j < 64; j++) {
+                const p: Vertex2d = {x: 0.5 + i * ULP, y: 0.5 + j * ULP};
+                const expected = Math.sign(p.y - p.x);
+                expect(Math.sign(GeometricPredicates.orient2d(p, q, r))).toBe(expected);
+            }
+        }
+
+        expect(GeometricPredicates.orient2d({x: 0, y: 0}, {x: 1, y: 0}, {x: 0, y: 1})).toBeGreaterThan(0);
+    });
+
+    test('orient3d is exact for nearly coplanar points', () => {
+        const a: Vertex3d = {x: 12, y: 12, z: 0};
+        const b: Vertex3d = {x: 24, y: 24, z: 0};
+        const c: Vertex3d = {x: 12, y: 12, z: 1};
+
+        expect(GeometricPredicates.orient3d(a, b, c, {x: 0, y: 1, z: 0})).toBeGreaterThan(0);
+        for (let i = 0; i < 32; i++) {
+            for (let j = 0; j < 32; j++) {
+                const d: Vertex3d = {x: 0.5 + i * ULP, y: 0.5 + j * ULP, z: 7};
+                expect(Math.sign(GeometricPredicates.orient3d(a, b, c, d))).toBe(Math.sign(d.y - d.x));
+            }
+        }
+    });
+
+    test('incircle and insphere detect points on, inside and outside', () => {
+        const a: Vertex2d = {x: 1, y: 0};
+        const b: Vertex2d = {x: 0, y: 1};
+        const c: Vertex2d = {x: -1, y: 0};
+
+        expect(GeometricPredicates.incircle(a, b, c, {x: 0, y: -1})).toBe(0);
+        expect(GeometricPredicates.incircle(a, b, c, {x: 0, y: -1 + ULP})).toBeGreaterThan(0);
+        expect(GeometricPredicates.incircle(a, b, c, {x: 0, y: -1 - 2 * ULP})).toBeLessThan(0);
+
+        const sa: Vertex3d = {x: 1, y: 0, z: 0};
+        const sb: Vertex3d = {x: 0, y: 1, z: 0};
+        const sc: Vertex3d = {x: -1, y: 0, z: 0};
+        const sd: Vertex3d = {x: 0, y: 0, z: -1};
+        expect(GeometricPredicates.orient3d(sa, sb, sc, sd)).toBeGreaterThan(0);
+
+        expect(GeometricPredicates.insphere(sa, sb, sc, sd, {x: 0, y: -1, z: 0})).toBe(0);
+        expect(GeometricPredicates.insphere(sa, sb, sc, sd, {x: 0, y: -1 + ULP, z: 0})).toBeGreaterThan(0);
+        expect(GeometricPredicates.insphere(sa, sb, sc, sd, {x: 0, y: -1 - 2 * ULP, z: 0})).toBeLessThan(0);
+    });
+
+    test('Convex hull of nearly collinear survey points is convex', () => {
+        const pts: Vertex3d[] = [];
+        for (let i = 0; i <= 100; i++) {
+            const t = i / 100;
+            pts.push({x: 1000 + 0.1 * i, y: 2000 + 0.1 * i + (i % 3 - 1) * 1e-12, z: 0});
+            pts.push({x: 1000 + 10 * t, y: 2000 + 10 * t * t, z: 0});
+        }
+
+        const hull = computeContexHull2d(pts);
+        for (let i = 0; i < hull.length; i++) {
+            const orientation = GeometricPredicates.orient2d(hull[i], hull[(i + 1) % hull.length], hull[(i + 2) % hull.length]);
+            expect(orientation).toBeGreaterThan(0);
+        }
+        for (const pt of pts) {
+            for (let i = 0; i < hull.length; i++) {
+                expect(GeometricPredicates.orient2d(hull[i], hull[(i + 1) % hull.length], pt)).toBeGreaterThanOrEqual(0);
+            }
+        }
+    });
+
+    test('Concave quad is split at its reflex corner', () => {
+        // Reflex corner at p1, on a plane tilted around the X-axis.
+        const tilt = (x: number, y: number): Vertex3d => ({x, y: y * 0.6, z: y * 0.8});
+        const result = PolygonUtils.splitQuadrant(tilt(0, 0), tilt(2, 1), tilt(4, 0), tilt(2, 4));
+        expect(result.log.result).toBe(true);
+        expect(result.t0!.p0).toEqual(tilt(2, 1));
+        expect(result.t0!.p2).toEqual(tilt(2, 4));
+    });
+
+    test('Point in area near a slanted edge', () => {
+        const area: Vertex2d[] = [{x: 0, y: 0}, {x: 3, y: 1}, {x: 0, y: 2}, {x: 0, y: 0}];
+        expect(PolylineUtils.isPointInArea2d(area, {x: 1.5, y: 0.51}, {distance: 1e-12}).result).toBe(true);
+        expect(PolylineUtils.isPointInArea2d(area, {x: 1.5, y: 0.49}, {distance: 1e-12}).result).toBe(false);
+    });
+});
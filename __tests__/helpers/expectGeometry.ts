@@ -0,0 +1,25 @@
+import { Vertex2d, Vertex3d } from "../../src/models/types/basicGeometries";
+
+/**
+ * Expects a vertex to match another one coordinate by coordinate, including Z when the expected vertex has it.
+ *
+ * @param numDigits - The number of decimal digits checked, as in `toBeCloseTo`.
+ */
+export function expectVertex(actual: Vertex2d | Vertex3d, expected: Vertex2d | Vertex3d, numDigits = 2) {
+    expect(actual.x).toBeCloseTo(expected.x, numDigits);
+    expect(actual.y).toBeCloseTo(expected.y, numDigits);
+    if ('z' in expected) {
+        expect('z' in actual).toBe(true);
+        if ('z' in actual) expect(actual.z).toBeCloseTo(expected.z, numDigits);
+    }
+}
+
+/**
+ * Expects points to match others one by one, in the same order.
+ *
+ * @param numDigits - The number of decimal digits checked, as in `toBeCloseTo`.
+ */
+export function expectPoints(actual: (Vertex2d | Vertex3d)[], expected: (Vertex2d | Vertex3d)[], numDigits = 2) {
+    expect(actual.length).toBe(expected.length);
+    actual.forEach((pt, i) => expectVertex(pt, expected[i], numDigits));
+}
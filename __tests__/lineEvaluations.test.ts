@@ -1,4 +1,5 @@
 import { Line } from "../src/models/types/basicGeometries";
+import { PolylineUtils } from "../src/utils/polylineUtils";
 import { LineEvaluation } from "../src/utils/lineEvaluationUtils";
 
 const TESTER_PORT = 3355;
@@ -38,4 +39,117 @@ describe('Line Evaluation utils test', () => {
         
         expect(true).toBe(true);
     });
-});
\ No newline at end of file
+});
+describe('Closest points between lines test', () => {
+    // Two pipes crossing at different levels.
+    const pipe0: Line = {p0: {x: 0, y: 0, z: 3}, p1: {x: 10, y: 0, z: 3}};
+    const pipe1: Line = {p0: {x: 4, y: -5, z: 5}, p1: {x: 4, y: 5, z: 5}};
+
+    test('Skew lines and segments', () => {
+        const result = LineEvaluation.getClosestPointsOfSegments(pipe0, pipe1);
+        expect(result.pt0).toEqual({x: 4, y: 0, z: 3});
+        expect(result.pt1).toEqual({x: 4, y: 0, z: 5});
+        expect(result.t0).toBeCloseTo(0.4, 9);
+        expect(result.t1).toBeCloseTo(0.5, 9);
+        expect(result.dist).toBeCloseTo(2, 9);
+        expect(result.isParallel).toBe(false);
+
+        // The segment ends before the crossing, the infinite line does not.
+        const short: Line = {p0: {x: 4, y: 2, z: 5}, p1: {x: 4, y: 5, z: 5}};
+        expect(LineEvaluation.getClosestPointsOfSegments(pipe0, short).dist).toBeCloseTo(Math.sqrt(8), 9);
+        expect(LineEvaluation.getClosestPointsOfLines(pipe0, short).dist).toBeCloseTo(2, 9);
+
+        const lineAndSegment = LineEvaluation.getClosestPointsOfLineAndSegment(short, pipe0);
+        expect(lineAndSegment.t0).toBeCloseTo(-2 / 3, 9);
+        expect(lineAndSegment.t1).toBeCloseTo(0.4, 9);
+    });
+
+    test('Parallel and degenerate lines', () => {
+        const parallel: Line = {p0: {x: 12, y: 1, z: 3}, p1: {x: 20, y: 1, z: 3}};
+        const result = LineEvaluation.getClosestPointsOfSegments(pipe0, parallel);
+        expect(result.isParallel).toBe(true);
+        expect(result.dist).toBeCloseTo(Math.sqrt(5), 9);
+
+        const point: Line = {p0: {x: 2, y: 2, z: 3}, p1: {x: 2, y: 2, z: 3}};
+        const toPoint = LineEvaluation.getClosestPointsOfSegments(pipe0, point);
+        expect(toPoint.isDegenerate).toBe(true);
+        expect(toPoint.pt0).toEqual({x: 2, y: 0, z: 3});
+        expect(toPoint.dist).toBeCloseTo(2, 9);
+    });
+});
+describe('Segment intersection test', () => {
+    test('Crossing segments meet at a point', () => {
+        const result = LineEvaluation.getSegmentIntersection(
+            {p0: {x: 0, y: 0, z: 0}, p1: {x: 10, y: 0, z: 0}},
+            {p0: {x: 4, y: -5, z: 0}, p1: {x: 4, y: 5, z: 0}},
+        );
+        expect(result.type).toBe('point');
+        if (result.type !== 'point') return;
+        expect(result.pt.x).toBeCloseTo(4);
+        expect(result.t0).toBeCloseTo(0.4);
+        expect(result.t1).toBeCloseTo(0.5);
+    });
+
+    test('Shared wall edge in 3D', () => {
+        const wall0: Line = {p0: {x: 0, y: 0, z: 3}, p1: {x: 10, y: 0, z: 3}};
+        const wall1: Line = {p0: {x: 12, y: 0, z: 3}, p1: {x: 6, y: 0, z: 3}};
+        const result = LineEvaluation.getSegmentIntersection(wall0, wall1);
+
+        expect(result.type).toBe('overlap');
+        if (result.type !== 'overlap') return;
+        expect(result.segment.p0.x).toBeCloseTo(6);
+        expect(result.segment.p1.x).toBeCloseTo(10);
+        expect(result.interval0[0]).toBeCloseTo(0.6);
+        expect(result.interval0[1]).toBeCloseTo(1);
+        // wall1 runs in the opposite direction
+        expect(result.interval1[0]).toBeCloseTo(1);
+        expect(result.interval1[1]).toBeCloseTo(1 / 3);
+    });
+
+    test('Collinear segments touching at an end point', () => {
+        const result = LineEvaluation.getSegmentIntersection2d(
+            {p0: {x: 0, y: 0}, p1: {x: 5, y: 5}},
+            {p0: {x: 5, y: 5}, p1: {x: 8, y: 8}},
+        );
+        expect(result.type).toBe('point');
+        if (result.type !== 'point') return;
+        expect(result.t0).toBeCloseTo(1);
+        expect(result.t1).toBeCloseTo(0);
+    });
+
+    test('Parallel and collinear-but-apart segments do not meet', () => {
+        expect(LineEvaluation.getSegmentIntersection2d(
+            {p0: {x: 0, y: 0}, p1: {x: 10, y: 0}},
+            {p0: {x: 0, y: 1}, p1: {x: 10, y: 1}},
+        ).type).toBe('none');
+        expect(LineEvaluation.getSegmentIntersection2d(
+            {p0: {x: 0, y: 0}, p1: {x: 4, y: 0}},
+            {p0: {x: 5, y: 0}, p1: {x: 10, y: 0}},
+        ).type).toBe('none');
+    });
+
+    test('Shared wall edge in 2D', () => {
+        const result = LineEvaluation.getSegmentIntersection2d(
+            {p0: {x: 0, y: 0}, p1: {x: 0, y: 10}},
+            {p0: {x: 0, y: 2}, p1: {x: 0, y: 4}},
+        );
+        expect(result.type).toBe('overlap');
+        if (result.type !== 'overlap') return;
+        expect(result.interval0).toEqual([0.2, 0.4]);
+        expect(result.interval1).toEqual([0, 1]);
+    });
+
+    test('Polyline reports collinear edges as overlaps', () => {
+        const room = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 0, y: 10}, {x: 0, y: 0}];
+        const result = PolylineUtils.getIntersectionWithLine2d(room, {p0: {x: -5, y: 0}, p1: {x: 15, y: 0}});
+
+        const overlaps = result.filter(r => r.overlap);
+        expect(overlaps.length).toBe(1);
+        expect(overlaps[0].overlap!.p0.x).toBeCloseTo(0);
+        expect(overlaps[0].overlap!.p1.x).toBeCloseTo(10);
+        expect(overlaps[0].t).toBeCloseTo(0.25);
+        for (let i = 1; i < result.length; i++) {
+            expect(result[i].t).toBeGreaterThanOrEqual(result[i - 1].t);
+        }
+    });
+});
@@ -0,0 +1,118 @@
+import { Line } from "../src/models/types/basicGeometries";
+import { LineManipulationUtils } from "../src/utils/lineManipluationUtils";
+import { VectorUtils } from "../src/utils/vectorUtils";
+import { expectVertex } from "./helpers/expectGeometry";
+
+describe('Line manipulation utils test', () => {
+    // Two walls meeting at (10, 0) without touching
+    const wall0: Line = {p0: {x: 0, y: 0, z: 0}, p1: {x: 8, y: 0, z: 0}};
+    const wall1: Line = {p0: {x: 10, y: 2, z: 0}, p1: {x: 10, y: 10, z: 0}};
+
+    test('Extend by length', () => {
+        expectVertex(LineManipulationUtils.ExtendLine(wall0, 2).p1, {x: 10, y: 0, z: 0});
+        expectVertex(LineManipulationUtils.ExtendLine(wall0, 2, true).p0, {x: -2, y: 0, z: 0});
+        expectVertex(LineManipulationUtils.ExtendLine(wall0, -3).p1, {x: 5, y: 0, z: 0});
+    });
+
+    test('Extend to a boundary', () => {
+        const boundary: Line = {p0: {x: 10, y: -5, z: 0}, p1: {x: 10, y: 5, z: 0}};
+        const extended = LineManipulationUtils.ExtendLineTo(wall0, boundary)!;
+        expectVertex(extended.p0, wall0.p0);
+        expectVertex(extended.p1, {x: 10, y: 0, z: 0});
+
+        // The boundary itself is not extended.
+        expect(LineManipulationUtils.ExtendLineTo(wall0, wall1)).toBeUndefined();
+    });
+
+    test('Trim at a boundary', () => {
+        const boundary: Line = {p0: {x: 3, y: -5, z: 0}, p1: {x: 3, y: 5, z: 0}};
+        expectVertex(LineManipulationUtils.TrimLine(wall0, boundary, 'start')!.p1, {x: 3, y: 0, z: 0});
+        expectVertex(LineManipulationUtils.TrimLine(wall0, boundary, 'end')!.p0, {x: 3, y: 0, z: 0});
+        expect(LineManipulationUtils.TrimLine(wall0, wall1, 'start')).toBeUndefined();
+    });
+
+    test('Join at the corner', () => {
+        const [joined0, joined1] = LineManipulationUtils.JoinLines(wall0, wall1)!;
+        expectVertex(joined0.p0, wall0.p0);
+        expectVertex(joined0.p1, {x: 10, y: 0, z: 0});
+        expectVertex(joined1.p0, {x: 10, y: 0, z: 0});
+        expectVertex(joined1.p1, wall1.p1);
+
+        const parallel: Line = {p0: {x: 0, y: 5, z: 0}, p1: {x: 8, y: 5, z: 0}};
+        expect(LineManipulationUtils.JoinLines(wall0, parallel)).toBeUndefined();
+    });
+
+    test('Fillet with tangent arc', () => {
+        const result = LineManipulationUtils.FilletLines(wall0, wall1, 3, 6)!;
+        expectVertex(result.line0.p1, {x: 7, y: 0, z: 0});
+        expectVertex(result.line1.p0, {x: 10, y: 3, z: 0});
+
+        expect(result.arc.length).toBe(7);
+        expectVertex(result.arc[0], result.line0.p1);
+        expectVertex(result.arc[6], result.line1.p0);
+        const center = {x: 7, y: 3, z: 0};
+        for (const pt of result.arc) {
+            expect(VectorUtils.getDist(pt, center)).toBeCloseTo(3);
+        }
+
+        expect(LineManipulationUtils.FilletLines(wall0, wall1, 20)).toBeUndefined();
+        expect(() => LineManipulationUtils.FilletLines(wall0, wall1, 0)).toThrow();
+    });
+
+    test('Chamfer by distances', () => {
+        const result = LineManipulationUtils.ChamferLines(wall0, wall1, 2, 4)!;
+        expectVertex(result.line0.p1, {x: 8, y: 0, z: 0});
+        expectVertex(result.line1.p0, {x: 10, y: 4, z: 0});
+        expectVertex(result.chamfer.p0, {x: 8, y: 0, z: 0});
+        expectVertex(result.chamfer.p1, {x: 10, y: 4, z: 0});
+
+        expect(LineManipulationUtils.ChamferLines(wall0, wall1, 11)).toBeUndefined();
+    });
+});
+
+describe('Offset line on plane test', () => {
+    test('Matches OffsetLine on the XY plane', () => {
+        const line: Line = {p0: {x: 0, y: 0, z: 0}, p1: {x: 10, y: 5, z: 0}};
+        const expected = LineManipulationUtils.OffsetLine(line, 2, 'left');
+        const result = LineManipulationUtils.OffsetLineOnPlane(line, 2, 'left', {x: 0, y: 0, z: 1});
+        expectVertex(result.p0, expected.p0);
+        expectVertex(result.p1, expected.p1);
+    });
+
+    test('Vertical line in a wall elevation', () => {
+        // Wall along X, seen from -Y
+        const elevation = {origin: {x: 0, y: 0, z: 0}, normal: {x: 0, y: -1, z: 0}};
+        const jamb: Line = {p0: {x: 2, y: 0, z: 0}, p1: {x: 2, y: 0, z: 3}};
+
+        const left = LineManipulationUtils.OffsetLineOnPlane(jamb, 0.5, 'left', elevation);
+        expectVertex(left.p0, {x: 1.5, y: 0, z: 0});
+        expectVertex(left.p1, {x: 1.5, y: 0, z: 3});
+
+        const right = LineManipulationUtils.OffsetLineOnPlane(jamb, 0.5, 'right', elevation.normal);
+        expectVertex(right.p0, {x: 2.5, y: 0, z: 0});
+    });
+
+    test('Edge on a sloped roof', () => {
+        const slope = Math.PI / 6;
+        const roofNormal = {x: 0, y: -Math.sin(slope), z: Math.cos(slope)};
+        const eave: Line = {p0: {x: 0, y: 0, z: 0}, p1: {x: 10, y: 0, z: 0}};
+
+        const result = LineManipulationUtils.OffsetLineOnPlane(eave, 2, 'left', roofNormal);
+        expectVertex(result.p0, {x: 0, y: 2 * Math.cos(slope), z: 2 * Math.sin(slope)});
+        expect(VectorUtils.dot(VectorUtils.subtract(result.p0, eave.p0), roofNormal)).toBeCloseTo(0);
+    });
+
+    test('Unit normal in a model drawn in millimetres', () => {
+        const wall: Line = {p0: {x: 0, y: 0, z: 0}, p1: {x: 5000, y: 0, z: 0}};
+        const result = LineManipulationUtils.OffsetLineOnPlane(wall, 100, 'left', {x: 0, y: 0, z: 1}, {distance: 1});
+        expectVertex(result.p0, {x: 0, y: 100, z: 0});
+        expectVertex(result.p1, {x: 5000, y: 100, z: 0});
+    });
+
+    test('Degenerate inputs throw', () => {
+        const vertical: Line = {p0: {x: 0, y: 0, z: 0}, p1: {x: 0, y: 0, z: 3}};
+        expect(() => LineManipulationUtils.OffsetLineOnPlane(vertical, 1, 'left', {x: 0, y: 0, z: 1})).toThrow(/parallel/);
+        expect(() => LineManipulationUtils.OffsetLineOnPlane(vertical, 1, 'left', {x: 0, y: 0, z: 0})).toThrow();
+        expect(() => LineManipulationUtils.OffsetLineOnPlane({p0: vertical.p0, p1: vertical.p0}, 1, 'left', {x: 0, y: 0, z: 1})).toThrow();
+    });
+});
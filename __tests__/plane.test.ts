@@ -0,0 +1,45 @@
+import { Line, Vertex3d } from "../src/models/types/basicGeometries";
+import { PlaneUtils } from "../src/utils/planeUtils";
+import { expectVertex } from "./helpers/expectGeometry";
+
+describe('Plane tests', () => {
+    test('Signed distance and projection on a sloped plane', () => {
+        const plane = PlaneUtils.fromPoints({x: 0, y: 0, z: 0}, {x: 1, y: 0, z: 1}, {x: 0, y: 1, z: 0})!;
+        const pt: Vertex3d = {x: 0, y: 3, z: 2};
+
+        expect(PlaneUtils.getSignedDistance(plane, pt)).toBeCloseTo(Math.SQRT2, 9);
+        const projected = PlaneUtils.projectPoint(plane, pt);
+        expect(PlaneUtils.getSignedDistance(plane, projected)).toBeCloseTo(0, 9);
+        expectVertex(projected, {x: 1, y: 3, z: 1}, 9);
+
+        // Collinearity is decided by angle, whatever the size of the triangle.
+        expect(PlaneUtils.fromPoints({x: 0, y: 0, z: 0}, {x: 1e-4, y: 0, z: 0}, {x: 0, y: 1e-4, z: 0})).toBeDefined();
+        expect(PlaneUtils.fromPoints({x: 0, y: 0, z: 0}, {x: 1e4, y: 0, z: 0}, {x: 2e4, y: 1e-3, z: 0})).toBeUndefined();
+        expect(PlaneUtils.fromNormal({x: 0, y: 0, z: 0}, {x: 0, y: 0, z: 1e-9})?.normal).toEqual({x: 0, y: 0, z: 1});
+        expect(PlaneUtils.fromNormal({x: 0, y: 0, z: 0}, {x: 0, y: 0, z: 0})).toBeUndefined();
+    });
+
+    test('Line and segment intersections', () => {
+        const plane = PlaneUtils.fromNormal({x: 0, y: 0, z: 5}, {x: 0, y: 0, z: 2})!;
+        const line: Line = {p0: {x: 0, y: 0, z: 0}, p1: {x: 1, y: 1, z: 1}};
+
+        const onLine = PlaneUtils.getIntersectionWithLine(plane, line)!;
+        expect(onLine.t).toBeCloseTo(5, 9);
+        expectVertex(onLine.pt, {x: 5, y: 5, z: 5}, 9);
+        expect(PlaneUtils.getIntersectionWithSegment(plane, line)).toBeUndefined();
+        expect(PlaneUtils.getIntersectionWithLine(plane, {p0: {x: 0, y: 0, z: 0}, p1: {x: 1, y: 0, z: 0}})).toBeUndefined();
+    });
+
+    test('Plane-plane and three-plane intersections', () => {
+        const xy = PlaneUtils.fromNormal({x: 0, y: 0, z: 2}, {x: 0, y: 0, z: 1})!;
+        const yz = PlaneUtils.fromNormal({x: 3, y: 0, z: 0}, {x: 1, y: 0, z: 0})!;
+        const xz = PlaneUtils.fromNormal({x: 0, y: -4, z: 0}, {x: 0, y: 1, z: 0})!;
+
+        const line = PlaneUtils.getIntersectionWithPlane(xy, yz)!;
+        expectVertex(line.p0, {x: 3, y: 0, z: 2}, 9);
+        expectVertex(line.p1, {x: 3, y: 1, z: 2}, 9);
+
+        expectVertex(PlaneUtils.getIntersectionOfThreePlanes(xy, yz, xz)!, {x: 3, y: -4, z: 2}, 9);
+        expect(PlaneUtils.getIntersectionWithPlane(xy, PlaneUtils.flip(xy))).toBeUndefined();
+    });
+});
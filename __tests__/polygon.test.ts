@@ -0,0 +1,121 @@
+import { MultiPolygon2d, Polygon2d, Polyline2d, Polyline3d, Vertex2d } from "../src/models/types/basicGeometries";
+import { PolygonUtils } from "../src/utils/polygonUtils";
+import { VectorUtils } from "../src/utils/vectorUtils";
+import { expectVertex } from "./helpers/expectGeometry";
+
+describe('Polygon utils test', () => {
+    // L-shaped room, drawn clockwise and without a closing point
+    const room: Polyline2d = [{x: 0, y: 0}, {x: 0, y: 10}, {x: 4, y: 10}, {x: 4, y: 4}, {x: 10, y: 4}, {x: 10, y: 0}];
+
+    test('Signed area and orientation', () => {
+        expect(PolygonUtils.getSignedArea2d(room)).toBeCloseTo(-64);
+        expect(PolygonUtils.getSignedArea2d([...room, room[0]])).toBeCloseTo(-64);
+        expect(PolygonUtils.isClockwise2d(room)).toBe(true);
+
+        const ccw = PolygonUtils.ensureCCW2d(room);
+        expect(PolygonUtils.getSignedArea2d(ccw)).toBeCloseTo(64);
+        expect(ccw[0]).toEqual(room[0]);
+        expect(ccw[1]).toEqual(room[room.length - 1]);
+        expect(PolygonUtils.ensureCW2d(ccw)).toEqual(room);
+
+        // Already oriented polygons are copied as they are.
+        expect(PolygonUtils.ensureCW2d(room)).toEqual(room);
+        expect(PolygonUtils.ensureCW2d(room)).not.toBe(room);
+
+        const degenerate: Polyline2d = [{x: 0, y: 0}, {x: 1, y: 1}, {x: 2, y: 2}];
+        expect(PolygonUtils.isClockwise2d(degenerate)).toBe(false);
+    });
+
+    test('Reverse keeps the start point', () => {
+        const closed: Polyline2d = [{x: 0, y: 0}, {x: 1, y: 0}, {x: 1, y: 1}, {x: 0, y: 0}];
+        expect(PolygonUtils.reverse(closed)).toEqual([{x: 0, y: 0}, {x: 1, y: 1}, {x: 1, y: 0}, {x: 0, y: 0}]);
+        expect(PolygonUtils.reverse([])).toEqual([]);
+    });
+
+    test('Newell normal of a concave planar loop', () => {
+        // The room lifted onto a roof sloped 45 degrees about the X-axis, z = y
+        const roof: Polyline3d = room.map(pt => ({x: pt.x, y: pt.y, z: pt.y}));
+        const normal = PolygonUtils.getNewellNormal(roof);
+        expectVertex(VectorUtils.normalize(normal), {x: 0, y: Math.SQRT1_2, z: -Math.SQRT1_2});
+        expect(PolygonUtils.getArea3d(roof)).toBeCloseTo(64 * Math.SQRT2);
+    });
+
+    test('Projection into the frame of a loop and back', () => {
+        const roof: Polyline3d = room.map(pt => ({x: pt.x + 2, y: pt.y, z: pt.y + 5}));
+        const projection = PolygonUtils.toPlanarFrame2d(roof)!;
+
+        expectVertex(projection.frame.origin, roof[0]);
+        expect(PolygonUtils.getSignedArea2d(projection.polygon)).toBeCloseTo(64 * Math.SQRT2);
+        // The first edge runs along the U axis.
+        expect(projection.polygon[1].x).toBeCloseTo(10 * Math.SQRT2);
+        expect(projection.polygon[1].y).toBeCloseTo(0);
+
+        const lifted = PolygonUtils.fromPlanarFrame2d(projection.polygon, projection.frame);
+        lifted.forEach((pt, i) => expectVertex(pt, roof[i]));
+
+        const collinear: Polyline3d = [{x: 0, y: 0, z: 0}, {x: 1, y: 1, z: 1}, {x: 2, y: 2, z: 2}];
+        expect(PolygonUtils.toPlanarFrame2d(collinear)).toBeUndefined();
+    });
+
+    // 20 x 20 slab with a shaft and an atrium, wound the same way as the slab
+    const slab: Polygon2d = {
+        outer: [{x: 0, y: 0}, {x: 20, y: 0}, {x: 20, y: 20}, {x: 0, y: 20}, {x: 0, y: 0}],
+        holes: [
+            [{x: 2, y: 2}, {x: 6, y: 2}, {x: 6, y: 6}, {x: 2, y: 6}],
+            [{x: 10, y: 10}, {x: 16, y: 10}, {x: 16, y: 16}, {x: 10, y: 16}],
+        ],
+    };
+
+    test('Point in polygon with holes', () => {
+        const inside = PolygonUtils.isPointInPolygon2d(slab, {x: 8, y: 8});
+        expect(inside.result).toBe(true);
+        expect(inside.winding).toBe(1);
+
+        const inShaft = PolygonUtils.isPointInPolygon2d(slab, {x: 4, y: 4});
+        expect(inShaft.result).toBe(false);
+        expect(inShaft.winding).toBe(0);
+
+        const onAtriumEdge = PolygonUtils.isPointInPolygon2d(slab, {x: 13, y: 10});
+        expect(onAtriumEdge.result).toBe(true);
+        expect(onAtriumEdge.onBoundary).toBe(true);
+
+        const outside = PolygonUtils.isPointInPolygon2d(slab, {x: 25, y: 5});
+        expect(outside.result).toBe(false);
+        expect(outside.outOfBoundingBox).toBe(true);
+
+        const level: MultiPolygon2d = [slab, {outer: [{x: 30, y: 0}, {x: 40, y: 0}, {x: 40, y: 10}, {x: 30, y: 10}], holes: []}];
+        expect(PolygonUtils.isPointInPolygon2d(level, {x: 35, y: 5}).result).toBe(true);
+        expect(PolygonUtils.isPointInPolygon2d(level, {x: 25, y: 5}).result).toBe(false);
+        expect(PolygonUtils.isPointInPolygon2d(level, {x: 25, y: 5}).outOfBoundingBox).toBe(false);
+    });
+
+    test('Even-odd and nonzero rules', () => {
+        // A boundary drawn around twice
+        const square: Polyline2d = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 0, y: 10}];
+        const twice: Polygon2d = {outer: [...square, ...square], holes: []};
+
+        const evenOdd = PolygonUtils.isPointInPolygon2d(twice, {x: 5, y: 5});
+        expect(evenOdd.winding).toBe(2);
+        expect(evenOdd.result).toBe(false);
+        expect(PolygonUtils.isPointInPolygon2d(twice, {x: 5, y: 5}, 'nonZero').result).toBe(true);
+    });
+
+    test('Batched point in polygon matches single queries', () => {
+        const sensors: Vertex2d[] = [];
+        for (let i = 0; i < 2000; i++) {
+            sensors.push({x: Math.sin(i * 12.9898) * 12 + 10, y: Math.sin(i * 78.233) * 12 + 10});
+        }
+        sensors.push({x: 2, y: 4}, {x: 20, y: 20});
+
+        for (const rule of ['evenOdd', 'nonZero'] as const) {
+            const results = PolygonUtils.arePointsInPolygon2d(slab, sensors, rule);
+            expect(results.length).toBe(sensors.length);
+            results.forEach((result, i) => {
+                expect(result).toEqual(PolygonUtils.isPointInPolygon2d(slab, sensors[i], rule));
+            });
+        }
+
+        const corners = PolygonUtils.arePointsInPolygon2d(slab, [{x: 2, y: 4}, {x: 20, y: 20}]);
+        expect(corners.every(r => r.onBoundary && r.result)).toBe(true);
+    });
+});
@@ -0,0 +1,115 @@
+import { MultiPolygon2d, Polygon2d } from "../src/models/types/basicGeometries";
+import { PolygonBooleanUtils } from "../src/utils/polygonBooleanUtils";
+import { PolygonUtils } from "../src/utils/polygonUtils";
+
+function rectangle(x0: number, y0: number, x1: number, y1: number): Polygon2d {
+    return {outer: [{x: x0, y: y0}, {x: x1, y: y0}, {x: x1, y: y1}, {x: x0, y: y1}], holes: []};
+}
+
+function getArea(polygons: MultiPolygon2d): number {
+    let area = 0;
+    for (const {outer, holes} of polygons) {
+        area += PolygonUtils.getSignedArea2d(outer);
+        for (const hole of holes) area += PolygonUtils.getSignedArea2d(hole);
+    }
+    return area;
+}
+
+describe('Polygon boolean test', () => {
+    const zone = rectangle(0, 0, 10, 10);
+    const overlapping = rectangle(5, 5, 15, 15);
+
+    test('Overlapping rectangles', () => {
+        const union = PolygonBooleanUtils.union(zone, overlapping);
+        expect(union.length).toBe(1);
+        expect(union[0].outer.length).toBe(9);
+        expect(union[0].outer[0]).toEqual(union[0].outer[8]);
+        expect(getArea(union)).toBeCloseTo(175);
+
+        expect(getArea(PolygonBooleanUtils.intersection(zone, overlapping))).toBeCloseTo(25);
+        expect(getArea(PolygonBooleanUtils.difference(zone, overlapping))).toBeCloseTo(75);
+
+        const xor = PolygonBooleanUtils.xor(zone, overlapping);
+        expect(xor.length).toBe(2);
+        expect(getArea(xor)).toBeCloseTo(150);
+    });
+
+    test('Rooms sharing a wall', () => {
+        // The second room is drawn clockwise.
+        const next: Polygon2d = {outer: [...rectangle(10, 0, 20, 10).outer].reverse(), holes: []};
+        const union = PolygonBooleanUtils.union(zone, next);
+        expect(union.length).toBe(1);
+        expect(union[0].outer.length).toBe(5);
+        expect(getArea(union)).toBeCloseTo(200);
+
+        expect(PolygonBooleanUtils.intersection(zone, next)).toEqual([]);
+        expect(getArea(PolygonBooleanUtils.difference(zone, next))).toBeCloseTo(100);
+
+        // Rooms touching at a corner only stay apart.
+        expect(PolygonBooleanUtils.union(zone, rectangle(10, 10, 20, 20)).length).toBe(2);
+    });
+
+    test('Identical and disjoint polygons', () => {
+        expect(getArea(PolygonBooleanUtils.union(zone, zone))).toBeCloseTo(100);
+        expect(getArea(PolygonBooleanUtils.intersection(zone, zone))).toBeCloseTo(100);
+        expect(PolygonBooleanUtils.difference(zone, zone)).toEqual([]);
+        expect(PolygonBooleanUtils.xor(zone, zone)).toEqual([]);
+
+        const far = rectangle(30, 0, 40, 10);
+        expect(PolygonBooleanUtils.union(zone, far).length).toBe(2);
+        expect(PolygonBooleanUtils.intersection(zone, far)).toEqual([]);
+        expect(PolygonBooleanUtils.union(zone, [])).toHaveLength(1);
+    });
+
+    test('Holes are oriented and assigned to their outer boundary', () => {
+        const slab = rectangle(0, 0, 20, 20);
+        const core = rectangle(5, 5, 10, 10);
+        const net = PolygonBooleanUtils.difference(slab, [core, rectangle(30, 0, 35, 5)]);
+        expect(net.length).toBe(1);
+        expect(net[0].holes.length).toBe(1);
+        expect(PolygonUtils.isClockwise2d(net[0].outer)).toBe(false);
+        expect(PolygonUtils.isClockwise2d(net[0].holes[0])).toBe(true);
+        expect(getArea(net)).toBeCloseTo(375);
+
+        // Filling the core back closes the hole, with its edges shared by both polygons.
+        const filled = PolygonBooleanUtils.union(net, core);
+        expect(filled.length).toBe(1);
+        expect(filled[0].holes).toEqual([]);
+        expect(getArea(filled)).toBeCloseTo(400);
+
+        // An island inside the hole is an outer boundary of its own.
+        const island = rectangle(6, 6, 8, 8);
+        const withIsland = PolygonBooleanUtils.union(net, island);
+        expect(withIsland.length).toBe(2);
+        expect(getArea(withIsland)).toBeCloseTo(379);
+        expect(withIsland.find(p => p.holes.length === 1)).toBeDefined();
+
+        // A clip partly over the hole and sharing its edge
+        const cut = PolygonBooleanUtils.intersection(net, rectangle(0, 5, 10, 10));
+        expect(cut.length).toBe(1);
+        expect(getArea(cut)).toBeCloseTo(25);
+    });
+
+    test('Split points off a horizontal edge keep their side', () => {
+        // The triangles cross the horizontal edges at split points rounded slightly off them. The second one is clockwise.
+        const cases: [Polygon2d, Polygon2d][] = [
+            [
+                rectangle(-3, 0.5, -1, 1.5),
+                {outer: [{x: -2.5524, y: -0.2293}, {x: -0.7002, y: 0.9876}, {x: -2.0073, y: 0.9001}], holes: []},
+            ],
+            [
+                {outer: [{x: -2, y: -0.5}, {x: 0.5, y: -0.5}, {x: 0, y: 1}, {x: -2, y: 1}], holes: []},
+                {outer: [{x: -1.1259, y: -2.6679}, {x: -0.1079, y: 3.1813}, {x: 3.2737, y: -3.5155}], holes: []},
+            ],
+        ];
+        for (const [subject, clip] of cases) {
+            const subjectArea = Math.abs(getArea([subject]));
+            const clipArea = Math.abs(getArea([clip]));
+            const intersection = getArea(PolygonBooleanUtils.intersection(subject, clip));
+            expect(intersection).toBeGreaterThan(0);
+            expect(getArea(PolygonBooleanUtils.union(subject, clip))).toBeCloseTo(subjectArea + clipArea - intersection);
+            expect(getArea(PolygonBooleanUtils.difference(subject, clip))).toBeCloseTo(subjectArea - intersection);
+            expect(getArea(PolygonBooleanUtils.xor(subject, clip))).toBeCloseTo(subjectArea + clipArea - 2 * intersection);
+        }
+    });
+});
@@ -0,0 +1,45 @@
+import { Polyline2d } from "../src/models/types/basicGeometries";
+import { OverlayEdge, PolygonOverlayUtils } from "../src/utils/polygonOverlayUtils";
+import { PolygonUtils } from "../src/utils/polygonUtils";
+
+function getEdges(pts: Polyline2d, operand: number): OverlayEdge[] {
+    return pts.map((p0, i) => ({p0, p1: pts[(i + 1) % pts.length], operand}));
+}
+
+describe('Polygon overlay test', () => {
+    // Loop going twice around the square from (2, 2) to (6, 6), and once around the rest of the 8 x 8 square
+    const loop: Polyline2d = [
+        {x: 0, y: 0}, {x: 8, y: 0}, {x: 8, y: 8}, {x: 0, y: 8}, {x: 0, y: 0},
+        {x: 2, y: 2}, {x: 6, y: 2}, {x: 6, y: 6}, {x: 2, y: 6}, {x: 2, y: 2},
+    ];
+
+    test('Regions selected by winding number', () => {
+        const edges = getEdges(loop, 0);
+
+        const positive = PolygonOverlayUtils.getBoundaries(edges, 1, w => w[0] > 0);
+        expect(positive.length).toBe(1);
+        expect(PolygonUtils.getSignedArea2d(positive[0])).toBeCloseTo(64);
+
+        const twice = PolygonOverlayUtils.getBoundaries(edges, 1, w => w[0] > 1);
+        expect(twice.length).toBe(1);
+        expect(twice[0].length).toBe(4);
+        expect(PolygonUtils.getSignedArea2d(twice[0])).toBeCloseTo(16);
+
+        // The region covered once is a frame, with a clockwise hole.
+        const once = PolygonOverlayUtils.getBoundaries(edges, 1, w => w[0] === 1);
+        expect(once.map(PolygonUtils.getSignedArea2d).sort((a, b) => a - b)).toEqual([-16, 64]);
+    });
+
+    test('Several areas', () => {
+        const edges = [
+            ...getEdges([{x: 0, y: 0}, {x: 4, y: 0}, {x: 4, y: 4}, {x: 0, y: 4}], 0),
+            ...getEdges([{x: 2, y: 0}, {x: 6, y: 0}, {x: 6, y: 4}, {x: 2, y: 4}], 1),
+            ...getEdges([{x: 3, y: -1}, {x: 5, y: -1}, {x: 5, y: 5}, {x: 3, y: 5}], 2),
+        ];
+        const all = PolygonOverlayUtils.getBoundaries(edges, 3, w => w.every(v => v !== 0));
+        expect(all.length).toBe(1);
+        expect(PolygonUtils.getSignedArea2d(all[0])).toBeCloseTo(4);
+
+        expect(PolygonOverlayUtils.getBoundaries([], 1, w => w[0] > 0)).toEqual([]);
+    });
+});
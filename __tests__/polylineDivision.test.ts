@@ -0,0 +1,80 @@
+import { Polyline2d, Polyline3d } from "../src/models/types/basicGeometries";
+import { PolylineUtils } from "../src/utils/polylineUtils";
+import { expectVertex } from "./helpers/expectGeometry";
+
+describe('Polyline division test', () => {
+    // Grid line of 10 + 5, with a duplicated vertex at the corner
+    const gridLine: Polyline2d = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 0}, {x: 10, y: 5}];
+
+    test('Point at length', () => {
+        const mid = PolylineUtils.pointAtLength2d(gridLine, 4)!;
+        expectVertex(mid.pt, {x: 4, y: 0, z: 0});
+        expectVertex(mid.tangent, {x: 1, y: 0, z: 0});
+        expect(mid.segIndex).toBe(0);
+        expect(mid.tSeg).toBeCloseTo(0.4);
+        expect(mid.t).toBeCloseTo(4 / 15);
+        expect(mid.isAtVertex).toBe(false);
+
+        // At the corner the outgoing segment is used, skipping the zero-length one.
+        const corner = PolylineUtils.pointAtLength2d(gridLine, 10)!;
+        expectVertex(corner.pt, {x: 10, y: 0, z: 0});
+        expectVertex(corner.tangent, {x: 0, y: 1, z: 0});
+        expect(corner.segIndex).toBe(2);
+        expect(corner.isAtVertex).toBe(true);
+        expect(corner.vertexIndex).toBe(2);
+
+        const end = PolylineUtils.pointAtLength2d(gridLine, 15)!;
+        expect(end.segIndex).toBe(2);
+        expect(end.vertexIndex).toBe(3);
+
+        expect(PolylineUtils.pointAtLength2d(gridLine, 15.1)).toBeUndefined();
+        expect(PolylineUtils.pointAtLength2d(gridLine, -0.1)).toBeUndefined();
+        expect(PolylineUtils.pointAtLength2d([{x: 1, y: 1}], 0)).toBeUndefined();
+    });
+
+    test('Point at parameter is the inverse of the footing point', () => {
+        const duct: Polyline3d = [{x: 0, y: 0, z: 0}, {x: 0, y: 0, z: 3}, {x: 4, y: 0, z: 3}];
+        const evaluation = PolylineUtils.pointAtParameter3d(duct, 0.5)!;
+        expectVertex(evaluation.pt, {x: 0.5, y: 0, z: 3});
+        expect(evaluation.travelDistanceOnPolyline).toBeCloseTo(3.5);
+
+        const footing = PolylineUtils.footingPointOnPolyline3d(duct, {x: 0.5, y: 1, z: 3})!;
+        expect(footing.t).toBeCloseTo(0.5);
+    });
+
+    test('Divide by count and by length', () => {
+        const byCount = PolylineUtils.divideByCount2d(gridLine, 3);
+        expect(byCount.map(e => e.travelDistanceOnPolyline)).toEqual([0, 5, 10, 15]);
+        expectVertex(byCount[3].pt, {x: 10, y: 5, z: 0});
+
+        // Columns every 4 units : the last bay is 3 units long
+        const byLength = PolylineUtils.divideByLength2d(gridLine, 4);
+        expect(byLength.length).toBe(4);
+        expectVertex(byLength[3].pt, {x: 10, y: 2, z: 0});
+
+        const run: Polyline3d = [{x: 0, y: 0, z: 3}, {x: 6, y: 0, z: 3}];
+        expect(PolylineUtils.divideByLength3d(run, 2).length).toBe(4);
+        expect(PolylineUtils.divideByCount3d(run, 1).length).toBe(2);
+
+        expect(() => PolylineUtils.divideByCount2d(gridLine, 0)).toThrow();
+        expect(() => PolylineUtils.divideByCount2d(gridLine, 1.5)).toThrow();
+        expect(() => PolylineUtils.divideByLength2d(gridLine, 0)).toThrow();
+    });
+
+    test('Uniform resampling', () => {
+        const resampled = PolylineUtils.resamplePolyline2d(gridLine, 2.4);
+        // 15 / 2.4 is rounded to 6 parts of 2.5
+        expect(resampled.length).toBe(7);
+        expect(resampled[0]).toEqual({x: 0, y: 0});
+        expect(resampled[4].x).toBeCloseTo(10);
+        expect(resampled[4].y).toBeCloseTo(0);
+        expect(resampled[6].y).toBeCloseTo(5);
+
+        const arc: Polyline3d = [];
+        for (let i = 0; i <= 8; i++) arc.push({x: Math.cos(i * Math.PI / 16), y: Math.sin(i * Math.PI / 16), z: i});
+        const resampled3d = PolylineUtils.resamplePolyline3d(arc, 1);
+        const length = PolylineUtils.getLengthPolyline3d(arc);
+        expect(resampled3d.length).toBe(Math.round(length) + 1);
+        expectVertex(resampled3d[resampled3d.length - 1], arc[arc.length - 1]);
+    });
+});
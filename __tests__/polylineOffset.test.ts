@@ -0,0 +1,121 @@
+import { Polyline2d } from "../src/models/types/basicGeometries";
+import { PolygonUtils } from "../src/utils/polygonUtils";
+import { PolylineOffsetUtils } from "../src/utils/polylineOffsetUtils";
+import { expectPoints } from "./helpers/expectGeometry";
+
+describe('Polyline offset test', () => {
+    const centerline: Polyline2d = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}];
+
+    test('Wall faces from a centerline', () => {
+        const outer = PolylineOffsetUtils.offsetPolyline(centerline, -0.1);
+        expectPoints(outer, [{x: 0, y: -0.1}, {x: 10.1, y: -0.1}, {x: 10.1, y: 10}]);
+
+        const inner = PolylineOffsetUtils.offsetPolyline(centerline, 0.1);
+        expectPoints(inner, [{x: 0, y: 0.1}, {x: 9.9, y: 0.1}, {x: 9.9, y: 10}]);
+    });
+
+    test('Join types', () => {
+        const bevel = PolylineOffsetUtils.offsetPolyline(centerline, -1, {joinType: 'bevel'});
+        expectPoints(bevel, [{x: 0, y: -1}, {x: 10, y: -1}, {x: 11, y: 0}, {x: 11, y: 10}]);
+
+        const round = PolylineOffsetUtils.offsetPolyline(centerline, -1, {joinType: 'round', arcStepAngle: Math.PI / 8});
+        expect(round.length).toBe(2 + 5);
+        for (const pt of round.slice(1, -1)) {
+            expect(Math.hypot(pt.x - 10, pt.y)).toBeCloseTo(1);
+        }
+
+        // A sharp corner exceeds the miter limit and is beveled.
+        const sharp: Polyline2d = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 0, y: 1}];
+        expect(PolylineOffsetUtils.offsetPolyline(sharp, -1, {miterLimit: 2}).length).toBe(4);
+        expect(PolylineOffsetUtils.offsetPolyline(sharp, -1, {miterLimit: 100}).length).toBe(3);
+    });
+
+    test('Loops at inner corners are removed', () => {
+        // The offset of the short middle segment runs backwards and crosses the other two.
+        const hook: Polyline2d = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 1}, {x: 0, y: 5}];
+        const result = PolylineOffsetUtils.offsetPolyline(hook, 2);
+
+        const normal = {x: -4 / Math.hypot(10, 4), y: -10 / Math.hypot(10, 4)};
+        const end = {x: normal.x * 2, y: 5 + normal.y * 2};
+        const crossX = end.x + (2 - end.y) * -2.5;
+        expectPoints(result, [{x: 0, y: 2}, {x: crossX, y: 2}, end]);
+    });
+
+    test('Growing and shrinking a square', () => {
+        const square: Polyline2d = [{x: 0, y: 0}, {x: 0, y: 10}, {x: 10, y: 10}, {x: 10, y: 0}, {x: 0, y: 0}];
+
+        const grown = PolylineOffsetUtils.offsetPolygon(square, 1);
+        expect(grown.length).toBe(1);
+        expect(PolygonUtils.getSignedArea2d(grown[0])).toBeCloseTo(144);
+
+        const rounded = PolylineOffsetUtils.offsetPolygon(square, 1, {joinType: 'round', arcStepAngle: Math.PI / 64});
+        expect(PolygonUtils.getSignedArea2d(rounded[0])).toBeCloseTo(100 + 40 + Math.PI, 1);
+
+        const shrunk = PolylineOffsetUtils.offsetPolygon(square, -2);
+        expect(shrunk.length).toBe(1);
+        expect(PolygonUtils.getSignedArea2d(shrunk[0])).toBeCloseTo(36);
+
+        expect(PolylineOffsetUtils.offsetPolygon(square, -6)).toEqual([]);
+    });
+
+    test('Concave corners are cleaned up', () => {
+        const lShape: Polyline2d = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 4}, {x: 4, y: 4}, {x: 4, y: 10}, {x: 0, y: 10}];
+
+        const grown = PolylineOffsetUtils.offsetPolygon(lShape, 1);
+        expect(grown.length).toBe(1);
+        // 12 x 12 minus the 6 x 6 notch
+        expect(PolygonUtils.getSignedArea2d(grown[0])).toBeCloseTo(108);
+
+        const shrunk = PolylineOffsetUtils.offsetPolygon(lShape, -1);
+        expect(shrunk.length).toBe(1);
+        // 8 x 8 minus the 6 x 6 notch
+        expect(PolygonUtils.getSignedArea2d(shrunk[0])).toBeCloseTo(28);
+    });
+
+    test('Shrinking dumbbell splits into two polygons', () => {
+        const dumbbell: Polyline2d = [
+            {x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 4}, {x: 20, y: 4}, {x: 20, y: 0}, {x: 30, y: 0},
+            {x: 30, y: 10}, {x: 20, y: 10}, {x: 20, y: 6}, {x: 10, y: 6}, {x: 10, y: 10}, {x: 0, y: 10},
+        ];
+        const result = PolylineOffsetUtils.offsetPolygon(dumbbell, -1.5);
+
+        expect(result.length).toBe(2);
+        for (const polygon of result) {
+            expect(PolygonUtils.getSignedArea2d(polygon)).toBeCloseTo(49);
+            expect(polygon.length).toBe(5);
+            expect(polygon[0]).toEqual(polygon[polygon.length - 1]);
+        }
+    });
+
+    test('Growing a room with a narrow door encloses a hole', () => {
+        const room: Polyline2d = [
+            {x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 5.5, y: 10}, {x: 5.5, y: 8}, {x: 8, y: 8},
+            {x: 8, y: 2}, {x: 2, y: 2}, {x: 2, y: 8}, {x: 4.5, y: 8}, {x: 4.5, y: 10}, {x: 0, y: 10},
+        ];
+        const result = PolylineOffsetUtils.offsetPolygon(room, 1);
+        const areas = result.map(PolygonUtils.getSignedArea2d).sort((a, b) => a - b);
+
+        // The door closes, and the room is left as a clockwise hole
+        expect(areas.length).toBe(2);
+        expect(areas[0]).toBeCloseTo(-16);
+        expect(areas[1]).toBeCloseTo(144);
+    });
+
+    test('Split points off a horizontal edge keep their side', () => {
+        // The miter at (-1, 3) meets the offset of the roof at y = 3.5000000000000004.
+        const outline: Polyline2d = [
+            {x: 7, y: 0}, {x: 5, y: 4}, {x: 2, y: 6}, {x: -1, y: 3}, {x: -4, y: 3},
+            {x: -2, y: 0}, {x: -3, y: -2}, {x: -1, y: -4}, {x: 1, y: -4}, {x: 2, y: -2},
+        ];
+        const result = PolylineOffsetUtils.offsetPolygon(outline, 0.5);
+        expect(result.length).toBe(1);
+        expect(result[0].length).toBe(12);
+        expect(PolygonUtils.getSignedArea2d(result[0])).toBeCloseTo(77.047, 2);
+    });
+
+    test('Invalid inputs throw', () => {
+        expect(() => PolylineOffsetUtils.offsetPolyline([{x: 0, y: 0}], 1)).toThrow();
+        expect(() => PolylineOffsetUtils.offsetPolygon([{x: 0, y: 0}, {x: 1, y: 0}], 1)).toThrow();
+        expect(() => PolylineOffsetUtils.offsetPolyline(centerline, 1, {miterLimit: 0.5})).toThrow();
+    });
+});
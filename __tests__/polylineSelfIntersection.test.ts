@@ -0,0 +1,85 @@
+import { Polyline2d } from "../src/models/types/basicGeometries";
+import { PolygonUtils } from "../src/utils/polygonUtils";
+import { PolylineUtils } from "../src/utils/polylineUtils";
+
+describe('Polyline self-intersection test', () => {
+    const bowTie: Polyline2d = [{x: 0, y: 0}, {x: 10, y: 10}, {x: 10, y: 0}, {x: 0, y: 10}, {x: 0, y: 0}];
+    const square: Polyline2d = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 0, y: 10}, {x: 0, y: 0}];
+
+    test('Crossings are reported with segments and parameters', () => {
+        const crossings = PolylineUtils.getSelfIntersections2d(bowTie);
+        expect(crossings.length).toBe(1);
+        expect(crossings[0].segIndex0).toBe(0);
+        expect(crossings[0].segIndex1).toBe(2);
+        expect(crossings[0].tSeg0).toBeCloseTo(0.5);
+        expect(crossings[0].tSeg1).toBeCloseTo(0.5);
+        expect(crossings[0].pt.x).toBeCloseTo(5);
+        expect(crossings[0].pt.y).toBeCloseTo(5);
+
+        // Neither consecutive segments nor the closing vertex count as crossings.
+        expect(PolylineUtils.getSelfIntersections2d(square)).toEqual([]);
+
+        // An open polyline ending on itself
+        const hook: Polyline2d = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 5}, {x: 5, y: 0}];
+        const touches = PolylineUtils.getSelfIntersections2d(hook);
+        expect(touches.map(c => [c.segIndex0, c.segIndex1])).toEqual([[0, 2]]);
+        expect(touches[0].tSeg1).toBeCloseTo(1);
+    });
+
+    test('Edges drawn back onto each other are reported as overlaps', () => {
+        const polyline: Polyline2d = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 5, y: 0}, {x: 5, y: 5}];
+        const crossings = PolylineUtils.getSelfIntersections2d(polyline);
+        expect(crossings.length).toBe(2);
+        expect(crossings[0].overlap).toEqual({p0: {x: 5, y: 0}, p1: {x: 10, y: 0}});
+        expect(crossings[0].tSeg0).toBeCloseTo(0.5);
+        expect(crossings[0].tSeg1).toBeCloseTo(1);
+
+        // The last segment starts on the first one.
+        expect(crossings[1].overlap).toBeUndefined();
+        expect([crossings[1].segIndex0, crossings[1].segIndex1]).toEqual([0, 2]);
+    });
+
+    test('Duplicate vertices are removed', () => {
+        const polyline: Polyline2d = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 1e-9}, {x: 10, y: 10}];
+        expect(PolylineUtils.getSelfIntersections2d(polyline)).toEqual([]);
+        expect(PolylineUtils.removeDuplicateVertices2d(polyline)).toEqual([{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}]);
+
+        const closed: Polyline2d = [{x: 0, y: 0}, {x: 1, y: 0}, {x: 1, y: 1}, {x: 0, y: 0}, {x: 0, y: 0}];
+        expect(PolylineUtils.removeDuplicateVertices2d(closed)).toEqual([{x: 0, y: 0}, {x: 1, y: 0}, {x: 1, y: 1}, {x: 0, y: 0}]);
+
+        const duct = [{x: 0, y: 0, z: 0}, {x: 0, y: 0, z: 0}, {x: 0, y: 0, z: 3}];
+        expect(PolylineUtils.removeDuplicateVertices3d(duct)).toEqual([{x: 0, y: 0, z: 0}, {x: 0, y: 0, z: 3}]);
+    });
+
+    test('A bow-tie is split into simple loops', () => {
+        const loops = PolylineUtils.splitSelfIntersections2d(bowTie);
+        expect(loops.length).toBe(2);
+        expect(loops.map(PolygonUtils.getSignedArea2d).sort((a, b) => a - b)).toEqual([-25, 25]);
+        for (const loop of loops) {
+            expect(loop[0]).toEqual(loop[loop.length - 1]);
+            expect(PolylineUtils.getSelfIntersections2d(loop)).toEqual([]);
+        }
+
+        expect(PolylineUtils.splitSelfIntersections2d(square)).toEqual([square]);
+    });
+
+    test('Touching vertices, spurs and stars are repaired', () => {
+        // Two triangles touching at (2, 2), without a closing point
+        const touching: Polyline2d = [{x: 0, y: 0}, {x: 4, y: 0}, {x: 2, y: 2}, {x: 4, y: 4}, {x: 0, y: 4}, {x: 2, y: 2}];
+        expect(PolylineUtils.splitSelfIntersections2d(touching).map(PolygonUtils.getSignedArea2d)).toEqual([4, 4]);
+
+        // A wall drawn out and back is dropped
+        const spur: Polyline2d = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 10, y: 15}, {x: 10, y: 10}, {x: 0, y: 10}];
+        const repaired = PolylineUtils.splitSelfIntersections2d(spur);
+        expect(repaired.length).toBe(1);
+        expect(PolygonUtils.getSignedArea2d(repaired[0])).toBeCloseTo(100);
+
+        const star: Polyline2d = [];
+        for (let i = 0; i < 5; i++) star.push({x: Math.cos(i * 4 * Math.PI / 5), y: Math.sin(i * 4 * Math.PI / 5)});
+        const loops = PolylineUtils.splitSelfIntersections2d(star);
+        expect(loops.length).toBeGreaterThan(1);
+        for (const loop of loops) {
+            expect(PolylineUtils.getSelfIntersections2d(loop)).toEqual([]);
+        }
+    });
+});
@@ -0,0 +1,118 @@
+import { Polyline2d, Polyline3d } from "../src/models/types/basicGeometries";
+import { DistanceUtils } from "../src/utils/distanceUtils";
+import { LineEvaluation } from "../src/utils/lineEvaluationUtils";
+import { PolylineSimplifyUtils } from "../src/utils/polylineSimplifyUtils";
+import { VectorUtils } from "../src/utils/vectorUtils";
+
+function getMaxDeviation(original: Polyline3d, simplified: Polyline3d): number {
+    let max = 0;
+    for (const pt of original) {
+        let min = Infinity;
+        for (let i = 0; i < simplified.length - 1; i++) {
+            min = Math.min(min, DistanceUtils.getDistanceOfPointAndSegment(pt, {p0: simplified[i], p1: simplified[i + 1]}).dist);
+        }
+        max = Math.max(max, min);
+    }
+    return max;
+}
+
+function isSelfIntersecting(polyline: Polyline2d): boolean {
+    for (let i = 0; i < polyline.length - 1; i++) {
+        for (let j = i + 2; j < polyline.length - 1; j++) {
+            const seg0 = {p0: polyline[i], p1: polyline[i + 1]};
+            const seg1 = {p0: polyline[j], p1: polyline[j + 1]};
+            if (LineEvaluation.getSegmentIntersection2d(seg0, seg1).type !== 'none') return true;
+        }
+    }
+    return false;
+}
+
+describe('Polyline simplify test', () => {
+    // Outline of a 10 x 10 room traced every 1 unit, starting in the middle of its bottom edge.
+    const room: Polyline2d = [];
+    for (let i = 5; i < 10; i++) room.push({x: i, y: 0});
+    for (let i = 0; i < 10; i++) room.push({x: 10, y: i});
+    for (let i = 10; i > 0; i--) room.push({x: i, y: 10});
+    for (let i = 10; i > 0; i--) room.push({x: 0, y: i});
+    for (let i = 0; i <= 5; i++) room.push({x: i, y: 0});
+
+    test('Douglas-Peucker on an open polyline', () => {
+        const polyline: Polyline2d = [{x: 0, y: 0}, {x: 1, y: 0.1}, {x: 2, y: -0.1}, {x: 3, y: 5}, {x: 4, y: 6}, {x: 5, y: 7}];
+        const result = PolylineSimplifyUtils.simplifyDouglasPeucker2d(polyline, 0.5);
+        expect(result).toEqual([{x: 0, y: 0}, {x: 2, y: -0.1}, {x: 3, y: 5}, {x: 5, y: 7}]);
+
+        expect(PolylineSimplifyUtils.simplifyDouglasPeucker2d(polyline, 0)).toEqual(polyline.filter((_, i) => i !== 4));
+        expect(() => PolylineSimplifyUtils.simplifyDouglasPeucker2d(polyline, -1)).toThrow();
+    });
+
+    test('Douglas-Peucker on a 3D curve stays within epsilon', () => {
+        const helix: Polyline3d = [];
+        for (let i = 0; i <= 200; i++) {
+            const angle = i * Math.PI / 50;
+            helix.push({x: Math.cos(angle) * 10, y: Math.sin(angle) * 10, z: i * 0.05});
+        }
+
+        const result = PolylineSimplifyUtils.simplifyDouglasPeucker3d(helix, 0.1);
+        expect(result.length).toBeLessThan(helix.length / 2);
+        expect(result[0]).toEqual(helix[0]);
+        expect(result[result.length - 1]).toEqual(helix[helix.length - 1]);
+        expect(getMaxDeviation(helix, result)).toBeLessThanOrEqual(0.1);
+    });
+
+    test('Closed polylines keep their start point unless allowed', () => {
+        for (const simplify of [PolylineSimplifyUtils.simplifyDouglasPeucker2d, PolylineSimplifyUtils.simplifyVisvalingam2d]) {
+            const kept = simplify(room, 0.01);
+            expect(kept.length).toBe(6);
+            expect(kept[0]).toEqual({x: 5, y: 0});
+            expect(kept[kept.length - 1]).toEqual({x: 5, y: 0});
+
+            const free = simplify(room, 0.01, {keepEnds: false});
+            expect(free.length).toBe(5);
+            expect(free[0]).toEqual({x: 10, y: 0});
+            expect(free[4]).toEqual({x: 10, y: 0});
+        }
+    });
+
+    test('Closed polylines do not collapse unless allowed', () => {
+        const sliver: Polyline2d = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 0.1}, {x: 0, y: 0.1}, {x: 0, y: 0}];
+
+        const closed = PolylineSimplifyUtils.simplifyDouglasPeucker2d(sliver, 1);
+        expect(closed.length).toBe(4);
+        expect(closed[0]).toEqual(closed[3]);
+
+        const open = PolylineSimplifyUtils.simplifyDouglasPeucker2d(sliver, 1, {keepClosed: false});
+        expect(open).toEqual([{x: 0, y: 0}, {x: 10, y: 0.1}, {x: 0, y: 0}]);
+
+        const triangle = PolylineSimplifyUtils.simplifyVisvalingam2d(sliver, 100);
+        expect(triangle.length).toBe(4);
+    });
+
+    test('Visvalingam-Whyatt removes the smallest areas first', () => {
+        const polyline: Polyline2d = [{x: 0, y: 0}, {x: 1, y: 0.1}, {x: 2, y: 0}, {x: 3, y: 2}, {x: 4, y: 0}];
+
+        // The bump at (1, 0.1) has an area of 0.1, the peak at (3, 2) an area of 2.
+        expect(PolylineSimplifyUtils.simplifyVisvalingam2d(polyline, 0.5)).toEqual([{x: 0, y: 0}, {x: 2, y: 0}, {x: 3, y: 2}, {x: 4, y: 0}]);
+        expect(PolylineSimplifyUtils.simplifyVisvalingam2d(polyline, 0.05)).toEqual(polyline);
+
+        const lifted = polyline.map(VectorUtils.to3d).map(pt => ({...pt, z: pt.y}));
+        expect(PolylineSimplifyUtils.simplifyVisvalingam3d(lifted, 0.5).length).toBe(4);
+    });
+
+    test('Topology is kept on request', () => {
+        // A shallow dip, passed closely by a spike of the returning part.
+        const polyline: Polyline2d = [
+            {x: 0, y: 0}, {x: 5, y: -1}, {x: 10, y: 0}, {x: 10, y: 6}, {x: 6, y: 6}, {x: 5, y: -0.5}, {x: 4, y: 6}, {x: 0, y: 6},
+        ];
+        expect(isSelfIntersecting(polyline)).toBe(false);
+
+        expect(isSelfIntersecting(PolylineSimplifyUtils.simplifyDouglasPeucker2d(polyline, 1.2))).toBe(true);
+        const dp = PolylineSimplifyUtils.simplifyDouglasPeucker2d(polyline, 1.2, {keepTopology: true});
+        expect(isSelfIntersecting(dp)).toBe(false);
+        expect(dp).toContainEqual({x: 5, y: -1});
+
+        expect(isSelfIntersecting(PolylineSimplifyUtils.simplifyVisvalingam2d(polyline, 5.2))).toBe(true);
+        const vw = PolylineSimplifyUtils.simplifyVisvalingam2d(polyline, 5.2, {keepTopology: true});
+        expect(isSelfIntersecting(vw)).toBe(false);
+        expect(vw).toContainEqual({x: 5, y: -1});
+    });
+});
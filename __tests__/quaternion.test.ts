@@ -0,0 +1,41 @@
+import { Vertex3d } from "../src/models/types/basicGeometries";
+import { Quaternion } from "../src/models/basic/quaternion";
+import { VectorUtils } from "../src/utils/vectorUtils";
+import { expectVertex } from "./helpers/expectGeometry";
+
+describe('Quaternion tests', () => {
+    test('Axis angle rotation matches world axis rotations', () => {
+        const v: Vertex3d = {x: 1, y: 2, z: 3};
+        const q = Quaternion.fromAxisAngle({x: 0, y: 0, z: 1}, 0.4);
+        expectVertex(q.rotate(v), VectorUtils.rotateOnXY(v, 0.4), 9);
+
+        const euler = Quaternion.fromEuler(0.3, -0.2, 1.1);
+        const expected = VectorUtils.chain(v).rotateOnYZ(0.3).rotateOnXZ(-0.2).rotateOnXY(1.1).value();
+        expectVertex(VectorUtils.chain(v).rotate(euler).value(), expected, 9);
+    });
+
+    test('Rotation from two vectors', () => {
+        const from: Vertex3d = {x: 1, y: 1, z: 0};
+        const to: Vertex3d = {x: 0, y: 0, z: 5};
+        const q = Quaternion.fromTwoVectors(from, to);
+        expectVertex(VectorUtils.normalize(q.rotate(from)), {x: 0, y: 0, z: 1}, 9);
+
+        const opposite = Quaternion.fromTwoVectors({x: 1, y: 0, z: 0}, {x: -2, y: 0, z: 0});
+        expectVertex(opposite.rotate({x: 1, y: 0, z: 0}), {x: -1, y: 0, z: 0}, 9);
+    });
+
+    test('Slerp halfway and transform conversion', () => {
+        const axis: Vertex3d = {x: 1, y: 2, z: -1};
+        const q0 = Quaternion.identity();
+        const q1 = Quaternion.fromAxisAngle(axis, 1.2);
+        const half = Quaternion.slerp(q0, q1, 0.5);
+        expect(half.equals(Quaternion.fromAxisAngle(axis, 0.6))).toBe(true);
+
+        const v: Vertex3d = {x: 3, y: -1, z: 2};
+        expectVertex(q1.toTransform3d().apply(v), q1.rotate(v), 9);
+
+        const {axis: restoredAxis, rad} = q1.toAxisAngle();
+        expect(rad).toBeCloseTo(1.2, 9);
+        expectVertex(restoredAxis, VectorUtils.normalize(axis), 9);
+    });
+});
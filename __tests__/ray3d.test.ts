@@ -0,0 +1,74 @@
+import { BVHTree, BVHTriangle } from "../src/models/bvhTree";
+import { InfiniteLine3d } from "../src/models/basic/infiniteLine3d";
+import { Ray3d } from "../src/models/basic/ray3d";
+import { Line } from "../src/models/types/basicGeometries";
+import { LineEvaluation } from "../src/utils/lineEvaluationUtils";
+
+describe('Ray and infinite line test', () => {
+    const segment: Line = {p0: {x: 0, y: 0, z: 0}, p1: {x: 2, y: 0, z: 0}};
+
+    test('Parametric evaluation and conversion from Line', () => {
+        const ray = Ray3d.fromLine(segment);
+        expect(ray.pointAt(0)).toEqual(segment.p0);
+        expect(ray.pointAt(1)).toEqual(segment.p1);
+        expect(ray.pointAt(2.5)).toEqual({x: 5, y: 0, z: 0});
+        expect(ray.getParameter({x: -1, y: 3, z: 0})).toBeCloseTo(-0.5);
+        expect(ray.domain).toEqual([0, Infinity]);
+
+        const line = ray.toInfiniteLine();
+        expect(line).toBeInstanceOf(InfiniteLine3d);
+        expect(line.pointAt(-1)).toEqual({x: -2, y: 0, z: 0});
+        expect(InfiniteLine3d.fromLine(segment).toLine()).toEqual(segment);
+
+        expect(() => new Ray3d({x: 0, y: 0, z: 0}, {x: 0, y: 0, z: 0})).toThrow();
+        expect(() => InfiniteLine3d.fromLine({p0: segment.p0, p1: segment.p0})).toThrow();
+    });
+
+    test('Intersection respects each parameter domain', () => {
+        const crossing: Line = {p0: {x: 5, y: -1, z: 0}, p1: {x: 5, y: 1, z: 0}};
+
+        expect(LineEvaluation.getIntersection(segment, crossing).result).toBe(false);
+        expect(LineEvaluation.getIntersection(segment, crossing, true).result).toBe(true);
+
+        const hit = LineEvaluation.getIntersection(Ray3d.fromLine(segment), crossing);
+        expect(hit.result).toBe(true);
+        expect(hit.pt!.x).toBeCloseTo(5);
+
+        const backwards = new Ray3d({x: 10, y: 0, z: 0}, {x: 1, y: 0, z: 0});
+        expect(LineEvaluation.getIntersection(backwards, crossing).result).toBe(false);
+        expect(LineEvaluation.getIntersection(backwards.toInfiniteLine(), crossing).result).toBe(true);
+    });
+
+    test('Foot point on a ray', () => {
+        const ray = Ray3d.fromLine(segment);
+        expect(LineEvaluation.getFootPointOnLine(ray, {x: 7, y: 3, z: 0})!.t).toBeCloseTo(3.5);
+        expect(LineEvaluation.getFootPointOnLine(ray, {x: -1, y: 3, z: 0})).toBeUndefined();
+        expect(LineEvaluation.getFootPointOnLine(ray.toInfiniteLine(), {x: -1, y: 3, z: 0})!.t).toBeCloseTo(-0.5);
+        expect(LineEvaluation.getFootPointOnLine(segment, {x: -1, y: 3, z: 0})!.t).toBeCloseTo(-0.5);
+
+        // A short direction is still a direction, unlike a short segment.
+        const short = new Ray3d({x: 0, y: 0, z: 0}, {x: 1e-9, y: 0, z: 0});
+        const foot = LineEvaluation.getFootPointOnLine(short, {x: 2, y: 3, z: 0})!;
+        expect(foot.pt.x).toBeCloseTo(2);
+        expect(foot.t).toBeCloseTo(2e9, -3);
+        expect(LineEvaluation.getFootPointOnLine({p0: {x: 0, y: 0, z: 0}, p1: {x: 1e-9, y: 0, z: 0}}, {x: 2, y: 3, z: 0})).toBeUndefined();
+    });
+
+    test('BVH picking with rays', () => {
+        const tree = new BVHTree();
+        tree.addTriangle(new BVHTriangle({x: 0, y: 0, z: 0}, {x: 1, y: 0, z: 0}, {x: 0, y: 1, z: 0}));
+        tree.addTriangle(new BVHTriangle({x: 5, y: 0, z: 0}, {x: 6, y: 0, z: 0}, {x: 5, y: 1, z: 0}));
+        const built = tree.calculateTree();
+
+        const down = new Ray3d({x: 0.2, y: 0.2, z: 10}, {x: 0, y: 0, z: -1});
+        expect(built.getRayCollision(down)?.z).toBeCloseTo(0);
+
+        const up = new Ray3d({x: 0.2, y: 0.2, z: 10}, {x: 0, y: 0, z: 1});
+        expect(built.getRayCollision(up)).toBeUndefined();
+        expect(built.getRayCollision(up.toInfiniteLine())?.z).toBeCloseTo(0);
+
+        const shortSegment: Line = {p0: {x: 0.2, y: 0.2, z: 10}, p1: {x: 0.2, y: 0.2, z: 5}};
+        expect(built.getRayCollision(shortSegment)).toBeUndefined();
+        expect(built.getRayCollision(shortSegment.p0, shortSegment.p1, false)?.z).toBeCloseTo(0);
+    });
+});
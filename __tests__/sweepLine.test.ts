@@ -0,0 +1,125 @@
+import { Line, Line2d } from "../src/models/types/basicGeometries";
+import { LineEvaluation } from "../src/utils/lineEvaluationUtils";
+import { SweepLineUtils } from "../src/utils/sweepLineUtils";
+
+function getPairs(result: ReturnType<typeof SweepLineUtils.getAllIntersections>): Set<string> {
+    const pairs = new Set<string>();
+    for (const point of result.points) {
+        for (let i = 0; i < point.segments.length; i++) {
+            for (let j = i + 1; j < point.segments.length; j++) {
+                pairs.add(`${point.segments[i].index},${point.segments[j].index}`);
+            }
+        }
+    }
+    return pairs;
+}
+
+function getBruteForcePairs(segments: Line2d[]): Set<string> {
+    const pairs = new Set<string>();
+    for (let i = 0; i < segments.length; i++) {
+        for (let j = i + 1; j < segments.length; j++) {
+            if (LineEvaluation.getSegmentIntersection2d(segments[i], segments[j]).type !== 'none') pairs.add(`${i},${j}`);
+        }
+    }
+    return pairs;
+}
+
+describe('Sweep line intersection test', () => {
+    test('Crossing walls with parameters', () => {
+        const walls: Line2d[] = [
+            {p0: {x: 0, y: 0}, p1: {x: 10, y: 10}},
+            {p0: {x: 0, y: 10}, p1: {x: 10, y: 0}},
+        ];
+        const result = SweepLineUtils.getAllIntersections(walls);
+
+        expect(result.points.length).toBe(1);
+        expect(result.points[0].pt.x).toBeCloseTo(5);
+        expect(result.points[0].pt.y).toBeCloseTo(5);
+        expect(result.points[0].segments.map(s => s.index)).toEqual([0, 1]);
+        expect(result.points[0].segments[1].t).toBeCloseTo(0.5);
+        expect(result.overlaps.length).toBe(0);
+    });
+
+    test('Vertical walls, T-junctions and shared corners', () => {
+        const walls: Line2d[] = [
+            {p0: {x: 0, y: 0}, p1: {x: 10, y: 0}},
+            {p0: {x: 10, y: 0}, p1: {x: 10, y: 10}},
+            {p0: {x: 5, y: 10}, p1: {x: 5, y: 0}},      // vertical, ends on wall 0
+            {p0: {x: 0, y: 5}, p1: {x: 12, y: 5}},      // crosses walls 1 and 2
+            {p0: {x: 5, y: 2}, p1: {x: 5, y: 8}},       // lies on wall 2
+        ];
+        const result = SweepLineUtils.getAllIntersections(walls);
+
+        const corner = result.points.find(p => p.pt.x === 10 && p.pt.y === 0);
+        expect(corner?.segments.map(s => s.index)).toEqual([0, 1]);
+
+        const junction = result.points.find(p => p.pt.x === 5 && p.pt.y === 0);
+        expect(junction?.segments.map(s => s.index)).toEqual([0, 2]);
+        expect(junction?.segments[1].t).toBeCloseTo(1);
+
+        const center = result.points.find(p => p.pt.x === 5 && p.pt.y === 5);
+        expect(center?.segments.map(s => s.index)).toEqual([2, 3, 4]);
+
+        expect(result.overlaps.length).toBe(1);
+        expect(result.overlaps[0].index0).toBe(2);
+        expect(result.overlaps[0].index1).toBe(4);
+        // Oriented along wall 2, which runs downward
+        expect(result.overlaps[0].segment.p0.y).toBeCloseTo(8);
+        expect(result.overlaps[0].segment.p1.y).toBeCloseTo(2);
+
+        expect(getPairs(result)).toEqual(getBruteForcePairs(walls));
+    });
+
+    test('Collinear overlapping walls', () => {
+        const walls: Line[] = [
+            {p0: {x: 0, y: 0, z: 0}, p1: {x: 10, y: 10, z: 0}},
+            {p0: {x: 15, y: 15, z: 3}, p1: {x: 5, y: 5, z: 3}},
+        ];
+        const result = SweepLineUtils.getAllIntersections(walls);
+
+        expect(result.overlaps.length).toBe(1);
+        expect(result.overlaps[0].interval0[0]).toBeCloseTo(0.5);
+        expect(result.overlaps[0].interval0[1]).toBeCloseTo(1);
+        expect(result.points.map(p => p.pt.x)).toEqual([5, 10]);
+    });
+
+    test('Random segments match brute force', () => {
+        let seed = 7;
+        const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+        const segments: Line2d[] = [];
+        for (let i = 0; i < 400; i++) {
+            const p0 = {x: random() * 100, y: random() * 100};
+            segments.push({p0, p1: {x: p0.x + (random() - 0.5) * 30, y: p0.y + (random() - 0.5) * 30}});
+        }
+        // Axis aligned walls sharing coordinates
+        for (let i = 0; i < 40; i++) {
+            const c = Math.floor(random() * 20) * 5;
+            segments.push({p0: {x: c, y: random() * 100}, p1: {x: c, y: random() * 100}});
+            segments.push({p0: {x: random() * 100, y: c}, p1: {x: random() * 100, y: c}});
+        }
+
+        const result = SweepLineUtils.getAllIntersections(segments);
+        expect(getPairs(result)).toEqual(getBruteForcePairs(segments));
+    });
+
+    test('Floor plan with 20k walls', () => {
+        // Grid of rooms, each wall split into one segment per room.
+        const size = 100;
+        const walls: Line2d[] = [];
+        for (let i = 0; i <= size; i++) {
+            for (let j = 0; j < size; j++) {
+                walls.push({p0: {x: j * 4, y: i * 4}, p1: {x: (j + 1) * 4, y: i * 4}});
+                walls.push({p0: {x: i * 4, y: j * 4}, p1: {x: i * 4, y: (j + 1) * 4}});
+            }
+        }
+        // Diagonal through the plan
+        walls.push({p0: {x: -1, y: 0.5}, p1: {x: 401, y: 400.5}});
+
+        const result = SweepLineUtils.getAllIntersections(walls);
+
+        // Every grid node, plus the diagonal crossing each grid line once.
+        expect(result.points.length).toBe((size + 1) ** 2 + 2 * size);
+        expect(result.overlaps.length).toBe(0);
+    });
+});
@@ -0,0 +1,68 @@
+import { Line, Vertex3d } from "../src/models/types/basicGeometries";
+import { ToleranceUtils } from "../src/utils/toleranceUtils";
+import { LineEvaluation } from "../src/utils/lineEvaluationUtils";
+import { PolygonUtils } from "../src/utils/polygonUtils";
+
+describe('Tolerance context tests', () => {
+    afterEach(() => ToleranceUtils.resetGlobal());
+
+    test('Global tolerance can be overridden and reset', () => {
+        ToleranceUtils.setGlobal({distance: 1e-3});
+        expect(ToleranceUtils.getGlobal().distance).toBe(1e-3);
+        expect(ToleranceUtils.create({angle: 1e-2})).toEqual({...ToleranceUtils.DEFAULT_TOLERANCE, distance: 1e-3, angle: 1e-2});
+
+        ToleranceUtils.resetGlobal();
+        expect(ToleranceUtils.getGlobal()).toEqual(ToleranceUtils.DEFAULT_TOLERANCE);
+        expect(() => ToleranceUtils.setGlobal({distance: -1})).toThrow();
+    });
+
+    test('Points are hashed on the hash precision grid', () => {
+        expect(ToleranceUtils.getHash2d({x: 1.5, y: -2})).toBe('1500000,-2000000');
+        expect(ToleranceUtils.getHash2d({x: 1.0000001, y: 0})).toBe(ToleranceUtils.getHash2d({x: 1, y: 0}));
+        expect(ToleranceUtils.getHash2d({x: 1.04, y: 0}, {hashPrecision: 10})).toBe('10,0');
+    });
+
+    test('Planarity follows the distance tolerance in model units', () => {
+        const pts: Vertex3d[] = [
+            {x: 0, y: 0, z: 0},
+            {x: 1000, y: 0, z: 0},
+            {x: 1000, y: 1000, z: 0},
+            {x: 0, y: 1000, z: 0.05},
+        ];
+
+        expect(PolygonUtils.checkPtsOnPlanar(pts).result).toBe(false);
+        expect(PolygonUtils.checkPtsOnPlanar(pts, {distance: 0.1}).result).toBe(true);
+
+        ToleranceUtils.setGlobal({distance: 0.1});
+        expect(PolygonUtils.checkPtsOnPlanar(pts).result).toBe(true);
+
+        // The variadic form keeps comparing directions, whatever the global tolerance.
+        ToleranceUtils.resetGlobal();
+        expect(PolygonUtils.checkPtsOnPlanar(...pts).result).toBe(true);
+        expect(PolygonUtils.checkPtsOnPlanar(pts[0], pts[1], pts[2], {x: 0, y: 1000, z: 500}).notPlanar).toBe(true);
+        expect(PolygonUtils.checkPtsOnPlanar(pts[0], pts[1]).ptsNotEnough).toBe(true);
+    });
+
+    test('Splitting a quadrant follows the global tolerance', () => {
+        const [p0, p1, p2, p3]: Vertex3d[] = [
+            {x: 0, y: 0, z: 0},
+            {x: 1000, y: 0, z: 0},
+            {x: 1000, y: 1000, z: 0},
+            {x: 0, y: 1000, z: 0.05},
+        ];
+
+        expect(PolygonUtils.splitQuadrant(p0, p1, p2, p3).log.message).toBe("NotPlanar");
+        expect(PolygonUtils.splitQuadrant(p0, p1, p2, p3, {distance: 0.1}).log.result).toBe(true);
+
+        ToleranceUtils.setGlobal({distance: 0.1});
+        expect(PolygonUtils.splitQuadrant(p0, p1, p2, p3).log.result).toBe(true);
+    });
+
+    test('Near parallel lines depend on the angle tolerance', () => {
+        const li0: Line = {p0: {x: 0, y: 0, z: 0}, p1: {x: 10, y: 0, z: 0}};
+        const li1: Line = {p0: {x: 0, y: 1, z: 0}, p1: {x: 10, y: 1.001, z: 0}};
+
+        expect(LineEvaluation.getIntersection(li0, li1, true).result).toBe(false);
+        expect(LineEvaluation.getIntersection(li0, li1, true, {angle: 1e-5}).result).toBe(true);
+    });
+});
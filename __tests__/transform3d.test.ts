@@ -0,0 +1,93 @@
+import { BoundingBox3d, Line, Triangle } from "../src/models/types/basicGeometries";
+import { Transform3d } from "../src/models/basic/transform3d";
+import { BVHTree, BVHTriangle } from "../src/models/bvhTree";
+import { expectVertex } from "./helpers/expectGeometry";
+
+describe('Transform3d tests', () => {
+    test('Compose translation and rotation in placement order', () => {
+        const placement = Transform3d.rotation({x: 0, y: 0, z: 1}, Math.PI * 0.5)
+            .compose(Transform3d.translation({x: 10, y: 0, z: 0}));
+
+        expectVertex(placement.apply({x: 1, y: 0, z: 0}), {x: 10, y: 1, z: 0}, 9);
+    });
+
+    test('Inverse restores the original geometry', () => {
+        const transform = Transform3d.rotation({x: 1, y: 1, z: 0}, 0.7, {x: 3, y: -2, z: 5})
+            .compose(Transform3d.scale({x: 2, y: 3, z: 0.5}))
+            .compose(Transform3d.translation({x: 100, y: 50, z: -20}));
+
+        const inverse = transform.invert();
+        expect(inverse).toBeDefined();
+        expect(transform.compose(inverse!).isIdentity({parameter: 1e-9, distance: 1e-9})).toBe(true);
+
+        const line: Line = {p0: {x: 1, y: 2, z: 3}, p1: {x: -4, y: 5, z: 6}};
+        const restored = inverse!.apply(transform.apply(line));
+        expectVertex(restored.p0, line.p0, 9);
+        expectVertex(restored.p1, line.p1, 9);
+    });
+
+    test('Singular transform has no inverse', () => {
+        expect(Transform3d.scale({x: 1, y: 0, z: 1}).invert()).toBeUndefined();
+
+        // Singularity does not depend on the scale, as for a model in metres drawn from millimetres.
+        const small = Transform3d.scale({x: 1e-4, y: 1e-4, z: 1e-4});
+        expectVertex(small.invert()!.apply({x: 1e-4, y: 0, z: 0}), {x: 1, y: 0, z: 0}, 9);
+        expect(Transform3d.scale({x: 1e4, y: 1e-6, z: 1e4}).invert()).toBeDefined();
+
+        // Axes almost collapsed onto each other
+        const flattened = Transform3d.fromElements([1e3, 1e3, 0, 0, 0, 1e-9, 0, 0, 0, 0, 1e3, 0, 0, 0, 0, 1]);
+        expect(flattened.invert()).toBeUndefined();
+    });
+
+    test('Mirror keeps bounding box region', () => {
+        const box: BoundingBox3d = {
+            anchor: {x: 0, y: 0, z: 0},
+            uAxis: {x: 1, y: 0, z: 0},
+            vAxis: {x: 0, y: 1, z: 0},
+            length: {u: 2, v: 3, n: 4},
+        };
+
+        const mirrored = Transform3d.mirror({x: 0, y: 0, z: 0}, {x: 0, y: 0, z: 1}).apply(box);
+        expect(mirrored.length).toEqual({u: 2, v: 3, n: 4});
+        expectVertex(mirrored.anchor, {x: 0, y: 0, z: -4}, 9);
+    });
+
+    test('Apply on triangles and BVHTree', () => {
+        const triangle: Triangle = {
+            p0: {x: 0, y: 0, z: 0},
+            p1: {x: 1, y: 0, z: 0},
+            p2: {x: 0, y: 1, z: 0},
+        };
+
+        const moved = Transform3d.translation({x: 0, y: 0, z: 5}).apply(triangle);
+        expectVertex(moved.p2, {x: 0, y: 1, z: 5}, 9);
+
+        const tree = new BVHTree();
+        tree.addTriangle(new BVHTriangle(triangle.p0, triangle.p1, triangle.p2));
+        tree.addTriangle(new BVHTriangle({x: 5, y: 0, z: 0}, {x: 6, y: 0, z: 0}, {x: 5, y: 1, z: 0}));
+        const built = tree.calculateTree();
+
+        const movedTree = Transform3d.translation({x: 0, y: 0, z: 5}).apply(built);
+        expect(movedTree.triangles.length).toBe(2);
+        expect(movedTree.boundingBox.min.z).toBeCloseTo(5);
+
+        const hit = movedTree.getRayCollision({x: 0.2, y: 0.2, z: 10}, {x: 0.2, y: 0.2, z: 0}, true);
+        expect(hit).toBeDefined();
+        expect(hit!.z).toBeCloseTo(5);
+    });
+
+    test('Apply on BVHTree with one triangle', () => {
+        const tree = new BVHTree();
+        tree.addTriangle({p0: {x: 0, y: 0, z: 0}, p1: {x: 1, y: 0, z: 0}, p2: {x: 0, y: 1, z: 0}});
+        expect(tree.isBuilt).toBe(false);
+        expect(Transform3d.translation({x: 0, y: 0, z: 5}).apply(tree).isBuilt).toBe(false);
+
+        const built = tree.calculateTree();
+        expect(built.getAllNodes().length).toBe(1);
+        expect(built.isBuilt).toBe(true);
+
+        const movedTree = Transform3d.translation({x: 0, y: 0, z: 5}).apply(built);
+        expect(movedTree.isBuilt).toBe(true);
+        expect(movedTree.boundingBox.min.z).toBeCloseTo(5);
+    });
+});
@@ -0,0 +1,209 @@
+import { Ray3d } from "../src/models/basic/ray3d";
+import { BVHTree } from "../src/models/bvhTree";
+import { Line2d, Polygon2d, Polyline2d, Polyline3d, Vertex2d } from "../src/models/types/basicGeometries";
+import { GeometricPredicates } from "../src/utils/geometricPredicates";
+import { PolygonUtils } from "../src/utils/polygonUtils";
+import { IndexedTriangles, TriangulationUtils } from "../src/utils/triangulationUtils";
+import { VectorUtils } from "../src/utils/vectorUtils";
+
+function getArea(mesh: IndexedTriangles<Vertex2d>): number {
+    let area = 0;
+    for (const [i0, i1, i2] of mesh.triangles) {
+        area += PolygonUtils.getSignedArea2d([mesh.vertices[i0], mesh.vertices[i1], mesh.vertices[i2]]);
+    }
+    return area;
+}
+
+function getMinAngle(mesh: IndexedTriangles<Vertex2d>): number {
+    let min = Infinity;
+    for (const triangle of mesh.triangles) {
+        const pts = triangle.map(i => mesh.vertices[i]);
+        pts.forEach((pt, i) => {
+            const u = {x: pts[(i + 1) % 3].x - pt.x, y: pts[(i + 1) % 3].y - pt.y};
+            const v = {x: pts[(i + 2) % 3].x - pt.x, y: pts[(i + 2) % 3].y - pt.y};
+            min = Math.min(min, Math.abs(Math.atan2(u.x * v.y - u.y * v.x, u.x * v.x + u.y * v.y)));
+        });
+    }
+    return min;
+}
+
+function hasEdge(mesh: IndexedTriangles<Vertex2d>, p0: Vertex2d, p1: Vertex2d): boolean {
+    const i0 = mesh.vertices.findIndex(v => v.x === p0.x && v.y === p0.y);
+    const i1 = mesh.vertices.findIndex(v => v.x === p1.x && v.y === p1.y);
+    return mesh.triangles.some(t => t.includes(i0) && t.includes(i1));
+}
+
+function expectCounterClockwise(mesh: IndexedTriangles<Vertex2d>) {
+    for (const [i0, i1, i2] of mesh.triangles) {
+        expect(GeometricPredicates.orient2d(mesh.vertices[i0], mesh.vertices[i1], mesh.vertices[i2])).toBeGreaterThan(0);
+    }
+}
+
+describe('Triangulation test', () => {
+    // L-shaped room, drawn clockwise with a closing point
+    const room: Polyline2d = [{x: 0, y: 0}, {x: 0, y: 10}, {x: 4, y: 10}, {x: 4, y: 4}, {x: 10, y: 4}, {x: 10, y: 0}, {x: 0, y: 0}];
+
+    test('Concave polygon', () => {
+        const mesh = TriangulationUtils.triangulate2d(room);
+        expect(mesh.vertices.length).toBe(6);
+        expect(mesh.triangles.length).toBe(4);
+        expect(getArea(mesh)).toBeCloseTo(64);
+        expectCounterClockwise(mesh);
+
+        // A point along an edge leaves no empty triangle.
+        const withMidpoint = TriangulationUtils.triangulate2d([{x: 0, y: 0}, {x: 5, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 0, y: 10}]);
+        expect(withMidpoint.triangles.length).toBe(2);
+        expect(getArea(withMidpoint)).toBeCloseTo(100);
+
+        expect(TriangulationUtils.triangulate2d([{x: 0, y: 0}, {x: 1, y: 1}, {x: 2, y: 2}]).triangles).toEqual([]);
+    });
+
+    test('Self-crossing loop runs out of ears', () => {
+        // Pentagram drawn through every second corner of a pentagon
+        const star: Polyline2d = [0, 2, 4, 1, 3].map(k => ({x: Math.sin(k * 2 * Math.PI / 5) * 10, y: Math.cos(k * 2 * Math.PI / 5) * 10}));
+        const mesh = TriangulationUtils.triangulate2d(star);
+        expect(mesh.triangles.length).toBeGreaterThan(0);
+        expectCounterClockwise(mesh);
+
+        // The convex corners clipped after the last ear overlap each other.
+        expect(getArea(mesh)).toBeGreaterThan(PolygonUtils.getSignedArea2d(star) + 1);
+    });
+
+    test('Slab with openings', () => {
+        const slab: Polygon2d = {
+            outer: [{x: 0, y: 0}, {x: 20, y: 0}, {x: 20, y: 20}, {x: 0, y: 20}],
+            holes: [
+                [{x: 2, y: 2}, {x: 6, y: 2}, {x: 6, y: 6}, {x: 2, y: 6}],
+                // Shaft to the right of the first one, blocking its view of the outer boundary
+                [{x: 10, y: 1}, {x: 14, y: 1}, {x: 14, y: 5}, {x: 10, y: 5}],
+                // Concave atrium
+                [{x: 8, y: 10}, {x: 16, y: 10}, {x: 16, y: 16}, {x: 12, y: 16}, {x: 12, y: 13}, {x: 8, y: 13}],
+            ],
+        };
+        const mesh = TriangulationUtils.triangulate2d(slab);
+        expect(mesh.vertices.length).toBe(18);
+        expect(mesh.triangles.length).toBe(18 + 2 * 3 - 2);
+        expect(getArea(mesh)).toBeCloseTo(400 - 16 - 16 - 36);
+        expectCounterClockwise(mesh);
+
+        // No triangle covers an opening.
+        for (const [i0, i1, i2] of mesh.triangles) {
+            const centroid = {
+                x: (mesh.vertices[i0].x + mesh.vertices[i1].x + mesh.vertices[i2].x) / 3,
+                y: (mesh.vertices[i0].y + mesh.vertices[i1].y + mesh.vertices[i2].y) / 3,
+            };
+            expect(PolygonUtils.isPointInPolygon2d(slab, centroid).result).toBe(true);
+        }
+    });
+
+    test('Sloped roof with a skylight', () => {
+        // Roof sloped 45 degrees about the X-axis, z = y
+        const lift = (pts: Polyline2d): Polyline3d => pts.map(pt => ({x: pt.x, y: pt.y, z: pt.y}));
+        const outer = lift(room);
+        const skylight = lift([{x: 1, y: 1}, {x: 3, y: 1}, {x: 3, y: 3}, {x: 1, y: 3}]);
+
+        const mesh = TriangulationUtils.triangulate3d(outer, [skylight])!;
+        expect(mesh.triangles.length).toBe(6 + 4 + 2 - 2);
+
+        const triangles = TriangulationUtils.toTriangles(mesh);
+        const area = triangles.reduce((sum, t) => sum + PolygonUtils.getArea3d([t.p0, t.p1, t.p2]), 0);
+        expect(area).toBeCloseTo(60 * Math.SQRT2);
+
+        // Triangles are wound like the outer boundary.
+        const normal = VectorUtils.normalize(PolygonUtils.getNewellNormal(outer));
+        for (const t of triangles) {
+            expect(VectorUtils.dot(VectorUtils.normalize(PolygonUtils.getNewellNormal([t.p0, t.p1, t.p2])), normal)).toBeCloseTo(1);
+        }
+
+        const tree = new BVHTree();
+        triangles.forEach(t => expect(tree.addTriangle(t).result).toBe(true));
+        const built = tree.calculateTree();
+        expect(built.getRayCollision(new Ray3d({x: 8, y: 2, z: 10}, {x: 0, y: 0, z: -1}))?.z).toBeCloseTo(2);
+        expect(built.getRayCollision(new Ray3d({x: 2, y: 2, z: 10}, {x: 0, y: 0, z: -1}))).toBeUndefined();
+
+        const warped = outer.map((pt, i) => i === 2 ? {...pt, z: pt.z + 1} : pt);
+        expect(TriangulationUtils.triangulate3d(warped)).toBeUndefined();
+    });
+
+    // 10 x 10 slab with a 2 x 2 shaft in the middle
+    const slab: Polygon2d = {
+        outer: [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 0, y: 10}],
+        holes: [[{x: 4, y: 4}, {x: 6, y: 4}, {x: 6, y: 6}, {x: 4, y: 6}]],
+    };
+
+    test('Delaunay triangulation of points', () => {
+        const points: Vertex2d[] = [];
+        for (let i = 0; i < 200; i++) points.push({x: Math.sin(i * 12.9898) * 50, y: Math.sin(i * 78.233) * 50});
+
+        const mesh = TriangulationUtils.triangulateDelaunay2d({points});
+        expect(mesh.vertices.length).toBe(200);
+        expectCounterClockwise(mesh);
+        // No point lies inside the circumcircle of a triangle.
+        const isDelaunay = mesh.triangles.every(([i0, i1, i2]) => mesh.vertices.every(v =>
+            GeometricPredicates.incircle(mesh.vertices[i0], mesh.vertices[i1], mesh.vertices[i2], v) <= 0));
+        expect(isDelaunay).toBe(true);
+
+        expect(TriangulationUtils.triangulateDelaunay2d({points: points.slice(0, 2)}).triangles).toEqual([]);
+    });
+
+    test('Required segments are kept as edges', () => {
+        // Two crossing breaklines over a grid of survey points
+        const points: Vertex2d[] = [];
+        for (let x = 0; x <= 10; x++) {
+            for (let y = 0; y <= 10; y++) points.push({x, y});
+        }
+        const segments: Line2d[] = [{p0: {x: 0.5, y: 0.5}, p1: {x: 9.5, y: 8.5}}, {p0: {x: 0.5, y: 8.5}, p1: {x: 9.5, y: 0.5}}];
+
+        const mesh = TriangulationUtils.triangulateDelaunay2d({points, segments});
+        expectCounterClockwise(mesh);
+        expect(getArea(mesh)).toBeCloseTo(100);
+
+        // The breaklines are split where they cross, at (5, 4.5).
+        const crossing = {x: 5, y: 4.5};
+        expect(mesh.vertices).toContainEqual(crossing);
+        for (const {p0, p1} of segments) {
+            expect(hasEdge(mesh, p0, crossing)).toBe(true);
+            expect(hasEdge(mesh, crossing, p1)).toBe(true);
+        }
+    });
+
+    test('Polygon with holes', () => {
+        const mesh = TriangulationUtils.triangulateDelaunay2d({polygon: slab, segments: [{p0: {x: 0, y: 10}, p1: {x: 3, y: 7}}]});
+        expect(mesh.vertices.length).toBe(9);
+        expect(getArea(mesh)).toBeCloseTo(96);
+        expect(hasEdge(mesh, {x: 0, y: 10}, {x: 3, y: 7})).toBe(true);
+        for (const [i0, i1, i2] of mesh.triangles) {
+            const centroid = {
+                x: (mesh.vertices[i0].x + mesh.vertices[i1].x + mesh.vertices[i2].x) / 3,
+                y: (mesh.vertices[i0].y + mesh.vertices[i1].y + mesh.vertices[i2].y) / 3,
+            };
+            expect(PolygonUtils.isPointInPolygon2d(slab, centroid).result).toBe(true);
+        }
+
+        const triangles = TriangulationUtils.toTriangles(mesh);
+        expect(triangles.length).toBe(mesh.triangles.length);
+        expect(triangles[0].p0.z).toBe(0);
+    });
+
+    test('Ruppert refinement', () => {
+        const minAngle = 30 * Math.PI / 180;
+        const mesh = TriangulationUtils.triangulateDelaunay2d({polygon: slab}, {minAngle, maxArea: 0.5});
+        expect(getArea(mesh)).toBeCloseTo(96);
+        expect(getMinAngle(mesh)).toBeGreaterThanOrEqual(minAngle - 1e-9);
+        for (const [i0, i1, i2] of mesh.triangles) {
+            expect(PolygonUtils.getSignedArea2d([mesh.vertices[i0], mesh.vertices[i1], mesh.vertices[i2]])).toBeLessThanOrEqual(0.5);
+        }
+
+        // The 15 degree corner of a wedge cannot be improved, and does not stop refinement from ending.
+        const wedge: Polyline2d = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: Math.tan(15 * Math.PI / 180) * 10}];
+        const refined = TriangulationUtils.triangulateDelaunay2d({polygon: {outer: wedge, holes: []}}, {minAngle: 25 * Math.PI / 180});
+        expect(getMinAngle(refined)).toBeCloseTo(15 * Math.PI / 180);
+        expect(refined.vertices.length).toBeLessThan(100);
+
+        const limited = TriangulationUtils.triangulateDelaunay2d({polygon: slab}, {maxArea: 0.01, maxSteinerPoints: 20});
+        expect(limited.vertices.length).toBe(8 + 20);
+
+        expect(() => TriangulationUtils.triangulateDelaunay2d({polygon: slab}, {minAngle: Math.PI / 2})).toThrow();
+        expect(() => TriangulationUtils.triangulateDelaunay2d({polygon: slab}, {maxArea: 0})).toThrow();
+    });
+});
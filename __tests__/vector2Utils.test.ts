@@ -0,0 +1,37 @@
+import { Vertex2d } from "../src/models/types/basicGeometries";
+import { Vector2Utils } from "../src/utils/vector2Utils";
+import { expectVertex } from "./helpers/expectGeometry";
+
+describe('Vector2Utils tests', () => {
+    test('Basic operations without z', () => {
+        const v0: Vertex2d = {x: 3, y: 4};
+        const v1: Vertex2d = {x: -1, y: 2};
+
+        expect(Vector2Utils.add(v0, v1)).toEqual({x: 2, y: 6});
+        expect(Vector2Utils.dot(v0, v1)).toBe(5);
+        expect(Vector2Utils.perpDot(v0, v1)).toBe(10);
+        expect(Vector2Utils.perp(v0)).toEqual({x: -4, y: 3});
+        expect(Vector2Utils.normalize(v0)).toEqual({x: 0.6, y: 0.8});
+        expect(Vector2Utils.normalize({x: 0, y: 0})).toEqual({x: 0, y: 0});
+        expect(Object.keys(Vector2Utils.lerp(v0, v1, 0.5))).toEqual(['x', 'y']);
+    });
+
+    test('Rotation and angles', () => {
+        expectVertex(Vector2Utils.rotate({x: 1, y: 0}, Math.PI / 2), {x: 0, y: 1}, 9);
+        expect(Vector2Utils.getAngle({x: -1, y: 0})).toBeCloseTo(Math.PI, 9);
+        expect(Vector2Utils.getAngleBetween({x: 1, y: 0}, {x: 1, y: -1})).toBeCloseTo(-Math.PI / 4, 9);
+        expect(Vector2Utils.isParallel({x: 1, y: 1}, {x: -2, y: -2})).toBe(true);
+        expect(Vector2Utils.isParallel({x: 1, y: 0}, {x: 1, y: 0.01})).toBe(false);
+    });
+
+    test('Chain offsets a point to the left of a direction', () => {
+        const pt = Vector2Utils.chain({x: 10, y: 0})
+            .normalize()
+            .perp()
+            .scale(2)
+            .add({x: 5, y: 5})
+            .value();
+
+        expectVertex(pt, {x: 5, y: 7}, 9);
+    });
+});
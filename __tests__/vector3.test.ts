@@ -0,0 +1,37 @@
+import { Vector3 } from "../src/models/basic/vector3";
+import { expectVertex } from "./helpers/expectGeometry";
+
+describe('Vector3 tests', () => {
+    test('Interop with plain vertices', () => {
+        const v = Vector3.from({x: 1, y: 2, z: 3});
+        const sum = v.add({x: 1, y: 1, z: 1}).subtract(new Vector3(0, 1, 0));
+
+        expect(sum.toObject()).toEqual({x: 2, y: 2, z: 4});
+        expect(sum.equals({x: 2, y: 2, z: 4 + 1e-9})).toBe(true);
+        expect(v.distanceTo({x: 1, y: 2, z: 7})).toBeCloseTo(4, 9);
+        expect(Vector3.zero().normalized().getLength()).toBe(0);
+    });
+
+    test('Interpolation, angle, projection and reflection', () => {
+        const a = new Vector3(1, 0, 0);
+        const b = new Vector3(0, 2, 0);
+
+        expectVertex(a.lerp(b, 0.25), {x: 0.75, y: 0.5, z: 0}, 9);
+        expect(a.angleTo(b)).toBeCloseTo(Math.PI / 2, 9);
+        expect(a.angleTo(a.multiply(3))).toBe(0);
+
+        expectVertex(new Vector3(3, 4, 5).projectOnto({x: 0, y: 10, z: 0}), {x: 0, y: 4, z: 0}, 9);
+        expectVertex(new Vector3(1, -1, 0).reflect({x: 0, y: 3, z: 0}), {x: 1, y: 1, z: 0}, 9);
+    });
+
+    test('Component-wise operations', () => {
+        const a = new Vector3(1, -5, 3);
+        const b = new Vector3(-2, 4, 3);
+
+        expect(a.min(b).toObject()).toEqual({x: -2, y: -5, z: 3});
+        expect(a.max(b).toObject()).toEqual({x: 1, y: 4, z: 3});
+        expect(a.multiplyComponents(b).toObject()).toEqual({x: -2, y: -20, z: 9});
+        expect(a.divideComponents({x: 2, y: 5, z: 3}).toObject()).toEqual({x: 0.5, y: -1, z: 1});
+        expect(a.abs().toObject()).toEqual({x: 1, y: 5, z: 3});
+    });
+});
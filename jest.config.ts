@@ -3,7 +3,8 @@ import type { Config } from 'jest';
 const config: Config = {
     preset: 'ts-jest',
     testEnvironment: 'node',
-    testMatch: ['**/__tests__/**/*.ts'],
+    // Only `*.test.ts` files are suites, so shared helpers such as `__tests__/helpers` are not run as empty suites.
+    testMatch: ['**/__tests__/**/*.test.ts'],
 };
 
 export default config;
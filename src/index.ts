@@ -10,3 +10,23 @@ export * from './models/types/errorMessages';
 export * from './utils/collisionUtils';
 export * from './utils/lineManipluationUtils';
 export * from './utils/polylineUtils';
+export * from './models/basic/transform3d';
+export * from './models/basic/quaternion';
+export * from './utils/coordinateSystemUtils';
+export * from './utils/planeUtils';
+export * from './models/types/toleranceContext';
+export * from './utils/toleranceUtils';
+export * from './utils/geometricPredicates';
+export * from './models/basic/vector3';
+export * from './utils/bulkVectorUtils';
+export * from './utils/vector2Utils';
+export * from './utils/sweepLineUtils';
+export * from './utils/distanceUtils';
+export * from './models/basic/ray3d';
+export * from './models/basic/infiniteLine3d';
+export * from './utils/polylineOffsetUtils';
+export * from './utils/polylineSimplifyUtils';
+export * from './utils/polygonUtils';
+export * from './utils/polygonOverlayUtils';
+export * from './utils/polygonBooleanUtils';
+export * from './utils/triangulationUtils';
@@ -0,0 +1,81 @@
+import { Line, Vertex3d } from "../types/basicGeometries";
+import { VectorUtils } from "../../utils/vectorUtils";
+
+/**
+ * Represents an infinite line in 3D space passing `origin` along `direction`.
+ *
+ * Points are evaluated as `origin + direction * t` for any `t`. The direction is kept as given,
+ * so a line created from a `Line` segment shares its parameters: `pointAt(0)` is `p0` and `pointAt(1)` is `p1`.
+ *
+ * @example
+ * ```typescript
+ * const axis = InfiniteLine3d.fromLine(gridLine);
+ * const foot = LineEvaluation.getFootPointOnLine(axis, column.center);
+ * ```
+ */
+export class InfiniteLine3d {
+    readonly origin: Vertex3d;
+    readonly direction: Vertex3d;
+
+    /**
+     * Creates a new infinite line.
+     *
+     * @param origin - A point on the line, at `t = 0`.
+     * @param direction - The direction of the line. It does not need to be normalized.
+     * @throws {Error} If the direction is a zero vector.
+     */
+    constructor(origin: Vertex3d, direction: Vertex3d) {
+        if (VectorUtils.getSize(direction) === 0) {
+            throw new Error("Direction of line should not be zero vector.");
+        }
+
+        this.origin = {x: origin.x, y: origin.y, z: origin.z};
+        this.direction = {x: direction.x, y: direction.y, z: direction.z};
+    }
+
+    /**
+     * Creates the infinite line passing both end points of a segment.
+     *
+     * @param line - The segment. `p0` becomes the origin and `p1` the point at `t = 1`.
+     * @returns A new `InfiniteLine3d`.
+     * @throws {Error} If the end points of the segment are the same.
+     */
+    static fromLine(line: Line): InfiniteLine3d {
+        return new InfiniteLine3d(line.p0, VectorUtils.subtract(line.p1, line.p0));
+    }
+
+    /**
+     * The parameter domain of the line, which is unbounded.
+     */
+    get domain(): [number, number] {
+        return [-Infinity, Infinity];
+    }
+
+    /**
+     * Evaluates the point at the given parameter.
+     *
+     * @param t - The parameter.
+     * @returns The point `origin + direction * t`.
+     */
+    pointAt(t: number): Vertex3d {
+        return VectorUtils.add(this.origin, VectorUtils.scale(this.direction, t));
+    }
+
+    /**
+     * Gets the parameter of the foot point of `pt` on this line.
+     *
+     * @param pt - The point to project.
+     * @returns The parameter `t` such that `pointAt(t)` is closest to `pt`.
+     */
+    getParameter(pt: Vertex3d): number {
+        const toPt = VectorUtils.subtract(pt, this.origin);
+        return VectorUtils.dot(toPt, this.direction) / VectorUtils.dot(this.direction, this.direction);
+    }
+
+    /**
+     * Converts this line into the segment between `t = 0` and `t = 1`.
+     */
+    toLine(): Line {
+        return {p0: {...this.origin}, p1: this.pointAt(1)};
+    }
+}
@@ -0,0 +1,313 @@
+import { Vertex3d } from "../types/basicGeometries";
+import { ToleranceContext } from "../types/toleranceContext";
+import { ToleranceUtils } from "../../utils/toleranceUtils";
+import { VectorUtils } from "../../utils/vectorUtils";
+import { Transform3d } from "./transform3d";
+
+const QUATERNION_TOLERANCE = 1e-9;
+
+/**
+ * Order of the rotations when creating a quaternion from Euler angles.
+ * The letters read in the order the rotations are applied, each about the fixed world axis.
+ * For example, `'XYZ'` rotates about X first, then Y and finally Z.
+ */
+export type EulerOrder = 'XYZ' | 'XZY' | 'YXZ' | 'YZX' | 'ZXY' | 'ZYX';
+
+/**
+ * Represents a rotation in 3D space as a quaternion `w + xi + yj + zk`.
+ *
+ * Rotations created by the static constructors are unit quaternions. Instances are immutable;
+ * every operation returns a new `Quaternion`.
+ *
+ * @example
+ * ```typescript
+ * const slope = Quaternion.fromAxisAngle({x: 1, y: 0, z: 0}, Math.PI / 12);
+ * const rotated = VectorUtils.chain(pt).rotate(slope).value();
+ * ```
+ */
+export class Quaternion {
+    readonly w: number;
+    readonly x: number;
+    readonly y: number;
+    readonly z: number;
+
+    constructor(w: number, x: number, y: number, z: number) {
+        this.w = w;
+        this.x = x;
+        this.y = y;
+        this.z = z;
+    }
+
+    /**
+     * Creates the identity rotation.
+     *
+     * @returns A `Quaternion` which does not rotate anything.
+     */
+    static identity(): Quaternion {
+        return new Quaternion(1, 0, 0, 0);
+    }
+
+    /**
+     * Creates a rotation about an arbitrary axis.
+     * The rotation follows the right-hand rule around the given axis.
+     *
+     * @param axis - The rotation axis. It does not need to be normalized.
+     * @param rad - The rotation angle in radians.
+     * @returns A unit `Quaternion` representing the rotation.
+     * @throws {Error} If the axis is a zero vector.
+     */
+    static fromAxisAngle(axis: Vertex3d, rad: number): Quaternion {
+        if (VectorUtils.getSize(axis) === 0) {
+            throw new Error("Rotation axis should not be zero vector.");
+        }
+
+        const n = VectorUtils.normalize(axis);
+        const s = Math.sin(rad * 0.5);
+        return new Quaternion(Math.cos(rad * 0.5), n.x * s, n.y * s, n.z * s);
+    }
+
+    /**
+     * Creates the shortest rotation which turns the direction of `from` onto the direction of `to`.
+     * When the vectors are opposite, the rotation is a half turn about an axis perpendicular to `from`.
+     *
+     * @param from - The start direction.
+     * @param to - The target direction.
+     * @param tolerance - Optional tolerance context. Vectors within its `angle` from opposite directions are treated as opposite.
+     * @returns A unit `Quaternion` rotating `from` onto `to`.
+     * @throws {Error} If one of the vectors is a zero vector.
+     */
+    static fromTwoVectors(from: Vertex3d, to: Vertex3d, tolerance?: Partial<ToleranceContext>): Quaternion {
+        const tol = ToleranceUtils.resolve(tolerance);
+        if (VectorUtils.getSize(from) === 0 || VectorUtils.getSize(to) === 0) {
+            throw new Error("Vectors for rotation should not be zero vector.");
+        }
+
+        const v0 = VectorUtils.normalize(from);
+        const v1 = VectorUtils.normalize(to);
+        const d = VectorUtils.dot(v0, v1);
+
+        if (d <= -Math.cos(tol.angle)) {
+            // Opposite directions : any perpendicular axis works, pick the most stable one.
+            const helper = Math.abs(v0.x) < 0.9 ? {x: 1, y: 0, z: 0} : {x: 0, y: 1, z: 0};
+            const axis = VectorUtils.cross(v0, helper);
+            return Quaternion.fromAxisAngle(axis, Math.PI);
+        }
+
+        const c = VectorUtils.cross(v0, v1);
+        return new Quaternion(1 + d, c.x, c.y, c.z).normalize();
+    }
+
+    /**
+     * Creates a rotation from Euler angles applied about the fixed world axes.
+     *
+     * @param rx - The rotation angle about the X-axis in radians, as `VectorUtils.rotateOnYZ`.
+     * @param ry - The rotation angle about the Y-axis in radians, as `VectorUtils.rotateOnXZ`.
+     * @param rz - The rotation angle about the Z-axis in radians, as `VectorUtils.rotateOnXY`.
+     * @param order - The order the rotations are applied. Defaults to `'XYZ'`.
+     * @returns A unit `Quaternion` representing the combined rotation.
+     */
+    static fromEuler(rx: number, ry: number, rz: number, order: EulerOrder = 'XYZ'): Quaternion {
+        const rotations: Record<string, Quaternion> = {
+            X: Quaternion.fromAxisAngle({x: 1, y: 0, z: 0}, rx),
+            Y: Quaternion.fromAxisAngle({x: 0, y: 1, z: 0}, ry),
+            Z: Quaternion.fromAxisAngle({x: 0, y: 0, z: 1}, rz),
+        };
+
+        return order
+            .split('')
+            .reduce((q, axis) => q.compose(rotations[axis]), Quaternion.identity());
+    }
+
+    /**
+     * Spherically interpolates between two rotations along the shortest arc.
+     *
+     * @param q0 - The rotation at `t = 0`.
+     * @param q1 - The rotation at `t = 1`.
+     * @param t - The interpolation parameter, usually between 0 and 1.
+     * @returns A unit `Quaternion` between `q0` and `q1`.
+     */
+    static slerp(q0: Quaternion, q1: Quaternion, t: number): Quaternion {
+        const a = q0.normalize();
+        let b = q1.normalize();
+
+        let cosHalf = a.dot(b);
+        if (cosHalf < 0) {
+            b = new Quaternion(-b.w, -b.x, -b.y, -b.z);
+            cosHalf = -cosHalf;
+        }
+
+        // Almost same rotations : linear interpolation avoids dividing by sin(0).
+        if (cosHalf > 1 - QUATERNION_TOLERANCE) {
+            return new Quaternion(
+                a.w + (b.w - a.w) * t,
+                a.x + (b.x - a.x) * t,
+                a.y + (b.y - a.y) * t,
+                a.z + (b.z - a.z) * t,
+            ).normalize();
+        }
+
+        const half = Math.acos(cosHalf);
+        const sinHalf = Math.sin(half);
+        const ra = Math.sin((1 - t) * half) / sinHalf;
+        const rb = Math.sin(t * half) / sinHalf;
+
+        return new Quaternion(
+            a.w * ra + b.w * rb,
+            a.x * ra + b.x * rb,
+            a.y * ra + b.y * rb,
+            a.z * ra + b.z * rb,
+        );
+    }
+
+    /**
+     * Calculates the norm of this quaternion.
+     *
+     * @returns The length of the quaternion as a 4D vector.
+     */
+    getLength(): number {
+        return Math.sqrt(this.w ** 2 + this.x ** 2 + this.y ** 2 + this.z ** 2);
+    }
+
+    /**
+     * Normalizes this quaternion to unit length.
+     * If the quaternion has zero length, returns the identity.
+     *
+     * @returns A unit `Quaternion`.
+     */
+    normalize(): Quaternion {
+        const length = this.getLength();
+        if (length === 0) return Quaternion.identity();
+        return new Quaternion(this.w / length, this.x / length, this.y / length, this.z / length);
+    }
+
+    /**
+     * Calculates the 4D dot product with another quaternion.
+     *
+     * @param q - The other quaternion.
+     * @returns The dot product.
+     */
+    dot(q: Quaternion): number {
+        return this.w * q.w + this.x * q.x + this.y * q.y + this.z * q.z;
+    }
+
+    /**
+     * Gets the conjugate of this quaternion. For unit quaternions it is the inverse rotation.
+     *
+     * @returns The conjugate `Quaternion`.
+     */
+    conjugate(): Quaternion {
+        return new Quaternion(this.w, -this.x, -this.y, -this.z);
+    }
+
+    /**
+     * Gets the inverse of this quaternion.
+     *
+     * @returns The inverse `Quaternion`, or `undefined` if this quaternion has zero length.
+     */
+    invert(): Quaternion | undefined {
+        const lengthSquared = this.dot(this);
+        if (lengthSquared === 0) return;
+        return new Quaternion(
+            this.w / lengthSquared,
+            -this.x / lengthSquared,
+            -this.y / lengthSquared,
+            -this.z / lengthSquared,
+        );
+    }
+
+    /**
+     * Multiplies this quaternion by another one (`this * q`).
+     * The resulting rotation applies `q` first and then this rotation.
+     *
+     * @param q - The right-hand quaternion.
+     * @returns The Hamilton product as a new `Quaternion`.
+     */
+    multiply(q: Quaternion): Quaternion {
+        return new Quaternion(
+            this.w * q.w - this.x * q.x - this.y * q.y - this.z * q.z,
+            this.w * q.x + this.x * q.w + this.y * q.z - this.z * q.y,
+            this.w * q.y - this.x * q.z + this.y * q.w + this.z * q.x,
+            this.w * q.z + this.x * q.y - this.y * q.x + this.z * q.w,
+        );
+    }
+
+    /**
+     * Composes this rotation with the next one.
+     * The resulting rotation applies this rotation first and then `next`, as `Transform3d.compose` does.
+     *
+     * @param next - The rotation applied after this one.
+     * @returns A new `Quaternion` equal to `next * this`.
+     */
+    compose(next: Quaternion): Quaternion {
+        return next.multiply(this);
+    }
+
+    /**
+     * Rotates a vector by this quaternion.
+     *
+     * @param v - The vector to rotate.
+     * @returns A new rotated `Vertex3d`.
+     */
+    rotate(v: Vertex3d): Vertex3d {
+        const q = this.normalize();
+        const u = {x: q.x, y: q.y, z: q.z};
+
+        // v' = v + 2w(u x v) + 2u x (u x v)
+        const uv = VectorUtils.cross(u, v);
+        const uuv = VectorUtils.cross(u, uv);
+
+        return VectorUtils.chain(v)
+            .add(VectorUtils.scale(uv, 2 * q.w))
+            .add(VectorUtils.scale(uuv, 2))
+            .value();
+    }
+
+    /**
+     * Gets the rotation axis and angle of this quaternion.
+     *
+     * @returns The normalized axis and the angle in radians between 0 and 2π.
+     *          For the identity rotation, the axis is the X-axis and the angle is 0.
+     */
+    toAxisAngle(): {axis: Vertex3d, rad: number} {
+        const q = this.normalize();
+        const rad = 2 * Math.acos(Math.min(1, Math.max(-1, q.w)));
+        const s = Math.sqrt(1 - q.w * q.w);
+        if (s < QUATERNION_TOLERANCE) return {axis: {x: 1, y: 0, z: 0}, rad: 0};
+        return {axis: {x: q.x / s, y: q.y / s, z: q.z / s}, rad};
+    }
+
+    /**
+     * Converts this rotation into a `Transform3d`.
+     *
+     * @param center - The fixed point of the rotation. Defaults to the origin.
+     * @returns A `Transform3d` rotating geometries as this quaternion does.
+     */
+    toTransform3d(center?: Vertex3d): Transform3d {
+        const {w, x, y, z} = this.normalize();
+        const rotation = Transform3d.fromElements([
+            1 - 2 * (y * y + z * z),    2 * (x * y - w * z),        2 * (x * z + w * y),        0,
+            2 * (x * y + w * z),        1 - 2 * (x * x + z * z),    2 * (y * z - w * x),        0,
+            2 * (x * z - w * y),        2 * (y * z + w * x),        1 - 2 * (x * x + y * y),    0,
+            0, 0, 0, 1,
+        ]);
+
+        if (!center) return rotation;
+        return Transform3d.translation(VectorUtils.flip(center))
+            .compose(rotation)
+            .compose(Transform3d.translation(center));
+    }
+
+    /**
+     * Determines whether two quaternions represent the same rotation within the given tolerance.
+     * `q` and `-q` are treated as the same rotation.
+     *
+     * @param q - The quaternion to compare.
+     * @param tolerance - Optional tolerance context. Rotations differing by less than its `angle` are the same.
+     * @returns `true` if both represent the same rotation.
+     */
+    equals(q: Quaternion, tolerance?: Partial<ToleranceContext>): boolean {
+        const tol = ToleranceUtils.resolve(tolerance);
+        // The angle between two rotations is twice the angle between their quaternions.
+        return Math.abs(this.normalize().dot(q.normalize())) >= Math.cos(tol.angle * 0.5);
+    }
+}
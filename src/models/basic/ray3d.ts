@@ -0,0 +1,91 @@
+import { Line, Vertex3d } from "../types/basicGeometries";
+import { VectorUtils } from "../../utils/vectorUtils";
+import { InfiniteLine3d } from "./infiniteLine3d";
+
+/**
+ * Represents a ray in 3D space starting at `origin` and running along `direction`.
+ *
+ * Points are evaluated as `origin + direction * t` for `t >= 0`. The direction is kept as given,
+ * so a ray created from a `Line` segment shares its parameters: `pointAt(0)` is `p0` and `pointAt(1)` is `p1`.
+ *
+ * @example
+ * ```typescript
+ * const pick = new Ray3d(camera.position, camera.forward);
+ * const hit = tree.getRayCollision(pick);
+ * ```
+ */
+export class Ray3d {
+    readonly origin: Vertex3d;
+    readonly direction: Vertex3d;
+
+    /**
+     * Creates a new ray.
+     *
+     * @param origin - The start point of the ray, at `t = 0`.
+     * @param direction - The direction of the ray. It does not need to be normalized.
+     * @throws {Error} If the direction is a zero vector.
+     */
+    constructor(origin: Vertex3d, direction: Vertex3d) {
+        if (VectorUtils.getSize(direction) === 0) {
+            throw new Error("Direction of ray should not be zero vector.");
+        }
+
+        this.origin = {x: origin.x, y: origin.y, z: origin.z};
+        this.direction = {x: direction.x, y: direction.y, z: direction.z};
+    }
+
+    /**
+     * Creates the ray starting at `p0` of a segment and passing its `p1`.
+     *
+     * @param line - The segment. `p0` becomes the origin and `p1` the point at `t = 1`.
+     * @returns A new `Ray3d`.
+     * @throws {Error} If the end points of the segment are the same.
+     */
+    static fromLine(line: Line): Ray3d {
+        return new Ray3d(line.p0, VectorUtils.subtract(line.p1, line.p0));
+    }
+
+    /**
+     * The parameter domain of the ray, from its origin to infinity.
+     */
+    get domain(): [number, number] {
+        return [0, Infinity];
+    }
+
+    /**
+     * Evaluates the point at the given parameter.
+     *
+     * @param t - The parameter. Negative values give points behind the origin, outside the ray.
+     * @returns The point `origin + direction * t`.
+     */
+    pointAt(t: number): Vertex3d {
+        return VectorUtils.add(this.origin, VectorUtils.scale(this.direction, t));
+    }
+
+    /**
+     * Gets the parameter of the foot point of `pt` on the line carrying this ray.
+     *
+     * @param pt - The point to project.
+     * @returns The parameter `t` such that `pointAt(t)` is closest to `pt`. Negative when `pt` is behind the origin.
+     */
+    getParameter(pt: Vertex3d): number {
+        const toPt = VectorUtils.subtract(pt, this.origin);
+        return VectorUtils.dot(toPt, this.direction) / VectorUtils.dot(this.direction, this.direction);
+    }
+
+    /**
+     * Converts this ray into the segment between `t = 0` and `t = 1`.
+     */
+    toLine(): Line {
+        return {p0: {...this.origin}, p1: this.pointAt(1)};
+    }
+
+    /**
+     * Extends this ray behind its origin.
+     *
+     * @returns The `InfiniteLine3d` carrying this ray, with the same parameters.
+     */
+    toInfiniteLine(): InfiniteLine3d {
+        return new InfiniteLine3d(this.origin, this.direction);
+    }
+}
@@ -0,0 +1,431 @@
+import { BVHTree, BVHTriangle } from "../bvhTree";
+import { BoundingBox3d, Line, Polyline3d, Triangle, Vertex3d } from "../types/basicGeometries";
+import { ToleranceContext } from "../types/toleranceContext";
+import { ToleranceUtils } from "../../utils/toleranceUtils";
+import { VectorUtils } from "../../utils/vectorUtils";
+
+/**
+ * Represents a 4x4 affine transformation in 3D space.
+ *
+ * The matrix is stored in row-major order and vertices are treated as column vectors,
+ * so a vertex `v` is transformed as `M * [v.x, v.y, v.z, 1]`. The last row is always `[0, 0, 0, 1]`.
+ * Instances are immutable; every operation returns a new `Transform3d`.
+ *
+ * @example
+ * ```typescript
+ * const placement = Transform3d.rotation({x: 0, y: 0, z: 1}, Math.PI * 0.5)
+ *     .compose(Transform3d.translation({x: 1000, y: 0, z: 0}));
+ * const placed = placement.apply(triangle);
+ * ```
+ */
+export class Transform3d {
+    /**
+     * The 16 matrix elements in row-major order.
+     */
+    readonly elements: readonly number[];
+
+    private constructor(elements: number[]) {
+        this.elements = Object.freeze(elements);
+    }
+
+    /**
+     * Creates the identity transform.
+     *
+     * @returns A `Transform3d` leaving every geometry unchanged.
+     */
+    static identity(): Transform3d {
+        return new Transform3d([
+            1, 0, 0, 0,
+            0, 1, 0, 0,
+            0, 0, 1, 0,
+            0, 0, 0, 1,
+        ]);
+    }
+
+    /**
+     * Creates a transform from 16 row-major matrix elements.
+     *
+     * @param elements - The matrix elements in row-major order.
+     * @returns A new `Transform3d` holding the given elements.
+     * @throws {Error} If the array does not hold 16 elements or the last row is not `[0, 0, 0, 1]`.
+     */
+    static fromElements(elements: number[]): Transform3d {
+        if (elements.length !== 16) {
+            throw new Error("Transform3d requires 16 matrix elements.");
+        }
+
+        const [m30, m31, m32, m33] = elements.slice(12);
+        if (m30 !== 0 || m31 !== 0 || m32 !== 0 || m33 !== 1) {
+            throw new Error("Transform3d only supports affine matrices. The last row should be [0, 0, 0, 1].");
+        }
+
+        return new Transform3d([...elements]);
+    }
+
+    /**
+     * Creates a transform from a local basis placed at the given origin.
+     * The columns of the linear part are the given axes, so local coordinates are mapped to world coordinates.
+     *
+     * @param origin - The origin of the local basis in world space.
+     * @param xAxis - The world direction of the local X axis.
+     * @param yAxis - The world direction of the local Y axis.
+     * @param zAxis - The world direction of the local Z axis.
+     * @returns A new `Transform3d` mapping local coordinates into world space.
+     */
+    static fromBasis(origin: Vertex3d, xAxis: Vertex3d, yAxis: Vertex3d, zAxis: Vertex3d): Transform3d {
+        return new Transform3d([
+            xAxis.x, yAxis.x, zAxis.x, origin.x,
+            xAxis.y, yAxis.y, zAxis.y, origin.y,
+            xAxis.z, yAxis.z, zAxis.z, origin.z,
+            0, 0, 0, 1,
+        ]);
+    }
+
+    /**
+     * Creates a translation transform.
+     *
+     * @param v - The translation vector.
+     * @returns A new `Transform3d` moving geometries by `v`.
+     */
+    static translation(v: Vertex3d): Transform3d {
+        return new Transform3d([
+            1, 0, 0, v.x,
+            0, 1, 0, v.y,
+            0, 0, 1, v.z,
+            0, 0, 0, 1,
+        ]);
+    }
+
+    /**
+     * Creates a rotation about an arbitrary axis using Rodrigues' rotation formula.
+     * The rotation follows the right-hand rule around the given axis.
+     *
+     * @param axis - The rotation axis. It does not need to be normalized.
+     * @param rad - The rotation angle in radians.
+     * @param center - The point the axis passes through. Defaults to the origin.
+     * @returns A new `Transform3d` representing the rotation.
+     * @throws {Error} If the axis is a zero vector.
+     */
+    static rotation(axis: Vertex3d, rad: number, center?: Vertex3d): Transform3d {
+        if (VectorUtils.getSize(axis) === 0) {
+            throw new Error("Rotation axis should not be zero vector.");
+        }
+
+        const {x, y, z} = VectorUtils.normalize(axis);
+        const c = Math.cos(rad);
+        const s = Math.sin(rad);
+        const k = 1 - c;
+
+        const rotation = new Transform3d([
+            c + x * x * k,      x * y * k - z * s,  x * z * k + y * s,  0,
+            y * x * k + z * s,  c + y * y * k,      y * z * k - x * s,  0,
+            z * x * k - y * s,  z * y * k + x * s,  c + z * z * k,      0,
+            0, 0, 0, 1,
+        ]);
+
+        return center ? rotation.aroundPoint(center) : rotation;
+    }
+
+    /**
+     * Creates a rotation around the Z-axis, matching `VectorUtils.rotateOnXY`.
+     *
+     * @param rad - The rotation angle in radians.
+     * @returns A new `Transform3d` representing the rotation.
+     */
+    static rotationOnXY(rad: number): Transform3d {
+        return Transform3d.rotation({x: 0, y: 0, z: 1}, rad);
+    }
+
+    /**
+     * Creates a rotation around the X-axis, matching `VectorUtils.rotateOnYZ`.
+     *
+     * @param rad - The rotation angle in radians.
+     * @returns A new `Transform3d` representing the rotation.
+     */
+    static rotationOnYZ(rad: number): Transform3d {
+        return Transform3d.rotation({x: 1, y: 0, z: 0}, rad);
+    }
+
+    /**
+     * Creates a rotation around the Y-axis, matching `VectorUtils.rotateOnXZ`.
+     *
+     * @param rad - The rotation angle in radians.
+     * @returns A new `Transform3d` representing the rotation.
+     */
+    static rotationOnXZ(rad: number): Transform3d {
+        return Transform3d.rotation({x: 0, y: 1, z: 0}, rad);
+    }
+
+    /**
+     * Creates a uniform or non-uniform scale transform.
+     *
+     * @param factor - A single factor for uniform scaling, or per-axis factors.
+     * @param center - The fixed point of the scaling. Defaults to the origin.
+     * @returns A new `Transform3d` representing the scaling.
+     */
+    static scale(factor: number | Vertex3d, center?: Vertex3d): Transform3d {
+        const f = typeof factor === 'number' ? {x: factor, y: factor, z: factor} : factor;
+        const scaling = new Transform3d([
+            f.x, 0, 0, 0,
+            0, f.y, 0, 0,
+            0, 0, f.z, 0,
+            0, 0, 0, 1,
+        ]);
+
+        return center ? scaling.aroundPoint(center) : scaling;
+    }
+
+    /**
+     * Creates a reflection through a plane.
+     *
+     * @param planeOrigin - A point on the mirror plane.
+     * @param planeNormal - The normal of the mirror plane. It does not need to be normalized.
+     * @returns A new `Transform3d` representing the reflection.
+     * @throws {Error} If the plane normal is a zero vector.
+     */
+    static mirror(planeOrigin: Vertex3d, planeNormal: Vertex3d): Transform3d {
+        if (VectorUtils.getSize(planeNormal) === 0) {
+            throw new Error("Mirror plane normal should not be zero vector.");
+        }
+
+        const {x, y, z} = VectorUtils.normalize(planeNormal);
+        const reflection = new Transform3d([
+            1 - 2 * x * x,  -2 * x * y,     -2 * x * z,     0,
+            -2 * y * x,     1 - 2 * y * y,  -2 * y * z,     0,
+            -2 * z * x,     -2 * z * y,     1 - 2 * z * z,  0,
+            0, 0, 0, 1,
+        ]);
+
+        return reflection.aroundPoint(planeOrigin);
+    }
+
+    /**
+     * Gets the translation part of this transform.
+     */
+    get translationPart(): Vertex3d {
+        const m = this.elements;
+        return {x: m[3], y: m[7], z: m[11]};
+    }
+
+    /**
+     * Multiplies this matrix by another one (`this * other`).
+     * The resulting transform applies `other` first and then this transform.
+     *
+     * @param other - The right-hand matrix.
+     * @returns A new `Transform3d` holding the product.
+     */
+    multiply(other: Transform3d): Transform3d {
+        const a = this.elements;
+        const b = other.elements;
+        const result: number[] = new Array(16).fill(0);
+
+        for (let row = 0; row < 4; row++) {
+            for (let col = 0; col < 4; col++) {
+                let sum = 0;
+                for (let k = 0; k < 4; k++) {
+                    sum += a[row * 4 + k] * b[k * 4 + col];
+                }
+                result[row * 4 + col] = sum;
+            }
+        }
+
+        return new Transform3d(result);
+    }
+
+    /**
+     * Composes this transform with the next one.
+     * The resulting transform applies this transform first and then `next`, which reads in placement order.
+     *
+     * @param next - The transform applied after this one.
+     * @returns A new `Transform3d` equal to `next * this`.
+     */
+    compose(next: Transform3d): Transform3d {
+        return next.multiply(this);
+    }
+
+    /**
+     * Calculates the determinant of the linear (upper-left 3x3) part.
+     * A negative value indicates that the transform mirrors geometries.
+     *
+     * @returns The determinant of the transform.
+     */
+    getDeterminant(): number {
+        const m = this.elements;
+        return m[0] * (m[5] * m[10] - m[6] * m[9])
+            - m[1] * (m[4] * m[10] - m[6] * m[8])
+            + m[2] * (m[4] * m[9] - m[5] * m[8]);
+    }
+
+    /**
+     * Calculates the inverse transform.
+     *
+     * @param tolerance - Optional tolerance context. The transform is singular when its determinant is under its `parameter`
+     *                    times the product of the lengths of the axes, so the test does not depend on the scale.
+     * @returns The inverse `Transform3d`, or `undefined` if this transform is singular (e.g. scaled by zero).
+     */
+    invert(tolerance?: Partial<ToleranceContext>): Transform3d | undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const m = this.elements;
+        const det = this.getDeterminant();
+        const scale = Math.hypot(m[0], m[4], m[8]) * Math.hypot(m[1], m[5], m[9]) * Math.hypot(m[2], m[6], m[10]);
+        if (!(Math.abs(det) > scale * tol.parameter)) return;
+
+        const inv = 1 / det;
+        const r00 = (m[5] * m[10] - m[6] * m[9]) * inv;
+        const r01 = (m[2] * m[9] - m[1] * m[10]) * inv;
+        const r02 = (m[1] * m[6] - m[2] * m[5]) * inv;
+        const r10 = (m[6] * m[8] - m[4] * m[10]) * inv;
+        const r11 = (m[0] * m[10] - m[2] * m[8]) * inv;
+        const r12 = (m[2] * m[4] - m[0] * m[6]) * inv;
+        const r20 = (m[4] * m[9] - m[5] * m[8]) * inv;
+        const r21 = (m[1] * m[8] - m[0] * m[9]) * inv;
+        const r22 = (m[0] * m[5] - m[1] * m[4]) * inv;
+
+        const tx = m[3], ty = m[7], tz = m[11];
+
+        return new Transform3d([
+            r00, r01, r02, -(r00 * tx + r01 * ty + r02 * tz),
+            r10, r11, r12, -(r10 * tx + r11 * ty + r12 * tz),
+            r20, r21, r22, -(r20 * tx + r21 * ty + r22 * tz),
+            0, 0, 0, 1,
+        ]);
+    }
+
+    /**
+     * Determines whether this transform is the identity within the given tolerance.
+     *
+     * @param tolerance - Optional tolerance context. Its `parameter` is the allowed difference of the linear part,
+     *                    and its `distance` the allowed difference of the translation part.
+     * @returns `true` if every element matches the identity matrix.
+     */
+    isIdentity(tolerance?: Partial<ToleranceContext>): boolean {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const identity = Transform3d.identity().elements;
+        return this.elements.every((e, i) => {
+            const isTranslation = i === 3 || i === 7 || i === 11;
+            return Math.abs(e - identity[i]) <= (isTranslation ? tol.distance : tol.parameter);
+        });
+    }
+
+    /**
+     * Transforms a point, including the translation part.
+     *
+     * @param v - The point to transform.
+     * @returns A new transformed `Vertex3d`.
+     */
+    transformPoint(v: Vertex3d): Vertex3d {
+        const m = this.elements;
+        return {
+            x: m[0] * v.x + m[1] * v.y + m[2] * v.z + m[3],
+            y: m[4] * v.x + m[5] * v.y + m[6] * v.z + m[7],
+            z: m[8] * v.x + m[9] * v.y + m[10] * v.z + m[11],
+        };
+    }
+
+    /**
+     * Transforms a direction vector, ignoring the translation part.
+     *
+     * @param v - The direction to transform.
+     * @returns A new transformed `Vertex3d`. The result is not normalized.
+     */
+    transformDirection(v: Vertex3d): Vertex3d {
+        const m = this.elements;
+        return {
+            x: m[0] * v.x + m[1] * v.y + m[2] * v.z,
+            y: m[4] * v.x + m[5] * v.y + m[6] * v.z,
+            z: m[8] * v.x + m[9] * v.y + m[10] * v.z,
+        };
+    }
+
+    /**
+     * Applies this transform to a geometry and returns a transformed copy.
+     *
+     * - `Vertex3d`, `Line`, `Triangle` and `Polyline3d` have every vertex transformed as a point.
+     * - `BoundingBox3d` keeps normalized axes and rescales its lengths. Mirroring transforms move the anchor
+     *   so the box keeps covering the same region with a right-handed `n` axis.
+     *   Shearing transforms can not be represented as a box, and give the box spanned by the transformed axes.
+     * - `BVHTree` returns a new tree holding the transformed triangles. When the given tree has been built
+     *   with `calculateTree()`, the returned tree is built as well.
+     *
+     * @param geometry - The geometry to transform.
+     * @returns A new geometry of the same type.
+     */
+    apply(geometry: Vertex3d): Vertex3d;
+    apply(geometry: Triangle): Triangle;
+    apply(geometry: Line): Line;
+    apply(geometry: Polyline3d): Polyline3d;
+    apply(geometry: BoundingBox3d): BoundingBox3d;
+    apply(geometry: BVHTree): BVHTree;
+    apply(geometry: Vertex3d | Line | Triangle | Polyline3d | BoundingBox3d | BVHTree): Vertex3d | Line | Triangle | Polyline3d | BoundingBox3d | BVHTree {
+        if (geometry instanceof BVHTree) return this.applyToBVHTree(geometry);
+        if (Array.isArray(geometry)) return geometry.map(v => this.transformPoint(v));
+        if ('anchor' in geometry) return this.applyToBoundingBox(geometry);
+        if ('p2' in geometry) {
+            return {
+                p0: this.transformPoint(geometry.p0),
+                p1: this.transformPoint(geometry.p1),
+                p2: this.transformPoint(geometry.p2),
+            };
+        }
+        if ('p0' in geometry) {
+            return {
+                p0: this.transformPoint(geometry.p0),
+                p1: this.transformPoint(geometry.p1),
+            };
+        }
+
+        return this.transformPoint(geometry);
+    }
+
+    /**
+     * Gets a transform which applies this one around the given point instead of the origin.
+     */
+    private aroundPoint(center: Vertex3d): Transform3d {
+        return Transform3d.translation(VectorUtils.flip(center))
+            .compose(this)
+            .compose(Transform3d.translation(center));
+    }
+
+    private applyToBoundingBox(box: BoundingBox3d): BoundingBox3d {
+        const uAxis = VectorUtils.normalize(box.uAxis);
+        const vAxis = VectorUtils.normalize(box.vAxis);
+        const nAxis = VectorUtils.normalize(VectorUtils.cross(uAxis, vAxis));
+
+        const uTransformed = this.transformDirection(uAxis);
+        const vTransformed = this.transformDirection(vAxis);
+        const nTransformed = this.transformDirection(nAxis);
+
+        const length = {
+            u: box.length.u * VectorUtils.getSize(uTransformed),
+            v: box.length.v * VectorUtils.getSize(vTransformed),
+            n: box.length.n * VectorUtils.getSize(nTransformed),
+        };
+
+        // Mirrored boxes are spanned to the opposite side of u x v, so start from the far face.
+        const anchor = this.getDeterminant() < 0
+            ? this.transformPoint(VectorUtils.add(box.anchor, VectorUtils.scale(nAxis, box.length.n)))
+            : this.transformPoint(box.anchor);
+
+        return {
+            anchor,
+            uAxis: VectorUtils.normalize(uTransformed),
+            vAxis: VectorUtils.normalize(vTransformed),
+            length,
+        };
+    }
+
+    private applyToBVHTree(tree: BVHTree): BVHTree {
+        const tolerance = tree.toleranceContext;
+        const transformed = new BVHTree(tolerance);
+        for (const triangle of tree.triangles) {
+            transformed.addTriangle(new BVHTriangle(
+                this.transformPoint(triangle.v1),
+                this.transformPoint(triangle.v2),
+                this.transformPoint(triangle.v3),
+                tolerance,
+            ));
+        }
+
+        return tree.isBuilt ? transformed.calculateTree() : transformed;
+    }
+}
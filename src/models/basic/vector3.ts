@@ -0,0 +1,250 @@
+import { Vertex3d } from "../types/basicGeometries";
+import { ToleranceContext } from "../types/toleranceContext";
+import { ToleranceUtils } from "../../utils/toleranceUtils";
+
+/**
+ * Represents an immutable vector or point in 3D space.
+ *
+ * Every operation returns a new `Vector3` and keeps the hash precision of this vector.
+ * Arguments accept any `Vertex3d`, so plain objects and `Vector3` instances can be mixed freely,
+ * and a `Vector3` can be passed wherever a `Vertex3d` is expected.
+ *
+ * @example
+ * ```typescript
+ * const dir = Vector3.from(line.p1).subtract(line.p0).normalized();
+ * const mid = Vector3.from(line.p0).lerp(line.p1, 0.5).toObject();
+ * ```
+ */
+export class Vector3 {
+    readonly x: number;
+    readonly y: number;
+    readonly z: number;
+
+    private readonly precision: number;
+
+    /**
+     * Creates a new vector.
+     *
+     * @param x - The X component.
+     * @param y - The Y component.
+     * @param z - The Z component.
+     * @param tolerance - Optional tolerance context. Its `hashPrecision` is used by `getHash` and `equals`.
+     */
+    constructor(x: number, y: number, z: number, tolerance?: Partial<ToleranceContext>) {
+        this.x = x;
+        this.y = y;
+        this.z = z;
+        this.precision = ToleranceUtils.resolve(tolerance).hashPrecision;
+    }
+
+    /**
+     * Creates a vector from a plain vertex.
+     *
+     * @param v - The vertex to copy.
+     * @param tolerance - Optional tolerance context. Its `hashPrecision` is used by `getHash` and `equals`.
+     * @returns A new `Vector3` with the coordinates of `v`.
+     */
+    static from(v: Vertex3d, tolerance?: Partial<ToleranceContext>): Vector3 {
+        return new Vector3(v.x, v.y, v.z, tolerance);
+    }
+
+    /**
+     * Creates the zero vector.
+     *
+     * @param tolerance - Optional tolerance context. Its `hashPrecision` is used by `getHash` and `equals`.
+     * @returns A new `Vector3` at the origin.
+     */
+    static zero(tolerance?: Partial<ToleranceContext>): Vector3 {
+        return new Vector3(0, 0, 0, tolerance);
+    }
+
+    /**
+     * Gets a hash of the coordinates rounded by the hash precision.
+     * Vectors closer than `1 / hashPrecision` may share a hash.
+     *
+     * @returns The hash string.
+     */
+    getHash(): string {
+        const x = Math.round(this.x * this.precision);
+        const y = Math.round(this.y * this.precision);
+        const z = Math.round(this.z * this.precision);
+        return `${x},${y},${z}`;
+    }
+
+    add(v: Vertex3d): Vector3 {
+        return this.create(this.x + v.x, this.y + v.y, this.z + v.z);
+    }
+
+    subtract(v: Vertex3d): Vector3 {
+        return this.create(this.x - v.x, this.y - v.y, this.z - v.z);
+    }
+
+    multiply(t: number): Vector3 {
+        return this.create(this.x * t, this.y * t, this.z * t);
+    }
+
+    divide(t: number): Vector3 {
+        return this.create(this.x / t, this.y / t, this.z / t);
+    }
+
+    negate(): Vector3 {
+        return this.create(-this.x, -this.y, -this.z);
+    }
+
+    /**
+     * Multiplies each component by the matching component of `v`.
+     */
+    multiplyComponents(v: Vertex3d): Vector3 {
+        return this.create(this.x * v.x, this.y * v.y, this.z * v.z);
+    }
+
+    /**
+     * Divides each component by the matching component of `v`.
+     */
+    divideComponents(v: Vertex3d): Vector3 {
+        return this.create(this.x / v.x, this.y / v.y, this.z / v.z);
+    }
+
+    /**
+     * Gets the component-wise minimum of this vector and `v`.
+     */
+    min(v: Vertex3d): Vector3 {
+        return this.create(Math.min(this.x, v.x), Math.min(this.y, v.y), Math.min(this.z, v.z));
+    }
+
+    /**
+     * Gets the component-wise maximum of this vector and `v`.
+     */
+    max(v: Vertex3d): Vector3 {
+        return this.create(Math.max(this.x, v.x), Math.max(this.y, v.y), Math.max(this.z, v.z));
+    }
+
+    /**
+     * Gets the component-wise absolute value of this vector.
+     */
+    abs(): Vector3 {
+        return this.create(Math.abs(this.x), Math.abs(this.y), Math.abs(this.z));
+    }
+
+    dot(v: Vertex3d): number {
+        return this.x * v.x + this.y * v.y + this.z * v.z;
+    }
+
+    cross(v: Vertex3d): Vector3 {
+        return this.create(
+            this.y * v.z - this.z * v.y,
+            this.z * v.x - this.x * v.z,
+            this.x * v.y - this.y * v.x,
+        );
+    }
+
+    /**
+     * Normalizes this vector to unit length.
+     * If this vector has zero length, returns a zero vector.
+     *
+     * @returns A new unit `Vector3`.
+     */
+    normalized(): Vector3 {
+        const length = this.getLength();
+        if (length === 0) return this.create(0, 0, 0);
+        return this.divide(length);
+    }
+
+    getLength(): number {
+        return Math.sqrt(this.getLengthSquared());
+    }
+
+    getLengthSquared(): number {
+        return this.x ** 2 + this.y ** 2 + this.z ** 2;
+    }
+
+    /**
+     * Calculates the distance between this point and `v`.
+     */
+    distanceTo(v: Vertex3d): number {
+        return Math.sqrt(this.distanceToSquared(v));
+    }
+
+    /**
+     * Calculates the squared distance between this point and `v`.
+     */
+    distanceToSquared(v: Vertex3d): number {
+        return (this.x - v.x) ** 2 + (this.y - v.y) ** 2 + (this.z - v.z) ** 2;
+    }
+
+    /**
+     * Calculates the angle between this vector and `v`.
+     *
+     * @param v - The other vector.
+     * @returns The angle in radians between 0 and π, or 0 if either vector has zero length.
+     */
+    angleTo(v: Vertex3d): number {
+        const lengths = Math.sqrt(this.getLengthSquared() * (v.x ** 2 + v.y ** 2 + v.z ** 2));
+        if (lengths === 0) return 0;
+
+        // atan2 stays accurate for nearly parallel vectors, unlike acos.
+        return Math.atan2(this.cross(v).getLength(), this.dot(v));
+    }
+
+    /**
+     * Projects this vector onto the direction of `v`.
+     *
+     * @param v - The direction to project onto. It does not need to be normalized.
+     * @returns The component of this vector along `v`, or a zero vector if `v` has zero length.
+     */
+    projectOnto(v: Vertex3d): Vector3 {
+        const lengthSquared = v.x ** 2 + v.y ** 2 + v.z ** 2;
+        if (lengthSquared === 0) return this.create(0, 0, 0);
+
+        const t = this.dot(v) / lengthSquared;
+        return this.create(v.x * t, v.y * t, v.z * t);
+    }
+
+    /**
+     * Reflects this vector about a plane given by its normal, as a ray bouncing off a mirror.
+     *
+     * @param normal - The normal of the mirror plane. It does not need to be normalized.
+     * @returns The reflected vector, or a copy of this vector if `normal` has zero length.
+     */
+    reflect(normal: Vertex3d): Vector3 {
+        const n = Vector3.from(normal).normalized();
+        return this.subtract(n.multiply(2 * this.dot(n)));
+    }
+
+    /**
+     * Linearly interpolates between this point and `v`.
+     *
+     * @param v - The point at `t = 1`.
+     * @param t - The interpolation parameter. Values outside 0 ~ 1 extrapolate.
+     * @returns The interpolated point.
+     */
+    lerp(v: Vertex3d, t: number): Vector3 {
+        return this.create(
+            this.x + (v.x - this.x) * t,
+            this.y + (v.y - this.y) * t,
+            this.z + (v.z - this.z) * t,
+        );
+    }
+
+    /**
+     * Converts this vector into a plain `Vertex3d` object.
+     */
+    toObject(): Vertex3d {
+        return { x: this.x, y: this.y, z: this.z };
+    }
+
+    /**
+     * Determines whether `v` has the same hash as this vector.
+     */
+    equals(v: Vertex3d): boolean {
+        return this.getHash() === Vector3.from(v, {hashPrecision: this.precision}).getHash();
+    }
+
+    clone(): Vector3 {
+        return this.create(this.x, this.y, this.z);
+    }
+
+    private create(x: number, y: number, z: number): Vector3 {
+        return new Vector3(x, y, z, {hashPrecision: this.precision});
+    }
+}
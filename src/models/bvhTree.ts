@@ -1,5 +1,9 @@
-import { Vertex3d } from "./types/basicGeometries";
+import { Triangle, Vertex3d } from "./types/basicGeometries";
 import { ActionResult } from "./types/errorMessages";
+import { ToleranceContext } from "./types/toleranceContext";
+import { ToleranceUtils } from "../utils/toleranceUtils";
+import { LineEvaluation, LinearGeometry3d } from "../utils/lineEvaluationUtils";
+import { Vector3 } from "./basic/vector3";
 
 enum ToleranceTypes {
     IsPointInside = "IsPointInside",
@@ -9,9 +13,16 @@ enum ToleranceTypes {
  * BVHTree for fast traverse of triangles.
  */
 export class BVHTree {
-    constructor() {
+    /**
+     * Creates an empty BVHTree.
+     * @param tolerance Optional tolerance context. Its `distance` is the default tolerance of point inside tests,
+     *                  and it is shared with every node created by `calculateTree()`.
+     */
+    constructor(tolerance?: Partial<ToleranceContext>) {
+        this._toleranceContext = {...ToleranceUtils.resolve(tolerance)};
+        this._boundingBox = BVHBoundingBox.create(this._toleranceContext);
         this._tolerances = {
-            [ToleranceTypes.IsPointInside]: 1e-6,
+            [ToleranceTypes.IsPointInside]: this._toleranceContext.distance,
         };
     }
 
@@ -28,8 +39,24 @@ export class BVHTree {
     private leftChild?: BVHTree;
     private rightChild?: BVHTree;
     private parent?: BVHTree;
-    private _boundingBox: BVHBoundingBox = BVHBoundingBox.create();
+    private _boundingBox: BVHBoundingBox;
     private _tolerances: Record<ToleranceTypes, number>;
+    private _toleranceContext: ToleranceContext;
+    private _isBuilt = false;
+
+    /**
+     * Get tolerance context of this BVHTree.
+     */
+    get toleranceContext(): ToleranceContext {
+        return {...this._toleranceContext};
+    }
+
+    /**
+     * Whether this tree is a node built by `calculateTree()`, even a single leaf.
+     */
+    get isBuilt(): boolean {
+        return this._isBuilt;
+    }
 
     /**
      * Get bounding box of this BVHTree.
@@ -48,10 +75,15 @@ export class BVHTree {
 
     /**
      * Add triangle at this three.
-     * @param triangle
+     * @param triangle The triangle. Plain triangles, e.g. from `TriangulationUtils.toTriangles`,
+     *                 are converted with the tolerance context of this tree.
      * @returns Result of adding triangle action.
      */
-    addTriangle(triangle: BVHTriangle): ActionResult {
+    addTriangle(triangle: BVHTriangle | Triangle): ActionResult {
+        if (!(triangle instanceof BVHTriangle)) {
+            triangle = new BVHTriangle(triangle.p0, triangle.p1, triangle.p2, this._toleranceContext);
+        }
+
         const hash = triangle.getHash();
         if (this.triangleHashes.has(hash)) {
             return {
@@ -86,12 +118,12 @@ export class BVHTree {
      */
     private buildBVHTree(triangles: BVHTriangle[]): BVHTree {
         if (triangles.length <= 1) {
-            const leaf = new BVHTree();
+            const leaf = this.createNode();
             triangles.forEach((t) => leaf.addTriangle(t));
             return leaf;
         }
 
-        const node = new BVHTree();
+        const node = this.createNode();
         triangles.forEach((t) => node.addTriangle(t));
 
         const diagonal = node.boundingBox.getDiagonal();
@@ -128,6 +160,17 @@ export class BVHTree {
         return node;
     }
 
+    /**
+     * Internal method for creating a built node sharing the tolerances of this tree.
+     * @returns
+     */
+    private createNode(): BVHTree {
+        const node = new BVHTree(this._toleranceContext);
+        node._tolerances = {...this._tolerances};
+        node._isBuilt = true;
+        return node;
+    }
+
     /**
      * Internal method for sorting triangles.
      * @returns
@@ -203,30 +246,54 @@ export class BVHTree {
      *                   When this set true, it returns the collision point including outbound of the line.
      * @returns Intersection point when only the intersection exists.
      */
+    getRayCollision(p1: Vertex3d, p2: Vertex3d, onlyOnLine: boolean): Vertex3d | undefined;
+    /**
+     * Get the intersection point between the given segment, ray or infinite line and tree.
+     * Only collision points within the parameter domain of the geometry are returned.
+     * Currently, it returns only the first collision point.
+     * @param geometry `Line` segment, `Ray3d` or `InfiniteLine3d`.
+     * @returns Intersection point when only the intersection exists.
+     */
+    getRayCollision(geometry: LinearGeometry3d): Vertex3d | undefined;
     getRayCollision(
+        geometryOrStart: LinearGeometry3d | Vertex3d,
+        p2?: Vertex3d,
+        onlyOnLine?: boolean
+    ): Vertex3d | undefined {
+        if (p2) {
+            const domain: [number, number] = onlyOnLine ? [0, 1] : [-Infinity, Infinity];
+            return this.getCollisionInDomain(geometryOrStart as Vertex3d, p2, domain);
+        }
+
+        const geometry = geometryOrStart as LinearGeometry3d;
+        const line = LineEvaluation.getDefiningLine(geometry);
+        return this.getCollisionInDomain(line.p0, line.p1, LineEvaluation.getParameterDomain(geometry));
+    }
+
+    /**
+     * Internal method for the collision of the line `p1 + (p2 - p1) * t` with `t` in the domain.
+     */
+    private getCollisionInDomain(
         p1: Vertex3d,
         p2: Vertex3d,
-        onlyOnLine: boolean
+        domain: [number, number]
     ): Vertex3d | undefined {
         if (!this.isRayCollideAABB(p1, p2)) return;
 
         if (!this.leftChild && !this.rightChild) {
+            const direction = Vector3.from(p2).subtract(p1);
             for (const triangle of this.triangles) {
-                const ptTest = triangle.getPointOnTrianglePlane(p1, p2);
+                const ptTest = triangle.getPointOnTrianglePlane(p1, p2, this._toleranceContext);
                 if (!ptTest) continue;
 
-                const onLine =
-                    ptTest
-                        .subtract(new BVHVertex(p1))
-                        .dot(ptTest.subtract(new BVHVertex(p2))) <= 0;
-
-                if (!onlyOnLine || onLine) return ptTest;
+                const t = ptTest.subtract(p1).dot(direction) / direction.getLengthSquared();
+                if (domain[0] <= t && t <= domain[1]) return ptTest;
             }
         }
 
         return (
-            this.leftChild?.getRayCollision(p1, p2, onlyOnLine) ||
-            this.rightChild?.getRayCollision(p1, p2, onlyOnLine)
+            this.leftChild?.getCollisionInDomain(p1, p2, domain) ||
+            this.rightChild?.getCollisionInDomain(p1, p2, domain)
         );
     }
 
@@ -330,36 +397,40 @@ export class BVHTriangle {
      * The first vertex of the bounding volume hierarchy (BVH) node.
      * This vertex is used to define the geometry or bounds associated with the node.
      */
-    readonly v1: BVHVertex;
+    readonly v1: Vector3;
 
     /**
      * The second vertex associated with this BVH node.
      * Used to define the geometry or bounds within the BVH structure.
      */
-    readonly v2: BVHVertex;
+    readonly v2: Vector3;
 
     /**
      * The third vertex of the BVH structure.
      *
      * @readonly
      */
-    readonly v3: BVHVertex;
+    readonly v3: Vector3;
+
+    private readonly hashPrecision: number;
 
     /**
      * Creates a new BVHTriangle instance from three vertices.
      *
-     * Each vertex is wrapped in a BVHVertex. The constructor checks for duplicate vertices
+     * Each vertex is wrapped in a Vector3. The constructor checks for duplicate vertices
      * by comparing their hashes. If all three vertices are identical, an error is thrown.
      *
      * @param v1 - The first vertex of the triangle.
      * @param v2 - The second vertex of the triangle.
      * @param v3 - The third vertex of the triangle.
+     * @param tolerance - Optional tolerance context. Its `hashPrecision` is used for vertex hashes.
      * @throws {Error} If all three vertices are identical.
      */
-    constructor(v1: Vertex3d, v2: Vertex3d, v3: Vertex3d) {
-        const bvhV1 = new BVHVertex(v1);
-        const bvhV2 = new BVHVertex(v2);
-        const bvhV3 = new BVHVertex(v3);
+    constructor(v1: Vertex3d, v2: Vertex3d, v3: Vertex3d, tolerance?: Partial<ToleranceContext>) {
+        this.hashPrecision = ToleranceUtils.resolve(tolerance).hashPrecision;
+        const bvhV1 = Vector3.from(v1, {hashPrecision: this.hashPrecision});
+        const bvhV2 = Vector3.from(v2, {hashPrecision: this.hashPrecision});
+        const bvhV3 = Vector3.from(v3, {hashPrecision: this.hashPrecision});
 
         const dupV1V2 = bvhV1.getHash() === bvhV2.getHash();
         const dupV2V3 = bvhV2.getHash() === bvhV3.getHash();
@@ -411,7 +482,8 @@ export class BVHTriangle {
         return new BVHTriangle(
             this.v1.toObject(),
             this.v2.toObject(),
-            this.v3.toObject()
+            this.v3.toObject(),
+            {hashPrecision: this.hashPrecision}
         );
     }
 
@@ -427,7 +499,7 @@ export class BVHTriangle {
     private isDetZero(pt1: Vertex3d, pt2: Vertex3d): boolean {
         const V1V2 = this.v2.subtract(this.v1);
         const V1V3 = this.v3.subtract(this.v1);
-        const d = new BVHVertex(pt2).subtract(new BVHVertex(pt1)).normalized();
+        const d = Vector3.from(pt2, {hashPrecision: this.hashPrecision}).subtract(pt1).normalized();
         const det = V1V2.dot(d.cross(V1V3));
         return det === 0;
     }
@@ -435,25 +507,28 @@ export class BVHTriangle {
     /**
      * Calculates the intersection point of a line segment (defined by `pt1` and `pt2`)
      * with the plane of the triangle defined by the instance vertices (`v1`, `v2`, `v3`).
-     * Returns the intersection point as a `BVHVertex` if it lies within the triangle,
+     * Returns the intersection point as a `Vector3` if it lies within the triangle,
      * otherwise returns `undefined`.
      *
      * @param pt1 - The starting vertex of the line segment.
      * @param pt2 - The ending vertex of the line segment.
-     * @returns The intersection point as a `BVHVertex` if it is inside the triangle, or `undefined` otherwise.
+     * @param tolerance - Optional tolerance context. Barycentric parameters outside 0 ~ 1 by its `parameter` are still accepted.
+     * @returns The intersection point as a `Vector3` if it is inside the triangle, or `undefined` otherwise.
      */
     getPointOnTrianglePlane(
         pt1: Vertex3d,
-        pt2: Vertex3d
-    ): BVHVertex | undefined {
+        pt2: Vertex3d,
+        tolerance?: Partial<ToleranceContext>
+    ): Vector3 | undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
         if (this.isDetZero(pt1, pt2)) return;
 
         const V1 = this.v1;
         const V2 = this.v2;
         const V3 = this.v3;
 
-        const P1 = new BVHVertex(pt1);
-        const P2 = new BVHVertex(pt2);
+        const P1 = Vector3.from(pt1, {hashPrecision: this.hashPrecision});
+        const P2 = Vector3.from(pt2, {hashPrecision: this.hashPrecision});
 
         const V1V2 = V2.subtract(V1);
         const V1V3 = V3.subtract(V1);
@@ -468,46 +543,49 @@ export class BVHTriangle {
 
         const result = V1.multiply(u).add(V2.multiply(v)).add(V3.multiply(w));
 
-        const validParams = [u, v, w].every((val) => val >= 0 && val <= 1);
+        const validParams = [u, v, w].every((val) => val >= -tol.parameter && val <= 1 + tol.parameter);
         return validParams ? result : undefined;
     }
 }
 
 export class BVHBoundingBox {
-    private _min: BVHVertex;
-    private _max: BVHVertex;
+    private _min: Vector3;
+    private _max: Vector3;
     private vertexHashes: Set<string>;
     private _initialized: boolean;
+    private readonly hashPrecision: number;
 
-    private constructor() {
+    private constructor(tolerance?: Partial<ToleranceContext>) {
         this.vertexHashes = new Set();
         this._initialized = false;
-        this._min = new BVHVertex({ x: Infinity, y: Infinity, z: Infinity });
-        this._max = new BVHVertex({ x: -Infinity, y: -Infinity, z: -Infinity });
+        this.hashPrecision = ToleranceUtils.resolve(tolerance).hashPrecision;
+        this._min = this.createVertex({ x: Infinity, y: Infinity, z: Infinity });
+        this._max = this.createVertex({ x: -Infinity, y: -Infinity, z: -Infinity });
     }
 
     /**
      * Creates and returns a new instance of `BVHBoundingBox`.
      *
+     * @param tolerance - Optional tolerance context. Its `hashPrecision` is used for the vertices of the box.
      * @returns {BVHBoundingBox} A newly created `BVHBoundingBox` object.
      */
-    static create(): BVHBoundingBox {
-        return new BVHBoundingBox();
+    static create(tolerance?: Partial<ToleranceContext>): BVHBoundingBox {
+        return new BVHBoundingBox(tolerance);
     }
 
     /**
      * Gets the minimum bounding vertex of the BVH tree.
-     * @returns The {@link BVHVertex} representing the minimum bounds.
+     * @returns The {@link Vector3} representing the minimum bounds.
      */
-    get min(): BVHVertex {
+    get min(): Vector3 {
         return this._min;
     }
 
     /**
      * Gets the maximum BVH vertex in the tree.
-     * @returns The maximum {@link BVHVertex} stored in this BVHTree.
+     * @returns The maximum {@link Vector3} stored in this BVHTree.
      */
-    get max(): BVHVertex {
+    get max(): Vector3 {
         return this._max;
     }
 
@@ -524,11 +602,11 @@ export class BVHBoundingBox {
      * Updates the minimum and maximum bounds of the tree to include the new vertex.
      * Marks the tree as initialized after adding the vertex.
      *
-     * @param v - The `BVHVertex` to add to the tree.
+     * @param v - The `Vector3` to add to the tree.
      * @returns An `ActionResult` object indicating whether the vertex was added successfully.
      *          If the vertex is already present, returns `result: false` with a message.
      */
-    addVertex(v: BVHVertex): ActionResult {
+    addVertex(v: Vector3): ActionResult {
         const hash = v.getHash();
         if (this.vertexHashes.has(hash)) {
             return {
@@ -539,13 +617,13 @@ export class BVHBoundingBox {
 
         this.vertexHashes.add(hash);
 
-        this._min = new BVHVertex({
+        this._min = this.createVertex({
             x: Math.min(this._min.x, v.x),
             y: Math.min(this._min.y, v.y),
             z: Math.min(this._min.z, v.z),
         });
 
-        this._max = new BVHVertex({
+        this._max = this.createVertex({
             x: Math.max(this._max.x, v.x),
             y: Math.max(this._max.y, v.y),
             z: Math.max(this._max.z, v.z),
@@ -560,11 +638,11 @@ export class BVHBoundingBox {
      * Calculates and returns the centroid of the bounding volume defined by `_min` and `_max`.
      * The centroid is computed as the midpoint between the minimum and maximum coordinates.
      *
-     * @returns {BVHVertex | undefined} The centroid as a `BVHVertex` instance, or `undefined` if the tree is not initialized.
+     * @returns {Vector3 | undefined} The centroid as a `Vector3` instance, or `undefined` if the tree is not initialized.
      */
-    getCentroid(): BVHVertex | undefined {
+    getCentroid(): Vector3 | undefined {
         if (!this._initialized) return;
-        return new BVHVertex({
+        return this.createVertex({
             x: (this._min.x + this._max.x) * 0.5,
             y: (this._min.y + this._max.y) * 0.5,
             z: (this._min.z + this._max.z) * 0.5,
@@ -576,94 +654,20 @@ export class BVHBoundingBox {
      * The diagonal is computed as the difference between the maximum and minimum coordinates
      * along each axis (x, y, z).
      *
-     * @returns {BVHVertex | undefined} A new `BVHVertex` representing the diagonal vector,
+     * @returns {Vector3 | undefined} A new `Vector3` representing the diagonal vector,
      * or `undefined` if the bounding box is not initialized.
      */
-    getDiagonal(): BVHVertex | undefined {
+    getDiagonal(): Vector3 | undefined {
         if (!this._initialized) return;
-        return new BVHVertex({
+        return this.createVertex({
             x: this._max.x - this._min.x,
             y: this._max.y - this._min.y,
             z: this._max.z - this._min.z,
         });
     }
-}
-
-class BVHVertex {
-    readonly x: number;
-    readonly y: number;
-    readonly z: number;
-
-    private static readonly PRECISION = 1e6;
-
-    constructor(v: Vertex3d) {
-        this.x = v.x;
-        this.y = v.y;
-        this.z = v.z;
-    }
-
-    getHash(): string {
-        const x = Math.round(this.x * BVHVertex.PRECISION);
-        const y = Math.round(this.y * BVHVertex.PRECISION);
-        const z = Math.round(this.z * BVHVertex.PRECISION);
-        return `${x},${y},${z}`;
-    }
-
-    add(v: BVHVertex): BVHVertex {
-        return new BVHVertex({
-            x: this.x + v.x,
-            y: this.y + v.y,
-            z: this.z + v.z,
-        });
-    }
-
-    subtract(v: BVHVertex): BVHVertex {
-        return new BVHVertex({
-            x: this.x - v.x,
-            y: this.y - v.y,
-            z: this.z - v.z,
-        });
-    }
-
-    dot(v: BVHVertex): number {
-        return this.x * v.x + this.y * v.y + this.z * v.z;
-    }
-
-    cross(v: BVHVertex): BVHVertex {
-        return new BVHVertex({
-            x: this.y * v.z - this.z * v.y,
-            y: this.z * v.x - this.x * v.z,
-            z: this.x * v.y - this.y * v.x,
-        });
-    }
-
-    normalized(): BVHVertex {
-        const length = this.getLength();
-        return new BVHVertex({
-            x: this.x / length,
-            y: this.y / length,
-            z: this.z / length,
-        });
-    }
-
-    getLength(): number {
-        return Math.sqrt(this.x ** 2 + this.y ** 2 + this.z ** 2);
-    }
-
-    multiply(t: number): BVHVertex {
-        return new BVHVertex({ x: this.x * t, y: this.y * t, z: this.z * t });
-    }
-
-    toObject(): Vertex3d {
-        return { x: this.x, y: this.y, z: this.z };
-    }
-
-    equals(v: BVHVertex): boolean {
-        return this.getHash() === v.getHash();
-    }
 
-    clone(): BVHVertex {
-        return new BVHVertex({ x: this.x, y: this.y, z: this.z });
+    private createVertex(v: Vertex3d): Vector3 {
+        return Vector3.from(v, {hashPrecision: this.hashPrecision});
     }
 }
 
@@ -80,6 +80,32 @@ export type BoundingBox3d = {
     }
 }
 
+/**
+ * Represents an infinite plane in 3D space defined by a point on it and its unit normal.
+ *
+ * @property origin - A point on the plane.
+ * @property normal - The unit normal vector of the plane. Points on the normal side have positive signed distances.
+ */
+export type Plane = {
+    origin: Vertex3d,
+    normal: Vertex3d,
+}
+
+/**
+ * Represents a local coordinate system (frame) in 3D space defined by an origin and three orthonormal axes.
+ *
+ * @property origin - The origin of the frame in world space.
+ * @property uAxis - The unit vector of the local 'u' (x) axis.
+ * @property vAxis - The unit vector of the local 'v' (y) axis.
+ * @property nAxis - The unit vector of the local 'n' (normal, z) axis. It equals `uAxis × vAxis`.
+ */
+export type CoordinateSystem3d = {
+    origin: Vertex3d,
+    uAxis: Vertex3d,
+    vAxis: Vertex3d,
+    nAxis: Vertex3d,
+}
+
 /**
  * Represents a two-dimensional polyline as an array of `Vertex2d` points.
  * Each vertex defines a point in 2D space, and the sequence of vertices forms the polyline.
@@ -93,4 +119,39 @@ export type Polyline2d = Vertex2d[];
  * Each vertex defines a point in the polyline, and the order of vertices
  * determines the path of the polyline.
  */
-export type Polyline3d = Vertex3d[];
\ No newline at end of file
+export type Polyline3d = Vertex3d[];
+
+/**
+ * Represents a polygon with holes in 2D, such as a floor slab with shafts and atriums.
+ * Each ring may repeat its closing point or omit it, and may be wound in either direction.
+ *
+ * @property outer - The outer boundary.
+ * @property holes - The boundaries of the holes, lying inside `outer` without overlapping each other.
+ */
+export type Polygon2d = {
+    outer: Polyline2d,
+    holes: Polyline2d[],
+}
+
+/**
+ * Represents several polygons with holes which do not overlap, such as the slabs of one level.
+ *
+ * @see Polygon2d
+ */
+export type MultiPolygon2d = Polygon2d[];
+
+/**
+ * Represents many 3D points or vectors as a structure of arrays.
+ * The `i`-th vertex is `(x[i], y[i], z[i])`, and all arrays have the same length.
+ *
+ * @property x - The X coordinates.
+ * @property y - The Y coordinates.
+ * @property z - The Z coordinates.
+ *
+ * @see BulkVectorUtils
+ */
+export type Vertex3dBuffer = {
+    x: Float64Array,
+    y: Float64Array,
+    z: Float64Array,
+}
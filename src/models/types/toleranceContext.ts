@@ -0,0 +1,17 @@
+/**
+ * Set of tolerances used by geometric evaluations.
+ * Every utility accepting a `ToleranceContext` falls back to the global default for omitted values.
+ *
+ * @property distance - The distance under which two points are treated as coincident, in model units.
+ *                      Also used for zero-length vectors and points lying on lines, planes or boundaries.
+ * @property angle - The angle in radians under which two directions are treated as parallel or perpendicular.
+ * @property parameter - The allowed deviation of normalized parameters (e.g. `t` in 0 ~ 1) at domain boundaries.
+ * @property hashPrecision - The factor applied to coordinates before rounding them into vertex hashes.
+ *                           Coordinates closer than `1 / hashPrecision` may share a hash.
+ */
+export type ToleranceContext = {
+    distance: number,
+    angle: number,
+    parameter: number,
+    hashPrecision: number,
+}
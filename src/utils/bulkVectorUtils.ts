@@ -0,0 +1,336 @@
+import { Vertex3d, Vertex3dBuffer } from "../models/types/basicGeometries";
+import { Transform3d } from "../models/basic/transform3d";
+
+/**
+ * Utility namespace for operations on many vectors at once, stored in `Vertex3dBuffer`.
+ *
+ * Unlike `VectorUtils`, these functions loop over typed arrays and never allocate an object per point,
+ * so they stay fast and memory-friendly on point clouds with millions of points.
+ *
+ * Functions producing buffers accept an optional `out` buffer. When given, the results are written
+ * into it and it is returned, so a buffer can be reused or a batch can be updated in place by passing
+ * the input itself as `out`.
+ *
+ * @example
+ * ```typescript
+ * const cloud = BulkVectorUtils.fromInterleaved(scan);
+ * BulkVectorUtils.transform(cloud, placement, cloud);
+ * const box = BulkVectorUtils.getBoundingBox(cloud);
+ * ```
+ */
+export namespace BulkVectorUtils {
+    /**
+     * Creates a buffer for `count` vertices, filled with zeros.
+     *
+     * @param count - The number of vertices.
+     * @returns A new `Vertex3dBuffer`.
+     */
+    export function create(count: number): Vertex3dBuffer {
+        return {
+            x: new Float64Array(count),
+            y: new Float64Array(count),
+            z: new Float64Array(count),
+        };
+    }
+
+    /**
+     * Gets the number of vertices in a buffer.
+     *
+     * @param buffer - The buffer.
+     * @returns The number of vertices.
+     * @throws {Error} If the coordinate arrays have different lengths.
+     */
+    export function getCount(buffer: Vertex3dBuffer): number {
+        const count = buffer.x.length;
+        if (buffer.y.length !== count || buffer.z.length !== count) {
+            throw new Error("Coordinate arrays of the buffer should have the same length.");
+        }
+        return count;
+    }
+
+    /**
+     * Copies vertices into a new buffer.
+     *
+     * @param pts - The vertices to copy.
+     * @returns A new `Vertex3dBuffer` holding the coordinates of `pts`.
+     */
+    export function fromVertices(pts: Vertex3d[]): Vertex3dBuffer {
+        const buffer = create(pts.length);
+        for (let i = 0; i < pts.length; i++) {
+            buffer.x[i] = pts[i].x;
+            buffer.y[i] = pts[i].y;
+            buffer.z[i] = pts[i].z;
+        }
+        return buffer;
+    }
+
+    /**
+     * Converts a buffer into an array of vertices.
+     *
+     * @param buffer - The buffer to convert.
+     * @returns A new array of `Vertex3d`.
+     */
+    export function toVertices(buffer: Vertex3dBuffer): Vertex3d[] {
+        const count = getCount(buffer);
+        const pts: Vertex3d[] = new Array(count);
+        for (let i = 0; i < count; i++) {
+            pts[i] = {x: buffer.x[i], y: buffer.y[i], z: buffer.z[i]};
+        }
+        return pts;
+    }
+
+    /**
+     * Creates a buffer from interleaved coordinates `[x0, y0, z0, x1, y1, z1, ...]`,
+     * the layout used by most point cloud files and graphics APIs.
+     *
+     * @param coords - The interleaved coordinates.
+     * @returns A new `Vertex3dBuffer`.
+     * @throws {Error} If the number of coordinates is not a multiple of 3.
+     */
+    export function fromInterleaved(coords: ArrayLike<number>): Vertex3dBuffer {
+        if (coords.length % 3 !== 0) {
+            throw new Error("Number of interleaved coordinates should be a multiple of 3.");
+        }
+
+        const buffer = create(coords.length / 3);
+        for (let i = 0, j = 0; j < coords.length; i++, j += 3) {
+            buffer.x[i] = coords[j];
+            buffer.y[i] = coords[j + 1];
+            buffer.z[i] = coords[j + 2];
+        }
+        return buffer;
+    }
+
+    /**
+     * Converts a buffer into interleaved coordinates `[x0, y0, z0, x1, y1, z1, ...]`.
+     *
+     * @param buffer - The buffer to convert.
+     * @returns A new `Float64Array` of interleaved coordinates.
+     */
+    export function toInterleaved(buffer: Vertex3dBuffer): Float64Array {
+        const count = getCount(buffer);
+        const coords = new Float64Array(count * 3);
+        for (let i = 0, j = 0; i < count; i++, j += 3) {
+            coords[j] = buffer.x[i];
+            coords[j + 1] = buffer.y[i];
+            coords[j + 2] = buffer.z[i];
+        }
+        return coords;
+    }
+
+    /**
+     * Transforms every point of a buffer, including the translation of the transform.
+     *
+     * @param buffer - The points to transform.
+     * @param transform3d - The transform to apply.
+     * @param out - Optional buffer receiving the results.
+     * @returns The buffer holding the transformed points.
+     */
+    export function transform(buffer: Vertex3dBuffer, transform3d: Transform3d, out?: Vertex3dBuffer): Vertex3dBuffer {
+        return applyMatrix(buffer, transform3d, true, out);
+    }
+
+    /**
+     * Transforms every vector of a buffer as a direction, ignoring the translation of the transform.
+     *
+     * @param buffer - The directions to transform.
+     * @param transform3d - The transform to apply.
+     * @param out - Optional buffer receiving the results.
+     * @returns The buffer holding the transformed directions.
+     */
+    export function transformDirections(buffer: Vertex3dBuffer, transform3d: Transform3d, out?: Vertex3dBuffer): Vertex3dBuffer {
+        return applyMatrix(buffer, transform3d, false, out);
+    }
+
+    /**
+     * Normalizes every vector of a buffer. Zero vectors stay zero, as `VectorUtils.normalize` does.
+     *
+     * @param buffer - The vectors to normalize.
+     * @param out - Optional buffer receiving the results.
+     * @returns The buffer holding the unit vectors.
+     */
+    export function normalize(buffer: Vertex3dBuffer, out?: Vertex3dBuffer): Vertex3dBuffer {
+        const count = getCount(buffer);
+        const target = prepareOutput(count, out);
+        for (let i = 0; i < count; i++) {
+            const x = buffer.x[i], y = buffer.y[i], z = buffer.z[i];
+            const size = Math.sqrt(x * x + y * y + z * z);
+            if (size === 0) {
+                target.x[i] = 0;
+                target.y[i] = 0;
+                target.z[i] = 0;
+                continue;
+            }
+            target.x[i] = x / size;
+            target.y[i] = y / size;
+            target.z[i] = z / size;
+        }
+        return target;
+    }
+
+    /**
+     * Calculates the length of every vector of a buffer.
+     *
+     * @param buffer - The vectors to measure.
+     * @param out - Optional array receiving the results.
+     * @returns The lengths, one per vector.
+     */
+    export function getLengths(buffer: Vertex3dBuffer, out?: Float64Array): Float64Array {
+        const count = getCount(buffer);
+        const target = prepareScalarOutput(count, out);
+        for (let i = 0; i < count; i++) {
+            const x = buffer.x[i], y = buffer.y[i], z = buffer.z[i];
+            target[i] = Math.sqrt(x * x + y * y + z * z);
+        }
+        return target;
+    }
+
+    /**
+     * Calculates dot products pairwise, or of every vector with a single vector.
+     *
+     * @param a - The first vectors.
+     * @param b - The second vectors, with the same count as `a`, or one `Vertex3d` used for every vector of `a`.
+     * @param out - Optional array receiving the results.
+     * @returns The dot products, one per vector of `a`.
+     * @throws {Error} If `a` and `b` are buffers of different counts.
+     */
+    export function dot(a: Vertex3dBuffer, b: Vertex3dBuffer | Vertex3d, out?: Float64Array): Float64Array {
+        const count = getCount(a);
+        const target = prepareScalarOutput(count, out);
+
+        if (isBuffer(b)) {
+            checkSameCount(count, b);
+            for (let i = 0; i < count; i++) {
+                target[i] = a.x[i] * b.x[i] + a.y[i] * b.y[i] + a.z[i] * b.z[i];
+            }
+        } else {
+            for (let i = 0; i < count; i++) {
+                target[i] = a.x[i] * b.x + a.y[i] * b.y + a.z[i] * b.z;
+            }
+        }
+        return target;
+    }
+
+    /**
+     * Calculates cross products pairwise, or of every vector with a single vector.
+     *
+     * @param a - The first vectors.
+     * @param b - The second vectors, with the same count as `a`, or one `Vertex3d` used for every vector of `a`.
+     * @param out - Optional buffer receiving the results.
+     * @returns The buffer holding `a[i] × b[i]` (or `a[i] × b`).
+     * @throws {Error} If `a` and `b` are buffers of different counts.
+     */
+    export function cross(a: Vertex3dBuffer, b: Vertex3dBuffer | Vertex3d, out?: Vertex3dBuffer): Vertex3dBuffer {
+        const count = getCount(a);
+        const target = prepareOutput(count, out);
+        const bIsBuffer = isBuffer(b);
+        if (bIsBuffer) checkSameCount(count, b);
+
+        for (let i = 0; i < count; i++) {
+            const ax = a.x[i], ay = a.y[i], az = a.z[i];
+            const bx = bIsBuffer ? b.x[i] : b.x;
+            const by = bIsBuffer ? b.y[i] : b.y;
+            const bz = bIsBuffer ? b.z[i] : b.z;
+            target.x[i] = ay * bz - az * by;
+            target.y[i] = az * bx - ax * bz;
+            target.z[i] = ax * by - ay * bx;
+        }
+        return target;
+    }
+
+    /**
+     * Calculates the axis-aligned bounding box of the points of a buffer.
+     *
+     * @param buffer - The points.
+     * @returns The minimum and maximum coordinates, or `undefined` if the buffer is empty.
+     */
+    export function getBoundingBox(buffer: Vertex3dBuffer): {min: Vertex3d, max: Vertex3d} | undefined {
+        const count = getCount(buffer);
+        if (count === 0) return;
+
+        let minX = Infinity, minY = Infinity, minZ = Infinity;
+        let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+        for (let i = 0; i < count; i++) {
+            const x = buffer.x[i], y = buffer.y[i], z = buffer.z[i];
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+            if (z < minZ) minZ = z;
+            if (z > maxZ) maxZ = z;
+        }
+
+        return {
+            min: {x: minX, y: minY, z: minZ},
+            max: {x: maxX, y: maxY, z: maxZ},
+        };
+    }
+
+    /**
+     * Calculates the centroid (average) of the points of a buffer.
+     * Coordinates are summed relative to the first point, which keeps the result accurate
+     * for clouds placed far from the origin (e.g. in survey coordinates).
+     *
+     * @param buffer - The points.
+     * @returns The centroid, or `undefined` if the buffer is empty.
+     */
+    export function getCentroid(buffer: Vertex3dBuffer): Vertex3d | undefined {
+        const count = getCount(buffer);
+        if (count === 0) return;
+
+        const ox = buffer.x[0], oy = buffer.y[0], oz = buffer.z[0];
+        let sumX = 0, sumY = 0, sumZ = 0;
+        for (let i = 0; i < count; i++) {
+            sumX += buffer.x[i] - ox;
+            sumY += buffer.y[i] - oy;
+            sumZ += buffer.z[i] - oz;
+        }
+
+        return {
+            x: ox + sumX / count,
+            y: oy + sumY / count,
+            z: oz + sumZ / count,
+        };
+    }
+
+    function applyMatrix(buffer: Vertex3dBuffer, transform3d: Transform3d, isPoint: boolean, out?: Vertex3dBuffer): Vertex3dBuffer {
+        const count = getCount(buffer);
+        const target = prepareOutput(count, out);
+        const m = transform3d.elements;
+        const tx = isPoint ? m[3] : 0;
+        const ty = isPoint ? m[7] : 0;
+        const tz = isPoint ? m[11] : 0;
+
+        for (let i = 0; i < count; i++) {
+            const x = buffer.x[i], y = buffer.y[i], z = buffer.z[i];
+            target.x[i] = m[0] * x + m[1] * y + m[2] * z + tx;
+            target.y[i] = m[4] * x + m[5] * y + m[6] * z + ty;
+            target.z[i] = m[8] * x + m[9] * y + m[10] * z + tz;
+        }
+        return target;
+    }
+
+    function isBuffer(v: Vertex3dBuffer | Vertex3d): v is Vertex3dBuffer {
+        return typeof v.x !== 'number';
+    }
+
+    function checkSameCount(count: number, buffer: Vertex3dBuffer) {
+        if (getCount(buffer) !== count) {
+            throw new Error("Buffers should have the same number of vertices.");
+        }
+    }
+
+    function prepareOutput(count: number, out?: Vertex3dBuffer): Vertex3dBuffer {
+        if (!out) return create(count);
+        checkSameCount(count, out);
+        return out;
+    }
+
+    function prepareScalarOutput(count: number, out?: Float64Array): Float64Array {
+        if (!out) return new Float64Array(count);
+        if (out.length !== count) {
+            throw new Error("Output array should have the same length as the number of vertices.");
+        }
+        return out;
+    }
+}
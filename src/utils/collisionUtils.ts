@@ -1,11 +1,13 @@
 import { BoundingBox2d, BoundingBox3d, Line, Triangle, Vertex2d, Vertex3d } from "../models/types/basicGeometries"
 import { VectorUtils } from "./vectorUtils"
+import { Vector2Utils } from "./vector2Utils"
 import { LineEvaluation } from "./lineEvaluationUtils"
 import { ActionResult } from "../models/types/errorMessages"
+import { ToleranceContext } from "../models/types/toleranceContext"
+import { ToleranceUtils } from "./toleranceUtils"
 
+// The box axes are directions, so this does not follow the distance tolerance of the model units.
 const ZERO_VECTOR_TOLERANCE = 1e-6;
-const UNIT_VECTOR_TOLERANCE = 1e-6;
-const COLLISION_TOLERANCE = 1e-6;
 
 type CollisionResult = {hasCollision: boolean, hasError: boolean, sectionByA?: number[], sectionByB?: number[]}
 export type SATSections = { setionByA: number[] | undefined, setionByB: number[] | undefined }[];
@@ -18,7 +20,7 @@ export type SATSections = { setionByA: number[] | undefined, setionByB: number[]
  * oriented bounding boxes, and offer detailed results including error handling and projection sections.
  *
  * @remarks
- * - All collision detection functions handle floating-point imprecision using configurable tolerances.
+ * - All collision detection functions handle floating-point imprecision using an optional `ToleranceContext`.
  * - Functions return detailed results including collision status, error information, and projection sections.
  * - Includes methods for both edge and surface intersection calculations between lines and triangles.
  * - Designed for use in graphics, physics, and geometry processing applications.
@@ -34,6 +36,7 @@ export namespace CollisionUtils {
      * @param boxA - The first bounding box to test for collision.
      * @param boxB - The second bounding box to test for collision.
      * @param includeContating - If `true`, boxes that are merely touching are considered colliding; otherwise, only overlapping boxes are considered colliding. Defaults to `false`.
+     * @param tolerance - Optional tolerance context. Its `distance` is used for separation checks.
      * @returns An `ActionResult` containing a boolean indicating collision, an array of SAT section results, and error information if applicable.
      *
      * @remarks
@@ -41,72 +44,52 @@ export namespace CollisionUtils {
      * - Uses a tolerance value to handle floating-point imprecision when checking for separation.
      * - The returned `args` array contains the projected sections for each axis.
      */
-    export function hasBoundingBoxCollision2d(boxA: BoundingBox2d, boxB: BoundingBox2d, includeContating = false): ActionResult<SATSections> {
+    export function hasBoundingBoxCollision2d(boxA: BoundingBox2d, boxB: BoundingBox2d, includeContating = false, tolerance?: Partial<ToleranceContext>): ActionResult<SATSections> {
+        const tol = ToleranceUtils.resolve(tolerance);
+
         // Filter the case when zero vectors are given.
-        if (VectorUtils.getSize({ ...boxA.uAxis, z: 0 }) <= ZERO_VECTOR_TOLERANCE || VectorUtils.getSize({ ...boxB.uAxis, z: 0 }) <= ZERO_VECTOR_TOLERANCE) {
+        if (Vector2Utils.getSize(boxA.uAxis) <= ZERO_VECTOR_TOLERANCE || Vector2Utils.getSize(boxB.uAxis) <= ZERO_VECTOR_TOLERANCE) {
             return { result: false, hasError: true, message: "The vector of each boundingbox should not be zero." }
         }
 
-        const uAxisOfA = VectorUtils.normalize({ ...boxA.uAxis, z: 0 });
-        const vAxisOfA = VectorUtils.rotateOnXY({ ...uAxisOfA, z: 0 }, Math.PI * 0.5);
+        const uAxisOfA = Vector2Utils.normalize(boxA.uAxis);
+        const vAxisOfA = Vector2Utils.perp(uAxisOfA);
 
-        const uAxisOfB = VectorUtils.normalize({ ...boxB.uAxis, z: 0 });
-        const vAxisOfB = VectorUtils.rotateOnXY({ ...uAxisOfB, z: 0 }, Math.PI * 0.5);
+        const uAxisOfB = Vector2Utils.normalize(boxB.uAxis);
+        const vAxisOfB = Vector2Utils.perp(uAxisOfB);
 
         const axes = [uAxisOfA, vAxisOfA, uAxisOfB, vAxisOfB];
 
         // Get all pts of A
-        const p0OfA = { ...boxA.anchor, z: 0 };
-        const p1OfA = VectorUtils.add({ ...boxA.anchor, z: 0 }, VectorUtils.scale({ ...uAxisOfA, z: 0 }, boxA.length.u));
-        const p3OfA = VectorUtils.add({ ...boxA.anchor, z: 0 }, VectorUtils.scale({ ...vAxisOfA, z: 0 }, boxA.length.v));
-        const p2OfA = VectorUtils.add(p1OfA, VectorUtils.scale({ ...vAxisOfA, z: 0 }, boxA.length.v));
+        const p0OfA = boxA.anchor;
+        const p1OfA = Vector2Utils.add(boxA.anchor, Vector2Utils.scale(uAxisOfA, boxA.length.u));
+        const p3OfA = Vector2Utils.add(boxA.anchor, Vector2Utils.scale(vAxisOfA, boxA.length.v));
+        const p2OfA = Vector2Utils.add(p1OfA, Vector2Utils.scale(vAxisOfA, boxA.length.v));
 
         // Get all pts of B
-        const p0OfB = { ...boxB.anchor, z: 0 };
-        const p1OfB = VectorUtils.add({ ...boxB.anchor, z: 0 }, VectorUtils.scale({ ...uAxisOfB, z: 0 }, boxB.length.u));
-        const p3OfB = VectorUtils.add({ ...boxB.anchor, z: 0 }, VectorUtils.scale({ ...vAxisOfB, z: 0 }, boxB.length.v));
-        const p2OfB = VectorUtils.add(p1OfB, VectorUtils.scale({ ...vAxisOfB, z: 0 }, boxB.length.v));
+        const p0OfB = boxB.anchor;
+        const p1OfB = Vector2Utils.add(boxB.anchor, Vector2Utils.scale(uAxisOfB, boxB.length.u));
+        const p3OfB = Vector2Utils.add(boxB.anchor, Vector2Utils.scale(vAxisOfB, boxB.length.v));
+        const p2OfB = Vector2Utils.add(p1OfB, Vector2Utils.scale(vAxisOfB, boxB.length.v));
 
         const collisionResult: CollisionResult[] = axes.map(axis => {
-            // Get all foot point on axis of A
-            const ptsOnAxisFromA = [
-                LineEvaluation.getFootPointOnDirection(axis, p0OfA),
-                LineEvaluation.getFootPointOnDirection(axis, p1OfA),
-                LineEvaluation.getFootPointOnDirection(axis, p2OfA),
-                LineEvaluation.getFootPointOnDirection(axis, p3OfA),
-            ];
-
-            const ptsOnAxisFromB = [
-                LineEvaluation.getFootPointOnDirection(axis, p0OfB),
-                LineEvaluation.getFootPointOnDirection(axis, p1OfB),
-                LineEvaluation.getFootPointOnDirection(axis, p2OfB),
-                LineEvaluation.getFootPointOnDirection(axis, p3OfB),
-            ];
-
-            // Filter the case when pts has undefined;
-            const checkUndefinedPtsA = ptsOnAxisFromA.every(p => p !== undefined);
-            const checkUndefinedPtsB = ptsOnAxisFromB.every(p => p !== undefined);
+            // Project all pts on the unit axis
+            const sortedParamsFromA = [p0OfA, p1OfA, p2OfA, p3OfA]
+                .map(pt => Vector2Utils.dot(axis, pt))
+                .sort((a, b) => a - b);
 
-            if (!checkUndefinedPtsA || !checkUndefinedPtsB) {
-                return { hasError: true, hasCollision: false }
-            }
-
-            const sortedParamsFromA = ptsOnAxisFromA
-                .sort((a, b) => a.t - b.t)
-                .map(a => a.t);
-
-            const sortedParamsFromB = ptsOnAxisFromB
-                .sort((a, b) => a.t - b.t)
-                .map(a => a.t);
+            const sortedParamsFromB = [p0OfB, p1OfB, p2OfB, p3OfB]
+                .map(pt => Vector2Utils.dot(axis, pt))
+                .sort((a, b) => a - b);
 
             const sectionByA = [sortedParamsFromA[0], sortedParamsFromA[3]];
             const sectionByB = [sortedParamsFromB[0], sortedParamsFromB[3]];
 
             let isSeparated: boolean;
             if (includeContating) {
-                isSeparated = sectionByA[1] < sectionByB[0] - COLLISION_TOLERANCE || sectionByB[1] < sectionByA[0] - COLLISION_TOLERANCE;
+                isSeparated = sectionByA[1] < sectionByB[0] - tol.distance || sectionByB[1] < sectionByA[0] - tol.distance;
             } else {
-                isSeparated = sectionByA[1] < sectionByB[0] + COLLISION_TOLERANCE || sectionByB[1] < sectionByA[0] + COLLISION_TOLERANCE;
+                isSeparated = sectionByA[1] < sectionByB[0] + tol.distance || sectionByB[1] < sectionByA[0] + tol.distance;
             }
             return { hasError: false, hasCollision: !isSeparated, sectionByA, sectionByB };
         });
@@ -133,14 +116,17 @@ export namespace CollisionUtils {
      * @param boxA - The first bounding box, defined by anchor, axes, and lengths.
      * @param boxB - The second bounding box, defined by anchor, axes, and lengths.
      * @param includeContating - If true, boxes that are merely touching are considered colliding. Defaults to false.
+     * @param tolerance - Optional tolerance context. Its `distance` is used for separation, and its `angle` for perpendicularity.
      * @returns An {@link ActionResult} containing the SAT section results, collision status, and error information.
      * 
      * @remarks
      * - Returns an error if any axis is a zero vector or if the u/v axes of a box are not perpendicular.
-     * - Uses a tolerance for zero vectors and perpendicularity checks.
+     * - Uses the tolerance context for separation and perpendicularity checks.
      * - The result includes detailed projection sections for each axis tested.
      */
-    export function hasBoundingBoxCollision3d(boxA: BoundingBox3d, boxB: BoundingBox3d, includeContating = false): ActionResult<SATSections> {
+    export function hasBoundingBoxCollision3d(boxA: BoundingBox3d, boxB: BoundingBox3d, includeContating = false, tolerance?: Partial<ToleranceContext>): ActionResult<SATSections> {
+        const tol = ToleranceUtils.resolve(tolerance);
+
         // Filter the case when zero vectors are given.
         const hasZeroVectors = [
             boxA.uAxis,
@@ -159,8 +145,8 @@ export namespace CollisionUtils {
         const uAxisB = VectorUtils.normalize(boxB.uAxis);
         const vAxisB = VectorUtils.normalize(boxB.vAxis);
 
-        const isPerpendicularA = Math.abs(VectorUtils.dot(uAxisA, vAxisA)) < UNIT_VECTOR_TOLERANCE;
-        const isPerpendicularB = Math.abs(VectorUtils.dot(uAxisB, vAxisB)) < UNIT_VECTOR_TOLERANCE;
+        const isPerpendicularA = Math.abs(VectorUtils.dot(uAxisA, vAxisA)) < Math.sin(tol.angle);
+        const isPerpendicularB = Math.abs(VectorUtils.dot(uAxisB, vAxisB)) < Math.sin(tol.angle);
         if(!isPerpendicularA || !isPerpendicularB) {
             return {result: false, hasError: true, message: "U, V axis of each box should be perpendicular to each other."}
         }
@@ -189,25 +175,25 @@ export namespace CollisionUtils {
         const axes = [uAxisA, vAxisA, nAxisA, uAxisB, vAxisB, nAxisB];
         const collisionResult: CollisionResult[] = axes.map(axis => {
             const ptsOnAxisFromA = [
-                LineEvaluation.getFootPointOnDirection(axis, p0A),
-                LineEvaluation.getFootPointOnDirection(axis, p1A),
-                LineEvaluation.getFootPointOnDirection(axis, p2A),
-                LineEvaluation.getFootPointOnDirection(axis, p3A),
-                LineEvaluation.getFootPointOnDirection(axis, p4A),
-                LineEvaluation.getFootPointOnDirection(axis, p5A),
-                LineEvaluation.getFootPointOnDirection(axis, p6A),
-                LineEvaluation.getFootPointOnDirection(axis, p7A),
+                LineEvaluation.getFootPointOnDirection(axis, p0A, tol),
+                LineEvaluation.getFootPointOnDirection(axis, p1A, tol),
+                LineEvaluation.getFootPointOnDirection(axis, p2A, tol),
+                LineEvaluation.getFootPointOnDirection(axis, p3A, tol),
+                LineEvaluation.getFootPointOnDirection(axis, p4A, tol),
+                LineEvaluation.getFootPointOnDirection(axis, p5A, tol),
+                LineEvaluation.getFootPointOnDirection(axis, p6A, tol),
+                LineEvaluation.getFootPointOnDirection(axis, p7A, tol),
             ];
 
             const ptsOnAxisFromB = [
-                LineEvaluation.getFootPointOnDirection(axis, p0B),
-                LineEvaluation.getFootPointOnDirection(axis, p1B),
-                LineEvaluation.getFootPointOnDirection(axis, p2B),
-                LineEvaluation.getFootPointOnDirection(axis, p3B),
-                LineEvaluation.getFootPointOnDirection(axis, p4B),
-                LineEvaluation.getFootPointOnDirection(axis, p5B),
-                LineEvaluation.getFootPointOnDirection(axis, p6B),
-                LineEvaluation.getFootPointOnDirection(axis, p7B),
+                LineEvaluation.getFootPointOnDirection(axis, p0B, tol),
+                LineEvaluation.getFootPointOnDirection(axis, p1B, tol),
+                LineEvaluation.getFootPointOnDirection(axis, p2B, tol),
+                LineEvaluation.getFootPointOnDirection(axis, p3B, tol),
+                LineEvaluation.getFootPointOnDirection(axis, p4B, tol),
+                LineEvaluation.getFootPointOnDirection(axis, p5B, tol),
+                LineEvaluation.getFootPointOnDirection(axis, p6B, tol),
+                LineEvaluation.getFootPointOnDirection(axis, p7B, tol),
             ];
 
             // Filter the case when pts has undefined;
@@ -231,9 +217,9 @@ export namespace CollisionUtils {
 
             let isSeparated: boolean;
             if (includeContating) {
-                isSeparated = sectionByA[1] < sectionByB[0] - COLLISION_TOLERANCE || sectionByB[1] < sectionByA[0] - COLLISION_TOLERANCE;
+                isSeparated = sectionByA[1] < sectionByB[0] - tol.distance || sectionByB[1] < sectionByA[0] - tol.distance;
             } else {
-                isSeparated = sectionByA[1] < sectionByB[0] + COLLISION_TOLERANCE || sectionByB[1] < sectionByA[0] + COLLISION_TOLERANCE;
+                isSeparated = sectionByA[1] < sectionByB[0] + tol.distance || sectionByB[1] < sectionByA[0] + tol.distance;
             }
 
             return { hasError: false, hasCollision: !isSeparated, sectionByA, sectionByB };
@@ -261,18 +247,19 @@ export namespace CollisionUtils {
      * 
      * @param line - The line to test for intersection with the triangle edges.
      * @param triangle - The triangle whose edges are tested for intersection.
+     * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
      * @returns An array of objects, each containing:
      *   - `t`: The parameter value along the line where the intersection occurs.
      *   - `p`: The intersection point as a `Vertex3d`.
      */
-    export function getCollisionLineWithTriangleEdges(line: Line, triangle: Triangle) {
+    export function getCollisionLineWithTriangleEdges(line: Line, triangle: Triangle, tolerance?: Partial<ToleranceContext>) {
         const AB: Line = {p0: triangle.p0, p1: triangle.p1};
         const BC: Line = {p0: triangle.p1, p1: triangle.p2};
         const CA: Line = {p0: triangle.p2, p1: triangle.p0};
 
-        const intersectionOnAB = LineEvaluation.getIntersection(line, AB);
-        const intersectionOnBC = LineEvaluation.getIntersection(line, BC);
-        const intersectionOnCA = LineEvaluation.getIntersection(line, CA);
+        const intersectionOnAB = LineEvaluation.getIntersection(line, AB, false, tolerance);
+        const intersectionOnBC = LineEvaluation.getIntersection(line, BC, false, tolerance);
+        const intersectionOnCA = LineEvaluation.getIntersection(line, CA, false, tolerance);
 
         const pts: Vertex3d[] = [];
         if(intersectionOnAB.result && intersectionOnAB.pt) pts.push(intersectionOnAB.pt);
@@ -294,9 +281,11 @@ export namespace CollisionUtils {
      *
      * @param line - The line to test for intersection, represented by two points (`p0` and `p1`).
      * @param triangle - The triangle surface, represented by three vertices (`p0`, `p1`, and `p2`).
+     * @param tolerance - Optional tolerance context. Barycentric parameters outside 0 ~ 1 by its `parameter` are still accepted.
      * @returns The intersection point as a `Vertex3d` if the line intersects the triangle surface, otherwise `undefined`.
      */
-    export function getCollisionLineWithTriangleSurface(line: Line, triangle: Triangle): Vertex3d | undefined {
+    export function getCollisionLineWithTriangleSurface(line: Line, triangle: Triangle, tolerance?: Partial<ToleranceContext>): Vertex3d | undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
         if(isDetZero(line, triangle)) return;
 
         const v0 = triangle.p0;
@@ -323,7 +312,7 @@ export namespace CollisionUtils {
             .add(VectorUtils.scale(v2, w))
             .value();
 
-        const validParams = [u, v, w].every(val => val >= 0 && val <= 1);
+        const validParams = [u, v, w].every(val => val >= -tol.parameter && val <= 1 + tol.parameter);
         return validParams ? result : undefined;
     }
 
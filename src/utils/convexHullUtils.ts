@@ -1,4 +1,5 @@
 import { Vertex3d } from "../models/types/basicGeometries"
+import { GeometricPredicates } from "./geometricPredicates";
 
 /**
  * Computes the convex hull of a set of 2D vertices using the Graham scan algorithm.
@@ -12,7 +13,8 @@ import { Vertex3d } from "../models/types/basicGeometries"
  * @remarks
  * - The input array must contain at least three vertices.
  * - The `z` property of `Vertex3d` is ignored in the computation.
- * - Duplicate points and collinear points may affect the output.
+ * - Orientation tests use the robust `GeometricPredicates.orient2d`, so nearly collinear points are
+ *   classified consistently. Collinear points on the hull boundary are not included in the result.
  */
 export function computeContexHull2d(vertices: Vertex3d[]) {
     // Find anchor
@@ -29,25 +31,19 @@ export function computeContexHull2d(vertices: Vertex3d[]) {
         if(v !== min) comparableVertices.push(v);
     }
 
-    // Get parameterized comparables and sort
-    const parameterizedVertices = vertices.map(v => {
-        const vec: Vertex3d = {x: v.x - min.x, y: v.y - min.y, z: 0};
-        return {
-            vertex: v,
-            param: Math.atan2(vec.y, vec.x)
-        }
+    // Sort by polar angle around the anchor. Every vertex lies above the anchor or on its right,
+    // so the exact orientation is a consistent comparator; collinear vertices are sorted by distance.
+    const sorted = comparableVertices.sort((a, b) => {
+        const orientation = GeometricPredicates.orient2d(min, a, b);
+        return orientation === 0
+            ? getSquaredDistance(min, a) - getSquaredDistance(min, b)
+            : -orientation;
     });
 
-    const sorted = parameterizedVertices.sort((a, b) =>
-        a.param === b.param
-            ? getSquaredDistance(min, a.vertex) - getSquaredDistance(min, b.vertex)
-            : a.param - b.param
-    );
-
     // Compares
-    const stack:Vertex3d[] = [min, sorted[0].vertex];
+    const stack:Vertex3d[] = [min, sorted[0]];
     for(let i = 1; i < sorted.length; i++) {
-        const pt = sorted[i].vertex;
+        const pt = sorted[i];
         while (
             stack.length >= 2 &&
             !isCCW2d(stack[stack.length - 2], stack[stack.length - 1], pt)
@@ -62,25 +58,9 @@ export function computeContexHull2d(vertices: Vertex3d[]) {
 }
 
 function getSquaredDistance(v0: Vertex3d, v1: Vertex3d): number {
-    return Math.pow(v1.x - v0.x, 2) + Math.pow(v1.y - v0.y, 2) + Math.pow(v1.z - v0.z, 2);
+    return Math.pow(v1.x - v0.x, 2) + Math.pow(v1.y - v0.y, 2);
 }
 
 function isCCW2d(p0: Vertex3d, p1: Vertex3d, p2: Vertex3d) {
-    const v1: Vertex3d = {
-        x: p1.x - p0.x,
-        y: p1.y - p0.y,
-        z: p1.z - p0.z,
-    };
-
-    const v2: Vertex3d = {
-        x: p2.x - p1.x,
-        y: p2.y - p1.y,
-        z: p2.z - p1.z,
-    };
-
-    return cross2d(v1, v2) > 0;
-}
-
-function cross2d(p0: Vertex3d, p1: Vertex3d): number {
-    return (p0.y*p1.z - p0.z*p1.y) - (p0.x*p1.z - p0.z*p1.x) + (p0.x*p1.y - p0.y*p1.x);
+    return GeometricPredicates.orient2d(p0, p1, p2) > 0;
 }
\ No newline at end of file
@@ -0,0 +1,235 @@
+import { BoundingBox3d, CoordinateSystem3d, Line, Polyline3d, Vertex3d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { Transform3d } from "../models/basic/transform3d";
+import { ToleranceUtils } from "./toleranceUtils";
+import { VectorUtils } from "./vectorUtils";
+
+const ARBITRARY_AXIS_LIMIT = 1 / 64;
+
+/**
+ * Utility namespace for local coordinate systems (frames) in 3D space.
+ *
+ * Provides methods for:
+ * - Creating frames from bounding boxes, three points or a plane normal.
+ * - Orthonormalizing nearly orthogonal axes with the Gram-Schmidt process.
+ * - Converting vertices, lines and polylines between world and local coordinates.
+ *
+ * Local coordinates are expressed along `uAxis`, `vAxis` and `nAxis` as `x`, `y` and `z`.
+ */
+export namespace CoordinateSystemUtils {
+    /**
+     * Gets the world coordinate system.
+     *
+     * @returns A frame at the origin with the world X, Y and Z axes.
+     */
+    export function world(): CoordinateSystem3d {
+        return {
+            origin: {x: 0, y: 0, z: 0},
+            uAxis: {x: 1, y: 0, z: 0},
+            vAxis: {x: 0, y: 1, z: 0},
+            nAxis: {x: 0, y: 0, z: 1},
+        };
+    }
+
+    /**
+     * Creates the local frame of a bounding box.
+     * The origin is the anchor of the box, and the axes are the orthonormalized `uAxis`, `vAxis` and their normal.
+     *
+     * @param box - The bounding box to read the frame from.
+     * @param tolerance - Optional tolerance context. See `orthonormalize`.
+     * @returns The frame of the box, or `undefined` if the axes of the box are zero or parallel.
+     */
+    export function fromBoundingBox3d(box: BoundingBox3d, tolerance?: Partial<ToleranceContext>): CoordinateSystem3d | undefined {
+        return orthonormalize({
+            origin: {...box.anchor},
+            uAxis: box.uAxis,
+            vAxis: box.vAxis,
+            nAxis: VectorUtils.cross(box.uAxis, box.vAxis),
+        }, tolerance);
+    }
+
+    /**
+     * Creates a frame from three points.
+     * The `u` axis points from `origin` to `ptOnU`, and `ptOnPlane` decides the side of the `v` axis.
+     *
+     * @param origin - The origin of the frame.
+     * @param ptOnU - A point on the positive `u` axis.
+     * @param ptOnPlane - A point on the `uv` plane, on the positive `v` side.
+     * @param tolerance - Optional tolerance context. Points closer than its `distance` are coincident,
+     *                    and points within its `angle` from a line through `origin` are collinear.
+     * @returns The frame, or `undefined` if the points are coincident or collinear.
+     */
+    export function fromPoints(
+        origin: Vertex3d,
+        ptOnU: Vertex3d,
+        ptOnPlane: Vertex3d,
+        tolerance?: Partial<ToleranceContext>
+    ): CoordinateSystem3d | undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const u = VectorUtils.subtract(ptOnU, origin);
+        const w = VectorUtils.subtract(ptOnPlane, origin);
+        const uLength = VectorUtils.getSize(u);
+        const wLength = VectorUtils.getSize(w);
+        if (uLength < tol.distance || wLength < tol.distance) return;
+
+        // The cross product is scaled by both vectors, so it is compared with the sine of the angle between them.
+        const n = VectorUtils.cross(u, w);
+        if (VectorUtils.getSize(n) < uLength * wLength * Math.sin(tol.angle)) return;
+
+        const nAxis = VectorUtils.normalize(n);
+        const uAxis = VectorUtils.normalize(u);
+        const vAxis = VectorUtils.cross(nAxis, uAxis);
+        return {origin: {...origin}, uAxis, vAxis, nAxis};
+    }
+
+    /**
+     * Creates a frame on a plane given by its normal.
+     *
+     * When `uHint` is given, the `u` axis is its projection on the plane. Otherwise the `u` axis follows
+     * the arbitrary axis algorithm used by CAD applications: it is `Y × n` when the normal is almost
+     * parallel to the Z-axis, and `Z × n` elsewhere. Same normals always give the same frame.
+     *
+     * @param origin - The origin of the frame.
+     * @param normal - The normal of the plane, used as the `n` axis. It does not need to be normalized.
+     * @param uHint - Optional direction for the `u` axis.
+     * @param tolerance - Optional tolerance context. A `uHint` within its `angle` from the normal is treated as parallel.
+     * @returns The frame, or `undefined` if the normal or `uHint` is zero, or `uHint` is parallel to the normal.
+     */
+    export function fromNormal(
+        origin: Vertex3d,
+        normal: Vertex3d,
+        uHint?: Vertex3d,
+        tolerance?: Partial<ToleranceContext>
+    ): CoordinateSystem3d | undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
+        if (!(VectorUtils.getSize(normal) > 0)) return;
+        const nAxis = VectorUtils.normalize(normal);
+
+        // Both are unit vectors, so the length of `u` is the sine of the angle between them.
+        let u: Vertex3d;
+        if (uHint) {
+            const hintAxis = VectorUtils.normalize(uHint);
+            u = VectorUtils.subtract(hintAxis, VectorUtils.scale(nAxis, VectorUtils.dot(hintAxis, nAxis)));
+        } else {
+            const isNearZ = Math.abs(nAxis.x) < ARBITRARY_AXIS_LIMIT && Math.abs(nAxis.y) < ARBITRARY_AXIS_LIMIT;
+            const worldAxis = isNearZ ? {x: 0, y: 1, z: 0} : {x: 0, y: 0, z: 1};
+            u = VectorUtils.cross(worldAxis, nAxis);
+        }
+
+        if (VectorUtils.getSize(u) < Math.sin(tol.angle)) return;
+
+        const uAxis = VectorUtils.normalize(u);
+        const vAxis = VectorUtils.cross(nAxis, uAxis);
+        return {origin: {...origin}, uAxis, vAxis, nAxis};
+    }
+
+    /**
+     * Orthonormalizes the axes of a frame with the Gram-Schmidt process.
+     *
+     * `uAxis` keeps its direction, `vAxis` is made perpendicular to it within the `uv` plane, and `nAxis` is rebuilt
+     * as `uAxis × vAxis` so the frame is always right-handed.
+     * Useful for frames read from noisy data whose axes are only nearly orthogonal.
+     *
+     * @param cs - The frame to orthonormalize. Its axes do not need to be normalized.
+     * @param tolerance - Optional tolerance context. A `vAxis` within its `angle` from `uAxis` is treated as parallel.
+     * @returns A new orthonormal frame, or `undefined` if `uAxis` or `vAxis` is zero, or they are parallel.
+     */
+    export function orthonormalize(cs: CoordinateSystem3d, tolerance?: Partial<ToleranceContext>): CoordinateSystem3d | undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
+        if (!(VectorUtils.getSize(cs.uAxis) > 0) || !(VectorUtils.getSize(cs.vAxis) > 0)) return;
+        const uAxis = VectorUtils.normalize(cs.uAxis);
+
+        // The length of the rejection of the unit `vAxis` is the sine of the angle between the axes.
+        const vHint = VectorUtils.normalize(cs.vAxis);
+        const v = VectorUtils.subtract(vHint, VectorUtils.scale(uAxis, VectorUtils.dot(vHint, uAxis)));
+        if (VectorUtils.getSize(v) < Math.sin(tol.angle)) return;
+        const vAxis = VectorUtils.normalize(v);
+
+        const nAxis = VectorUtils.cross(uAxis, vAxis);
+        return {origin: {...cs.origin}, uAxis, vAxis, nAxis};
+    }
+
+    /**
+     * Determines whether the axes of a frame are orthonormal and right-handed.
+     *
+     * @param cs - The frame to check.
+     * @param tolerance - Optional tolerance context. Its `angle` bounds the deviation of lengths and dot products.
+     * @returns `true` if the axes are unit, perpendicular and `n = u × v`.
+     */
+    export function isOrthonormal(cs: CoordinateSystem3d, tolerance?: Partial<ToleranceContext>): boolean {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const limit = Math.sin(tol.angle);
+        const {uAxis, vAxis, nAxis} = cs;
+        const isUnit = [uAxis, vAxis, nAxis].every(axis => Math.abs(VectorUtils.getSize(axis) - 1) <= limit);
+        const isPerpendicular = [
+            VectorUtils.dot(uAxis, vAxis),
+            VectorUtils.dot(vAxis, nAxis),
+            VectorUtils.dot(nAxis, uAxis),
+        ].every(d => Math.abs(d) <= limit);
+        const isRightHanded = VectorUtils.dot(VectorUtils.cross(uAxis, vAxis), nAxis) > 0;
+
+        return isUnit && isPerpendicular && isRightHanded;
+    }
+
+    /**
+     * Converts world coordinates into the local coordinates of a frame.
+     *
+     * @param cs - The orthonormal frame.
+     * @param geometry - A vertex, line or polyline in world coordinates.
+     * @returns A new geometry of the same type in local coordinates.
+     */
+    export function toLocal(cs: CoordinateSystem3d, geometry: Vertex3d): Vertex3d;
+    export function toLocal(cs: CoordinateSystem3d, geometry: Line): Line;
+    export function toLocal(cs: CoordinateSystem3d, geometry: Polyline3d): Polyline3d;
+    export function toLocal(cs: CoordinateSystem3d, geometry: Vertex3d | Line | Polyline3d): Vertex3d | Line | Polyline3d {
+        return mapGeometry(geometry, pt => pointToLocal(cs, pt));
+    }
+
+    /**
+     * Converts local coordinates of a frame into world coordinates.
+     *
+     * @param cs - The orthonormal frame.
+     * @param geometry - A vertex, line or polyline in local coordinates.
+     * @returns A new geometry of the same type in world coordinates.
+     */
+    export function toWorld(cs: CoordinateSystem3d, geometry: Vertex3d): Vertex3d;
+    export function toWorld(cs: CoordinateSystem3d, geometry: Line): Line;
+    export function toWorld(cs: CoordinateSystem3d, geometry: Polyline3d): Polyline3d;
+    export function toWorld(cs: CoordinateSystem3d, geometry: Vertex3d | Line | Polyline3d): Vertex3d | Line | Polyline3d {
+        return mapGeometry(geometry, pt => pointToWorld(cs, pt));
+    }
+
+    /**
+     * Gets the transform mapping local coordinates of a frame into world coordinates.
+     * Its inverse maps world coordinates into the frame.
+     *
+     * @param cs - The frame.
+     * @returns A `Transform3d` equivalent to `toWorld`.
+     */
+    export function toTransform3d(cs: CoordinateSystem3d): Transform3d {
+        return Transform3d.fromBasis(cs.origin, cs.uAxis, cs.vAxis, cs.nAxis);
+    }
+
+    function pointToLocal(cs: CoordinateSystem3d, pt: Vertex3d): Vertex3d {
+        const d = VectorUtils.subtract(pt, cs.origin);
+        return {
+            x: VectorUtils.dot(d, cs.uAxis),
+            y: VectorUtils.dot(d, cs.vAxis),
+            z: VectorUtils.dot(d, cs.nAxis),
+        };
+    }
+
+    function pointToWorld(cs: CoordinateSystem3d, pt: Vertex3d): Vertex3d {
+        return VectorUtils.chain(cs.origin)
+            .add(VectorUtils.scale(cs.uAxis, pt.x))
+            .add(VectorUtils.scale(cs.vAxis, pt.y))
+            .add(VectorUtils.scale(cs.nAxis, pt.z))
+            .value();
+    }
+
+    function mapGeometry(geometry: Vertex3d | Line | Polyline3d, fn: (pt: Vertex3d) => Vertex3d): Vertex3d | Line | Polyline3d {
+        if (Array.isArray(geometry)) return geometry.map(fn);
+        if ('p0' in geometry) return {p0: fn(geometry.p0), p1: fn(geometry.p1)};
+        return fn(geometry);
+    }
+}
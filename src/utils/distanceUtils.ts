@@ -0,0 +1,365 @@
+import { BoundingBox3d, Line, Triangle, Vertex3d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { LineEvaluation } from "./lineEvaluationUtils";
+import { ToleranceUtils } from "./toleranceUtils";
+import { VectorUtils } from "./vectorUtils";
+
+/**
+ * Result of a minimum distance query.
+ *
+ * @property dist - The minimum distance. 0 when the geometries touch or intersect.
+ * @property pt0 - The closest point on the first geometry.
+ * @property pt1 - The closest point on the second geometry.
+ */
+export type DistanceResult = {dist: number, pt0: Vertex3d, pt1: Vertex3d};
+
+type BoxFrame = {anchor: Vertex3d, axes: Vertex3d[], lengths: number[]};
+
+/**
+ * Namespace for exact minimum distances between points, segments, triangles and boxes in 3D.
+ *
+ * Use cases:
+ * - Clearance rules, e.g. a duct that must stay 50mm from a beam.
+ * - Snapping a picked point to the nearest face of a mesh.
+ *
+ * Triangles and boxes are treated as solids, so a point inside a box has a distance of 0.
+ */
+export namespace DistanceUtils {
+    /**
+     * Calculates the minimum distance between a point and a segment.
+     *
+     * @param pt - The point.
+     * @param segment - The segment.
+     * @returns The distance, with `pt0` as `pt` and `pt1` on the segment.
+     */
+    export function getDistanceOfPointAndSegment(pt: Vertex3d, segment: Line): DistanceResult {
+        const d = VectorUtils.subtract(segment.p1, segment.p0);
+        const lengthSquared = VectorUtils.dot(d, d);
+        const t = lengthSquared === 0 ? 0 : clamp01(VectorUtils.dot(VectorUtils.subtract(pt, segment.p0), d) / lengthSquared);
+        const closest = VectorUtils.add(segment.p0, VectorUtils.scale(d, t));
+
+        return {dist: VectorUtils.getDist(pt, closest), pt0: {...pt}, pt1: closest};
+    }
+
+    /**
+     * Calculates the minimum distance between a point and a triangle.
+     *
+     * @param pt - The point.
+     * @param triangle - The triangle.
+     * @param tolerance - Optional tolerance context. Triangles with an area below `distance²` are treated as their edges.
+     * @returns The distance, with `pt0` as `pt` and `pt1` on the triangle.
+     */
+    export function getDistanceOfPointAndTriangle(pt: Vertex3d, triangle: Triangle, tolerance?: Partial<ToleranceContext>): DistanceResult {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const closest = getClosestPointOnTriangle(pt, triangle, tol);
+        return {dist: VectorUtils.getDist(pt, closest), pt0: {...pt}, pt1: closest};
+    }
+
+    /**
+     * Calculates the minimum distance between a segment and a triangle.
+     *
+     * @param segment - The segment.
+     * @param triangle - The triangle.
+     * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+     * @returns The distance, with `pt0` on the segment and `pt1` on the triangle.
+     */
+    export function getDistanceOfSegmentAndTriangle(segment: Line, triangle: Triangle, tolerance?: Partial<ToleranceContext>): DistanceResult {
+        const tol = ToleranceUtils.resolve(tolerance);
+
+        const hit = getSegmentTriangleIntersection(segment, triangle, tol);
+        if (hit) return {dist: 0, pt0: hit, pt1: {...hit}};
+
+        // Otherwise the closest pair lies on an edge of the triangle or an end point of the segment.
+        const candidates: DistanceResult[] = getEdges(triangle).map(edge => {
+            const closest = LineEvaluation.getClosestPointsOfSegments(segment, edge, tol);
+            return {dist: closest.dist, pt0: closest.pt0, pt1: closest.pt1};
+        });
+        for (const end of [segment.p0, segment.p1]) {
+            candidates.push(getDistanceOfPointAndTriangle(end, triangle, tol));
+        }
+
+        return getMinimum(candidates);
+    }
+
+    /**
+     * Calculates the minimum distance between two triangles.
+     *
+     * @param triangle0 - The first triangle.
+     * @param triangle1 - The second triangle.
+     * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+     * @returns The distance, with `pt0` on `triangle0` and `pt1` on `triangle1`.
+     */
+    export function getDistanceOfTriangles(triangle0: Triangle, triangle1: Triangle, tolerance?: Partial<ToleranceContext>): DistanceResult {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const edges0 = getEdges(triangle0);
+        const edges1 = getEdges(triangle1);
+
+        // Intersecting triangles always have an edge of one piercing the other.
+        for (const edge of edges0) {
+            const hit = getSegmentTriangleIntersection(edge, triangle1, tol);
+            if (hit) return {dist: 0, pt0: hit, pt1: {...hit}};
+        }
+        for (const edge of edges1) {
+            const hit = getSegmentTriangleIntersection(edge, triangle0, tol);
+            if (hit) return {dist: 0, pt0: hit, pt1: {...hit}};
+        }
+
+        const candidates: DistanceResult[] = [];
+        for (const edge0 of edges0) {
+            for (const edge1 of edges1) {
+                const closest = LineEvaluation.getClosestPointsOfSegments(edge0, edge1, tol);
+                candidates.push({dist: closest.dist, pt0: closest.pt0, pt1: closest.pt1});
+            }
+        }
+        for (const pt of [triangle0.p0, triangle0.p1, triangle0.p2]) {
+            candidates.push(getDistanceOfPointAndTriangle(pt, triangle1, tol));
+        }
+        for (const pt of [triangle1.p0, triangle1.p1, triangle1.p2]) {
+            candidates.push(swap(getDistanceOfPointAndTriangle(pt, triangle0, tol)));
+        }
+
+        return getMinimum(candidates);
+    }
+
+    /**
+     * Calculates the minimum distance between a point and a 3D bounding box.
+     *
+     * @param pt - The point.
+     * @param box - The bounding box. Its normal axis is `uAxis × vAxis`.
+     * @param tolerance - Optional tolerance context. Not used, as the closest point on a box is found exactly.
+     * @returns The distance, with `pt0` as `pt` and `pt1` on the box. 0 when the point is inside the box.
+     * @throws If an axis of the box is a zero vector.
+     */
+    export function getDistanceOfPointAndBox(pt: Vertex3d, box: BoundingBox3d, tolerance?: Partial<ToleranceContext>): DistanceResult {
+        const closest = getClosestPointOnBox(pt, getBoxFrame(box));
+        return {dist: VectorUtils.getDist(pt, closest), pt0: {...pt}, pt1: closest};
+    }
+
+    /**
+     * Calculates the minimum distance between two 3D bounding boxes.
+     *
+     * @param box0 - The first bounding box.
+     * @param box1 - The second bounding box.
+     * @param tolerance - Optional tolerance context. Passed on to the closest points of the box edges.
+     * @returns The distance, with `pt0` on `box0` and `pt1` on `box1`. 0 when the boxes intersect.
+     * @throws If an axis of either box is a zero vector.
+     */
+    export function getDistanceOfBoxes(box0: BoundingBox3d, box1: BoundingBox3d, tolerance?: Partial<ToleranceContext>): DistanceResult {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const frame0 = getBoxFrame(box0);
+        const frame1 = getBoxFrame(box1);
+        const corners0 = getBoxCorners(frame0);
+        const corners1 = getBoxCorners(frame1);
+        const edges0 = getBoxEdges(corners0);
+        const edges1 = getBoxEdges(corners1);
+
+        // Intersecting boxes always have an edge of one passing through the other.
+        for (const edge of edges0) {
+            const hit = clipSegmentByBox(edge, frame1);
+            if (hit) return {dist: 0, pt0: hit, pt1: {...hit}};
+        }
+        for (const edge of edges1) {
+            const hit = clipSegmentByBox(edge, frame0);
+            if (hit) return {dist: 0, pt0: hit, pt1: {...hit}};
+        }
+
+        // Separated boxes are closest at a corner against the other box, or between two edges.
+        const candidates: DistanceResult[] = [];
+        for (const corner of corners0) {
+            const closest = getClosestPointOnBox(corner, frame1);
+            candidates.push({dist: VectorUtils.getDist(corner, closest), pt0: corner, pt1: closest});
+        }
+        for (const corner of corners1) {
+            const closest = getClosestPointOnBox(corner, frame0);
+            candidates.push({dist: VectorUtils.getDist(corner, closest), pt0: closest, pt1: corner});
+        }
+        for (const edge0 of edges0) {
+            for (const edge1 of edges1) {
+                const closest = LineEvaluation.getClosestPointsOfSegments(edge0, edge1, tol);
+                candidates.push({dist: closest.dist, pt0: closest.pt0, pt1: closest.pt1});
+            }
+        }
+
+        return getMinimum(candidates);
+    }
+
+    /**
+     * Closest point on a triangle by its Voronoi regions (Ericson, Real-Time Collision Detection 5.1.5).
+     */
+    function getClosestPointOnTriangle(pt: Vertex3d, triangle: Triangle, tol: Readonly<ToleranceContext>): Vertex3d {
+        const {p0: a, p1: b, p2: c} = triangle;
+        const ab = VectorUtils.subtract(b, a);
+        const ac = VectorUtils.subtract(c, a);
+
+        if (VectorUtils.getSize(VectorUtils.cross(ab, ac)) <= tol.distance * tol.distance) {
+            return getMinimum(getEdges(triangle).map(edge => getDistanceOfPointAndSegment(pt, edge))).pt1;
+        }
+
+        const ap = VectorUtils.subtract(pt, a);
+        const d1 = VectorUtils.dot(ab, ap);
+        const d2 = VectorUtils.dot(ac, ap);
+        if (d1 <= 0 && d2 <= 0) return {...a};
+
+        const bp = VectorUtils.subtract(pt, b);
+        const d3 = VectorUtils.dot(ab, bp);
+        const d4 = VectorUtils.dot(ac, bp);
+        if (d3 >= 0 && d4 <= d3) return {...b};
+
+        const vc = d1 * d4 - d3 * d2;
+        if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+            return VectorUtils.add(a, VectorUtils.scale(ab, d1 / (d1 - d3)));
+        }
+
+        const cp = VectorUtils.subtract(pt, c);
+        const d5 = VectorUtils.dot(ab, cp);
+        const d6 = VectorUtils.dot(ac, cp);
+        if (d6 >= 0 && d5 <= d6) return {...c};
+
+        const vb = d5 * d2 - d1 * d6;
+        if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+            return VectorUtils.add(a, VectorUtils.scale(ac, d2 / (d2 - d6)));
+        }
+
+        const va = d3 * d6 - d5 * d4;
+        if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+            const w = (d4 - d3) / ((d4 - d3) + (d5 - d6));
+            return VectorUtils.add(b, VectorUtils.scale(VectorUtils.subtract(c, b), w));
+        }
+
+        const denom = 1 / (va + vb + vc);
+        const v = vb * denom;
+        const w = vc * denom;
+        return VectorUtils.add(a, VectorUtils.add(VectorUtils.scale(ab, v), VectorUtils.scale(ac, w)));
+    }
+
+    /**
+     * Intersection of a segment with a triangle surface (Möller–Trumbore).
+     * Segments parallel to the triangle are not counted; their closest points are found on the edges.
+     */
+    function getSegmentTriangleIntersection(segment: Line, triangle: Triangle, tol: Readonly<ToleranceContext>): Vertex3d | undefined {
+        const d = VectorUtils.subtract(segment.p1, segment.p0);
+        const e1 = VectorUtils.subtract(triangle.p1, triangle.p0);
+        const e2 = VectorUtils.subtract(triangle.p2, triangle.p0);
+
+        const p = VectorUtils.cross(d, e2);
+        const det = VectorUtils.dot(e1, p);
+        const scale = VectorUtils.getSize(d) * VectorUtils.getSize(VectorUtils.cross(e1, e2));
+        if (Math.abs(det) <= scale * Math.sin(tol.angle)) return;
+
+        const s = VectorUtils.subtract(segment.p0, triangle.p0);
+        const u = VectorUtils.dot(s, p) / det;
+        const q = VectorUtils.cross(s, e1);
+        const v = VectorUtils.dot(d, q) / det;
+        const t = VectorUtils.dot(e2, q) / det;
+
+        const isInside = [u, v, u + v].every(val => val >= -tol.parameter && val <= 1 + tol.parameter);
+        if (!isInside || t < -tol.parameter || t > 1 + tol.parameter) return;
+
+        return VectorUtils.add(segment.p0, VectorUtils.scale(d, clamp01(t)));
+    }
+
+    /**
+     * Gets the unit axes of a box. Its axes are directions, so only zero vectors are rejected,
+     * whatever the distance tolerance of the model.
+     */
+    function getBoxFrame(box: BoundingBox3d): BoxFrame {
+        if (!(VectorUtils.getSize(box.uAxis) > 0) || !(VectorUtils.getSize(box.vAxis) > 0)) {
+            throw new Error("Some axes are zero vector.");
+        }
+
+        const uAxis = VectorUtils.normalize(box.uAxis);
+        const vAxis = VectorUtils.normalize(box.vAxis);
+        const nAxis = VectorUtils.normalize(VectorUtils.cross(uAxis, vAxis));
+        return {anchor: box.anchor, axes: [uAxis, vAxis, nAxis], lengths: [box.length.u, box.length.v, box.length.n]};
+    }
+
+    function getClosestPointOnBox(pt: Vertex3d, frame: BoxFrame): Vertex3d {
+        const local = VectorUtils.subtract(pt, frame.anchor);
+        let result = {...frame.anchor};
+        for (let i = 0; i < 3; i++) {
+            const length = frame.lengths[i];
+            const s = VectorUtils.dot(local, frame.axes[i]);
+            const clamped = Math.min(Math.max(s, Math.min(0, length)), Math.max(0, length));
+            result = VectorUtils.add(result, VectorUtils.scale(frame.axes[i], clamped));
+        }
+        return result;
+    }
+
+    function getBoxCorners(frame: BoxFrame): Vertex3d[] {
+        const corners: Vertex3d[] = [];
+        for (let i = 0; i < 8; i++) {
+            let corner = {...frame.anchor};
+            for (let axis = 0; axis < 3; axis++) {
+                if (i & (1 << axis)) corner = VectorUtils.add(corner, VectorUtils.scale(frame.axes[axis], frame.lengths[axis]));
+            }
+            corners.push(corner);
+        }
+        return corners;
+    }
+
+    /**
+     * Edges between corners differing in a single axis bit, as indexed by `getBoxCorners`.
+     */
+    function getBoxEdges(corners: Vertex3d[]): Line[] {
+        const edges: Line[] = [];
+        for (let i = 0; i < 8; i++) {
+            for (let axis = 0; axis < 3; axis++) {
+                const j = i | (1 << axis);
+                if (j !== i) edges.push({p0: corners[i], p1: corners[j]});
+            }
+        }
+        return edges;
+    }
+
+    /**
+     * Clips a segment by the slabs of a box.
+     *
+     * @returns The first point of the segment inside the box, or `undefined` if it misses the box.
+     */
+    function clipSegmentByBox(segment: Line, frame: BoxFrame): Vertex3d | undefined {
+        const d = VectorUtils.subtract(segment.p1, segment.p0);
+        const local = VectorUtils.subtract(segment.p0, frame.anchor);
+        let tMin = 0;
+        let tMax = 1;
+
+        for (let i = 0; i < 3; i++) {
+            const lo = Math.min(0, frame.lengths[i]);
+            const hi = Math.max(0, frame.lengths[i]);
+            const s = VectorUtils.dot(local, frame.axes[i]);
+            const ds = VectorUtils.dot(d, frame.axes[i]);
+
+            if (ds === 0) {
+                if (s < lo || s > hi) return;
+                continue;
+            }
+
+            const t0 = (lo - s) / ds;
+            const t1 = (hi - s) / ds;
+            tMin = Math.max(tMin, Math.min(t0, t1));
+            tMax = Math.min(tMax, Math.max(t0, t1));
+            if (tMin > tMax) return;
+        }
+
+        return VectorUtils.add(segment.p0, VectorUtils.scale(d, tMin));
+    }
+
+    function getEdges(triangle: Triangle): Line[] {
+        return [
+            {p0: triangle.p0, p1: triangle.p1},
+            {p0: triangle.p1, p1: triangle.p2},
+            {p0: triangle.p2, p1: triangle.p0},
+        ];
+    }
+
+    function getMinimum(candidates: DistanceResult[]): DistanceResult {
+        return candidates.reduce((min, candidate) => candidate.dist < min.dist ? candidate : min);
+    }
+
+    function swap(result: DistanceResult): DistanceResult {
+        return {dist: result.dist, pt0: result.pt1, pt1: result.pt0};
+    }
+
+    function clamp01(t: number): number {
+        return t < 0 ? 0 : (t > 1 ? 1 : t);
+    }
+}
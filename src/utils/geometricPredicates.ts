@@ -0,0 +1,348 @@
+import { Vertex2d, Vertex3d } from "../models/types/basicGeometries";
+
+/**
+ * Expansion : a list of floating-point components ordered by increasing magnitude,
+ * whose exact sum is the represented value. Components never overlap and zeros are removed.
+ */
+type Expansion = number[];
+
+// Half of the machine epsilon, the largest relative error of a single rounding.
+const EPSILON = Math.pow(2, -53);
+// Splits a double into two halves of 26 bits for the exact product of Dekker.
+const SPLITTER = Math.pow(2, 27) + 1;
+
+// Error bounds of the floating-point filters, from Shewchuk's "Adaptive Precision Floating-Point Arithmetic
+// and Fast Robust Geometric Predicates". A filtered result larger than its bound has the correct sign.
+const CCW_ERRBOUND = (3 + 16 * EPSILON) * EPSILON;
+const O3D_ERRBOUND = (7 + 56 * EPSILON) * EPSILON;
+const ICC_ERRBOUND = (10 + 96 * EPSILON) * EPSILON;
+const ISP_ERRBOUND = (16 + 224 * EPSILON) * EPSILON;
+
+/**
+ * Robust geometric predicates with adaptive precision.
+ *
+ * Every predicate first evaluates its determinant in plain floating-point arithmetic together with
+ * a bound of the rounding error. Only when the result is too close to zero to trust its sign,
+ * the determinant is evaluated again with exact expansion arithmetic. The sign of the result is
+ * therefore always correct, and exactly zero for degenerate input, while common cases stay as fast
+ * as a plain cross product.
+ *
+ * The returned magnitudes are approximations; only their signs are meaningful.
+ *
+ * @example
+ * ```typescript
+ * // Nearly collinear survey points
+ * const side = GeometricPredicates.orient2d(p0, p1, pt);
+ * if (side > 0) {
+ *     // pt is on the left of p0 → p1
+ * }
+ * ```
+ */
+export namespace GeometricPredicates {
+    /**
+     * Determines the orientation of three points in the XY plane.
+     * The `z` coordinates of `Vertex3d` inputs are ignored.
+     *
+     * @param a - The first point.
+     * @param b - The second point.
+     * @param c - The point to test.
+     * @returns A positive value if `a`, `b`, `c` are in counter-clockwise order (`c` is on the left of `a → b`),
+     *          a negative value if clockwise, and 0 if they are collinear.
+     */
+    export function orient2d(a: Vertex2d, b: Vertex2d, c: Vertex2d): number {
+        const detLeft = (a.x - c.x) * (b.y - c.y);
+        const detRight = (a.y - c.y) * (b.x - c.x);
+        const det = detLeft - detRight;
+
+        let detSum: number;
+        if (detLeft > 0) {
+            if (detRight <= 0) return det;
+            detSum = detLeft + detRight;
+        } else if (detLeft < 0) {
+            if (detRight >= 0) return det;
+            detSum = -detLeft - detRight;
+        } else {
+            return det;
+        }
+
+        if (Math.abs(det) >= CCW_ERRBOUND * detSum) return det;
+        return orient2dExact(a, b, c);
+    }
+
+    /**
+     * Determines on which side of the plane through `a`, `b` and `c` the point `d` lies.
+     *
+     * @param a - The first point of the plane.
+     * @param b - The second point of the plane.
+     * @param c - The third point of the plane.
+     * @param d - The point to test.
+     * @returns A positive value if `d` lies below the plane, where "above" is the side from which `a`, `b`, `c`
+     *          appear counter-clockwise; a negative value if above, and 0 if the four points are coplanar.
+     */
+    export function orient3d(a: Vertex3d, b: Vertex3d, c: Vertex3d, d: Vertex3d): number {
+        const adx = a.x - d.x, ady = a.y - d.y, adz = a.z - d.z;
+        const bdx = b.x - d.x, bdy = b.y - d.y, bdz = b.z - d.z;
+        const cdx = c.x - d.x, cdy = c.y - d.y, cdz = c.z - d.z;
+
+        const bdxcdy = bdx * cdy, cdxbdy = cdx * bdy;
+        const cdxady = cdx * ady, adxcdy = adx * cdy;
+        const adxbdy = adx * bdy, bdxady = bdx * ady;
+
+        const det = adz * (bdxcdy - cdxbdy) + bdz * (cdxady - adxcdy) + cdz * (adxbdy - bdxady);
+        const permanent =
+            (Math.abs(bdxcdy) + Math.abs(cdxbdy)) * Math.abs(adz) +
+            (Math.abs(cdxady) + Math.abs(adxcdy)) * Math.abs(bdz) +
+            (Math.abs(adxbdy) + Math.abs(bdxady)) * Math.abs(cdz);
+
+        if (Math.abs(det) > O3D_ERRBOUND * permanent) return det;
+        return orient3dExact(a, b, c, d);
+    }
+
+    /**
+     * Determines whether `d` lies inside the circle passing `a`, `b` and `c` in the XY plane.
+     * The `z` coordinates of `Vertex3d` inputs are ignored.
+     *
+     * @param a - The first point on the circle.
+     * @param b - The second point on the circle.
+     * @param c - The third point on the circle.
+     * @param d - The point to test.
+     * @returns A positive value if `d` is inside the circle, a negative value if outside, and 0 if the four points
+     *          are cocircular. The sign is reversed when `a`, `b`, `c` are in clockwise order.
+     */
+    export function incircle(a: Vertex2d, b: Vertex2d, c: Vertex2d, d: Vertex2d): number {
+        const adx = a.x - d.x, ady = a.y - d.y;
+        const bdx = b.x - d.x, bdy = b.y - d.y;
+        const cdx = c.x - d.x, cdy = c.y - d.y;
+
+        const bdxcdy = bdx * cdy, cdxbdy = cdx * bdy;
+        const cdxady = cdx * ady, adxcdy = adx * cdy;
+        const adxbdy = adx * bdy, bdxady = bdx * ady;
+
+        const aLift = adx * adx + ady * ady;
+        const bLift = bdx * bdx + bdy * bdy;
+        const cLift = cdx * cdx + cdy * cdy;
+
+        const det = aLift * (bdxcdy - cdxbdy) + bLift * (cdxady - adxcdy) + cLift * (adxbdy - bdxady);
+        const permanent =
+            (Math.abs(bdxcdy) + Math.abs(cdxbdy)) * aLift +
+            (Math.abs(cdxady) + Math.abs(adxcdy)) * bLift +
+            (Math.abs(adxbdy) + Math.abs(bdxady)) * cLift;
+
+        if (Math.abs(det) > ICC_ERRBOUND * permanent) return det;
+        return incircleExact(a, b, c, d);
+    }
+
+    /**
+     * Determines whether `e` lies inside the sphere passing `a`, `b`, `c` and `d`.
+     *
+     * @param a - The first point on the sphere.
+     * @param b - The second point on the sphere.
+     * @param c - The third point on the sphere.
+     * @param d - The fourth point on the sphere.
+     * @param e - The point to test.
+     * @returns A positive value if `e` is inside the sphere, a negative value if outside, and 0 if the five points
+     *          are cospherical. The sign is reversed when `orient3d(a, b, c, d)` is negative.
+     */
+    export function insphere(a: Vertex3d, b: Vertex3d, c: Vertex3d, d: Vertex3d, e: Vertex3d): number {
+        const aex = a.x - e.x, aey = a.y - e.y, aez = a.z - e.z;
+        const bex = b.x - e.x, bey = b.y - e.y, bez = b.z - e.z;
+        const cex = c.x - e.x, cey = c.y - e.y, cez = c.z - e.z;
+        const dex = d.x - e.x, dey = d.y - e.y, dez = d.z - e.z;
+
+        const aexbey = aex * bey, bexaey = bex * aey;
+        const bexcey = bex * cey, cexbey = cex * bey;
+        const cexdey = cex * dey, dexcey = dex * cey;
+        const dexaey = dex * aey, aexdey = aex * dey;
+        const aexcey = aex * cey, cexaey = cex * aey;
+        const bexdey = bex * dey, dexbey = dex * bey;
+
+        const ab = aexbey - bexaey;
+        const bc = bexcey - cexbey;
+        const cd = cexdey - dexcey;
+        const da = dexaey - aexdey;
+        const ac = aexcey - cexaey;
+        const bd = bexdey - dexbey;
+
+        const abc = aez * bc - bez * ac + cez * ab;
+        const bcd = bez * cd - cez * bd + dez * bc;
+        const cda = cez * da + dez * ac + aez * cd;
+        const dab = dez * ab + aez * bd + bez * da;
+
+        const aLift = aex * aex + aey * aey + aez * aez;
+        const bLift = bex * bex + bey * bey + bez * bez;
+        const cLift = cex * cex + cey * cey + cez * cez;
+        const dLift = dex * dex + dey * dey + dez * dez;
+
+        const det = (dLift * abc - cLift * dab) + (bLift * cda - aLift * bcd);
+
+        const aezAbs = Math.abs(aez), bezAbs = Math.abs(bez), cezAbs = Math.abs(cez), dezAbs = Math.abs(dez);
+        const abAbs = Math.abs(aexbey) + Math.abs(bexaey);
+        const bcAbs = Math.abs(bexcey) + Math.abs(cexbey);
+        const cdAbs = Math.abs(cexdey) + Math.abs(dexcey);
+        const daAbs = Math.abs(dexaey) + Math.abs(aexdey);
+        const acAbs = Math.abs(aexcey) + Math.abs(cexaey);
+        const bdAbs = Math.abs(bexdey) + Math.abs(dexbey);
+        const permanent =
+            (cdAbs * bezAbs + bdAbs * cezAbs + bcAbs * dezAbs) * aLift +
+            (daAbs * cezAbs + acAbs * dezAbs + cdAbs * aezAbs) * bLift +
+            (abAbs * dezAbs + bdAbs * aezAbs + daAbs * bezAbs) * cLift +
+            (bcAbs * aezAbs + acAbs * bezAbs + abAbs * cezAbs) * dLift;
+
+        if (Math.abs(det) > ISP_ERRBOUND * permanent) return det;
+        return insphereExact(a, b, c, d, e);
+    }
+
+    //#region Exact evaluations
+    function orient2dExact(a: Vertex2d, b: Vertex2d, c: Vertex2d): number {
+        const acx = twoDiff(a.x, c.x), acy = twoDiff(a.y, c.y);
+        const bcx = twoDiff(b.x, c.x), bcy = twoDiff(b.y, c.y);
+
+        return estimate(cross2dExact(acx, acy, bcx, bcy));
+    }
+
+    function orient3dExact(a: Vertex3d, b: Vertex3d, c: Vertex3d, d: Vertex3d): number {
+        const adx = twoDiff(a.x, d.x), ady = twoDiff(a.y, d.y), adz = twoDiff(a.z, d.z);
+        const bdx = twoDiff(b.x, d.x), bdy = twoDiff(b.y, d.y), bdz = twoDiff(b.z, d.z);
+        const cdx = twoDiff(c.x, d.x), cdy = twoDiff(c.y, d.y), cdz = twoDiff(c.z, d.z);
+
+        const det = sum(
+            multiply(adz, cross2dExact(bdx, bdy, cdx, cdy)),
+            multiply(bdz, cross2dExact(cdx, cdy, adx, ady)),
+            multiply(cdz, cross2dExact(adx, ady, bdx, bdy)),
+        );
+        return estimate(det);
+    }
+
+    function incircleExact(a: Vertex2d, b: Vertex2d, c: Vertex2d, d: Vertex2d): number {
+        const adx = twoDiff(a.x, d.x), ady = twoDiff(a.y, d.y);
+        const bdx = twoDiff(b.x, d.x), bdy = twoDiff(b.y, d.y);
+        const cdx = twoDiff(c.x, d.x), cdy = twoDiff(c.y, d.y);
+
+        const det = sum(
+            multiply(lift(adx, ady), cross2dExact(bdx, bdy, cdx, cdy)),
+            multiply(lift(bdx, bdy), cross2dExact(cdx, cdy, adx, ady)),
+            multiply(lift(cdx, cdy), cross2dExact(adx, ady, bdx, bdy)),
+        );
+        return estimate(det);
+    }
+
+    function insphereExact(a: Vertex3d, b: Vertex3d, c: Vertex3d, d: Vertex3d, e: Vertex3d): number {
+        const aex = twoDiff(a.x, e.x), aey = twoDiff(a.y, e.y), aez = twoDiff(a.z, e.z);
+        const bex = twoDiff(b.x, e.x), bey = twoDiff(b.y, e.y), bez = twoDiff(b.z, e.z);
+        const cex = twoDiff(c.x, e.x), cey = twoDiff(c.y, e.y), cez = twoDiff(c.z, e.z);
+        const dex = twoDiff(d.x, e.x), dey = twoDiff(d.y, e.y), dez = twoDiff(d.z, e.z);
+
+        const ab = cross2dExact(aex, aey, bex, bey);
+        const bc = cross2dExact(bex, bey, cex, cey);
+        const cd = cross2dExact(cex, cey, dex, dey);
+        const da = cross2dExact(dex, dey, aex, aey);
+        const ac = cross2dExact(aex, aey, cex, cey);
+        const bd = cross2dExact(bex, bey, dex, dey);
+
+        const abc = sum(multiply(aez, bc), negate(multiply(bez, ac)), multiply(cez, ab));
+        const bcd = sum(multiply(bez, cd), negate(multiply(cez, bd)), multiply(dez, bc));
+        const cda = sum(multiply(cez, da), multiply(dez, ac), multiply(aez, cd));
+        const dab = sum(multiply(dez, ab), multiply(aez, bd), multiply(bez, da));
+
+        const det = sum(
+            multiply(lift(dex, dey, dez), abc),
+            negate(multiply(lift(cex, cey, cez), dab)),
+            multiply(lift(bex, bey, bez), cda),
+            negate(multiply(lift(aex, aey, aez), bcd)),
+        );
+        return estimate(det);
+    }
+
+    function cross2dExact(ax: Expansion, ay: Expansion, bx: Expansion, by: Expansion): Expansion {
+        return sum(multiply(ax, by), negate(multiply(ay, bx)));
+    }
+
+    function lift(...components: Expansion[]): Expansion {
+        return sum(...components.map(e => multiply(e, e)));
+    }
+    //#endregion
+
+    //#region Expansion arithmetic
+    function twoSum(a: number, b: number): Expansion {
+        return compress(twoSumPair(a, b));
+    }
+
+    function twoDiff(a: number, b: number): Expansion {
+        return twoSum(a, -b);
+    }
+
+    function split(a: number): [number, number] {
+        const c = SPLITTER * a;
+        const high = c - (c - a);
+        return [high, a - high];
+    }
+
+    function twoProduct(a: number, b: number): Expansion {
+        const x = a * b;
+        const [aHigh, aLow] = split(a);
+        const [bHigh, bLow] = split(b);
+        const error = x - aHigh * bHigh - aLow * bHigh - aHigh * bLow;
+        return compress([aLow * bLow - error, x]);
+    }
+
+    /**
+     * Adds a number to an expansion exactly (Grow-Expansion).
+     */
+    function grow(e: Expansion, b: number): Expansion {
+        const out: Expansion = [];
+        let q = b;
+        for (const component of e) {
+            const [low, high] = twoSumPair(q, component);
+            if (low !== 0) out.push(low);
+            q = high;
+        }
+        if (q !== 0) out.push(q);
+        return out;
+    }
+
+    function sum(...expansions: Expansion[]): Expansion {
+        let out: Expansion = [];
+        for (const e of expansions) {
+            for (const component of e) out = grow(out, component);
+        }
+        return out;
+    }
+
+    /**
+     * Multiplies an expansion by a number exactly (Scale-Expansion).
+     */
+    function scale(e: Expansion, b: number): Expansion {
+        let out: Expansion = [];
+        for (const component of e) {
+            for (const part of twoProduct(component, b)) out = grow(out, part);
+        }
+        return out;
+    }
+
+    function multiply(e: Expansion, f: Expansion): Expansion {
+        return sum(...f.map(component => scale(e, component)));
+    }
+
+    function negate(e: Expansion): Expansion {
+        return e.map(component => -component);
+    }
+
+    /**
+     * Approximates the value of an expansion. Its sign is the sign of the largest component.
+     */
+    function estimate(e: Expansion): number {
+        return e.reduce((acc, component) => acc + component, 0);
+    }
+
+    function twoSumPair(a: number, b: number): [number, number] {
+        const x = a + b;
+        const bVirtual = x - a;
+        const aVirtual = x - bVirtual;
+        return [(a - aVirtual) + (b - bVirtual), x];
+    }
+
+    function compress(e: Expansion): Expansion {
+        return e.filter(component => component !== 0);
+    }
+    //#endregion
+}
@@ -1,7 +1,60 @@
-import { Line, Vertex3d } from "../models/types/basicGeometries";
+import { InfiniteLine3d } from "../models/basic/infiniteLine3d";
+import { Ray3d } from "../models/basic/ray3d";
+import { Line, Line2d, Vertex2d, Vertex3d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { ToleranceUtils } from "./toleranceUtils";
+import { Vector2Utils } from "./vector2Utils";
 import { VectorUtils } from "./vectorUtils";
 
-const TOLERANCE_LINE_EVALUATION = 1e-6;
+/**
+ * Any straight geometry in 3D with a parametric form `p0 + (p1 - p0) * t`.
+ * The parameter domain is 0 ~ 1 for a `Line` segment, 0 ~ ∞ for a `Ray3d` and unbounded for an `InfiniteLine3d`.
+ */
+export type LinearGeometry3d = Line | Ray3d | InfiniteLine3d;
+
+/**
+ * Result of a closest point query between two lines or segments.
+ *
+ * @property pt0 - The closest point on the first line.
+ * @property pt1 - The closest point on the second line.
+ * @property t0 - The parameter of `pt0` on the first line (0 at `p0`, 1 at `p1`).
+ * @property t1 - The parameter of `pt1` on the second line (0 at `p0`, 1 at `p1`).
+ * @property dist - The distance between `pt0` and `pt1`.
+ * @property isParallel - `true` if the lines are parallel. The closest points are then not unique,
+ *                        and the pair starting nearest to `p0` of the first line is returned.
+ * @property isDegenerate - `true` if either line is shorter than the distance tolerance and is treated as a point.
+ */
+export type ClosestPointsResult = {
+    pt0: Vertex3d,
+    pt1: Vertex3d,
+    t0: number,
+    t1: number,
+    dist: number,
+    isParallel: boolean,
+    isDegenerate: boolean,
+}
+
+/**
+ * Result of an intersection between two segments.
+ *
+ * - `none` : The segments do not meet.
+ * - `point` : The segments meet at `pt`, at parameter `t0` on the first segment and `t1` on the second one.
+ * - `overlap` : The segments are collinear and share `segment`. `interval0` and `interval1` are the parameters
+ *   of `segment.p0` and `segment.p1` on each input. `interval0` is always increasing, and `interval1` is
+ *   decreasing when the segments run in opposite directions.
+ */
+export type SegmentIntersection =
+    | {type: 'none'}
+    | {type: 'point', pt: Vertex3d, t0: number, t1: number}
+    | {type: 'overlap', segment: Line, interval0: [number, number], interval1: [number, number]};
+
+/**
+ * Result of an intersection between two 2D segments. See {@link SegmentIntersection}.
+ */
+export type SegmentIntersection2d =
+    | {type: 'none'}
+    | {type: 'point', pt: Vertex2d, t0: number, t1: number}
+    | {type: 'overlap', segment: Line2d, interval0: [number, number], interval1: [number, number]};
 
 /**
  * Namespace containing utility functions for evaluating and manipulating lines in 3D space.
@@ -12,6 +65,9 @@ const TOLERANCE_LINE_EVALUATION = 1e-6;
  * - Evaluating the parameter of a point on a line.
  * - Finding the foot of a perpendicular from a point to a line or direction.
  * - Calculating the intersection of a line with a plane parallel to the XY plane at a given Z coordinate.
+ * - Finding the closest points between lines and segments in 3D, e.g. for clearance checks of skew pipes.
+ * - Intersecting segments in 2D and 3D, including collinear overlaps such as shared wall edges.
+ * - Evaluating segments, rays and infinite lines within their own parameter domains.
  * 
  */
 export namespace LineEvaluation {
@@ -33,15 +89,59 @@ export namespace LineEvaluation {
         return point;
     }
 
+    /**
+     * Gets the parameter domain of a linear geometry.
+     * @param geometry Segment, ray or infinite line.
+     * @returns 0 ~ 1 for `Line`, 0 ~ ∞ for `Ray3d` and -∞ ~ ∞ for `InfiniteLine3d`.
+     */
+    export function getParameterDomain(geometry: LinearGeometry3d): [number, number] {
+        return isParametric(geometry) ? geometry.domain : [0, 1];
+    }
+
+    /**
+     * Gets the points at parameter 0 and 1 of a linear geometry.
+     * Parameters calculated on the result are the same as on the geometry.
+     * @param geometry Segment, ray or infinite line.
+     * @returns The segment itself, or the points `origin` and `origin + direction` of a ray or infinite line.
+     */
+    export function getDefiningLine(geometry: LinearGeometry3d): Line {
+        return isParametric(geometry) ? geometry.toLine() : geometry;
+    }
+
+    function isParametric(geometry: LinearGeometry3d): geometry is Ray3d | InfiniteLine3d {
+        return geometry instanceof Ray3d || geometry instanceof InfiniteLine3d;
+    }
+
     /**
      * Get intersection point from lines. 
      * @param li0 First line of lines.
      * @param li1 Second line of lines.
      * @param fromExtended When it's true, intersection will be calculated including extended lines of li0, li1. Otherwise, only within li0, li1 boundary.
+     * @param tolerance Optional tolerance context. Falls back to the global tolerance.
      * @returns When the intersection exists, result will be true and pt will be that point. Otherwise, result false and message will include the reason of it.
      */
-    export function getIntersection(li0: Line, li1: Line, fromExtended = false): {result: boolean,  pt?: Vertex3d, message?: string} {
-        if(VectorUtils.isParallelLines(li0, li1)) return {result: false, message: "Parallel or same Lines"};
+    export function getIntersection(li0: Line, li1: Line, fromExtended?: boolean, tolerance?: Partial<ToleranceContext>): {result: boolean,  pt?: Vertex3d, message?: string};
+    /**
+     * Get intersection point from segments, rays or infinite lines, each within its own parameter domain.
+     * @param li0 First geometry.
+     * @param li1 Second geometry.
+     * @param tolerance Optional tolerance context. Parameters outside the domains by its `parameter` are still accepted.
+     * @returns When the intersection exists, result will be true and pt will be that point. Otherwise, result false and message will include the reason of it.
+     */
+    export function getIntersection(li0: LinearGeometry3d, li1: LinearGeometry3d, tolerance?: Partial<ToleranceContext>): {result: boolean,  pt?: Vertex3d, message?: string};
+    export function getIntersection(
+        geometry0: LinearGeometry3d,
+        geometry1: LinearGeometry3d,
+        extendedOrTolerance?: boolean | Partial<ToleranceContext>,
+        toleranceArg?: Partial<ToleranceContext>
+    ): {result: boolean,  pt?: Vertex3d, message?: string} {
+        const fromExtended = typeof extendedOrTolerance === 'boolean' && extendedOrTolerance;
+        const tolerance = typeof extendedOrTolerance === 'boolean' ? toleranceArg : extendedOrTolerance;
+        const tol = ToleranceUtils.resolve(tolerance);
+
+        const li0 = getDefiningLine(geometry0);
+        const li1 = getDefiningLine(geometry1);
+        if(VectorUtils.isParallelLines(li0, li1, tol)) return {result: false, message: "Parallel or same Lines"};
 
         // Projection on XY Plane
         const p1p3: Vertex3d = {
@@ -75,7 +175,7 @@ export namespace LineEvaluation {
         });
 
         const det = -(d0PlaneXY.x * d1PlaneXY.y) + (d1PlaneXY.x * d0PlaneXY.y);
-        if (Math.abs(det) < TOLERANCE_LINE_EVALUATION) {
+        if (Math.abs(det) < Math.sin(tol.angle)) {
             return {result: false, message: "Det is zero (parallel lines)"};
         }
 
@@ -115,7 +215,7 @@ export namespace LineEvaluation {
         const ptR = VectorUtils.add(ptLi1EndOnXY, VectorUtils.scale(d1PlaneXY, u));
         
         const dist = VectorUtils.getDist(ptQ, ptR);
-        if(dist > TOLERANCE_LINE_EVALUATION) return {result: false, message: "Each points on XY Plane is not same."};
+        if(dist > tol.distance) return {result: false, message: "Each points on XY Plane is not same."};
 
         // Place ptQ on li0
         const tLi0 = VectorUtils.dot(VectorUtils.subtract(ptQ, ptLi0StartOnXY), d0PlaneXY);
@@ -139,7 +239,7 @@ export namespace LineEvaluation {
             z: li1.p0.z + vLi1*d1.z
         }
 
-        if(VectorUtils.getDist(ptQ2, ptR2) > TOLERANCE_LINE_EVALUATION) return {result: false, message: "Two line's are on skew position."};
+        if(VectorUtils.getDist(ptQ2, ptR2) > tol.distance) return {result: false, message: "Two line's are on skew position."};
 
         if(fromExtended) {
             return {result: true, pt: ptQ2};
@@ -147,8 +247,7 @@ export namespace LineEvaluation {
             const paramPtQ2 = getParameterOnLine(li0.p0, li0.p1, ptQ2);
             const paramPtR2 = getParameterOnLine(li1.p0, li1.p1, ptR2);
 
-            if((-TOLERANCE_LINE_EVALUATION <= paramPtQ2 && paramPtQ2 <= 1 + TOLERANCE_LINE_EVALUATION) && 
-            (-TOLERANCE_LINE_EVALUATION <= paramPtR2 && paramPtR2 <= 1 + TOLERANCE_LINE_EVALUATION)) {
+            if(isInDomain(paramPtQ2, getParameterDomain(geometry0), tol) && isInDomain(paramPtR2, getParameterDomain(geometry1), tol)) {
                 return {result: true, pt: ptQ2};
             } else {
                 return {result: false, message: "One of the points are placed on outside the line's domain."};
@@ -156,6 +255,10 @@ export namespace LineEvaluation {
         }
     }
 
+    function isInDomain(t: number, domain: [number, number], tol: Readonly<ToleranceContext>): boolean {
+        return domain[0] - tol.parameter <= t && t <= domain[1] + tol.parameter;
+    }
+
     /**
      * Evaluate the parameter of given line and point.
      * @param p0 Start point of Line
@@ -182,10 +285,12 @@ export namespace LineEvaluation {
      * Find foot point on line passing, which has direction as given.
      * @param direction Direction of line.
      * @param pt Point to foot on line.
-     * @returns If you set direction as zero vector, it will return origin and param as 0.
+     * @param tolerance Optional tolerance context. Directions shorter than its `distance` are treated as zero vectors.
+     * @returns If you set direction as zero vector, it will return undefined.
      */
-    export function getFootPointOnDirection(direction: Vertex3d, pt: Vertex3d): {pt: Vertex3d, t: number}|undefined {
-        if(VectorUtils.getSize(direction) < TOLERANCE_LINE_EVALUATION) return;
+    export function getFootPointOnDirection(direction: Vertex3d, pt: Vertex3d, tolerance?: Partial<ToleranceContext>): {pt: Vertex3d, t: number}|undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
+        if(VectorUtils.getSize(direction) < tol.distance) return;
 
         const norm = VectorUtils.normalize(direction);
         const dSize = VectorUtils.getSize(norm);
@@ -197,13 +302,21 @@ export namespace LineEvaluation {
 
     /**
      * Find foot point on line.
-     * @param line Line passing two points.
+     * @param geometry Line passing two points, which is extended to both sides, or a ray or an infinite line.
      * @param pt Point to foot on line.
-     * @returns If you set each point of the line which has almost same coordinate each other, it will return origin and param as 0.
+     * @param tolerance Optional tolerance context. Lines shorter than its `distance` are treated as points,
+     *                  and parameters behind the origin of a ray by its `parameter` are still accepted.
+     *                  The direction of a ray or an infinite line may have any length.
+     * @returns If you set each point of the line which has almost same coordinate each other, it will return undefined.
+     *          For a ray, it also returns undefined when the foot point is behind its origin.
      */
-    export function getFootPointOnLine(line: Line, pt: Vertex3d): {pt: Vertex3d, t: number}|undefined {
+    export function getFootPointOnLine(geometry: LinearGeometry3d, pt: Vertex3d, tolerance?: Partial<ToleranceContext>): {pt: Vertex3d, t: number}|undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const line = getDefiningLine(geometry);
         const direction = VectorUtils.subtract(line.p1, line.p0);
-        if(VectorUtils.getSize(direction) < TOLERANCE_LINE_EVALUATION) return;
+        // The direction of a ray or an infinite line is not a length, so only a zero vector is rejected.
+        const size = VectorUtils.getSize(direction);
+        if(isParametric(geometry) ? size === 0 : size < tol.distance) return;
         
         const anchor = line.p0;
         const ptMoved = VectorUtils.subtract(pt, anchor);
@@ -214,6 +327,7 @@ export namespace LineEvaluation {
 
         const dot = VectorUtils.dot(norm, ptMoved);
         const t = dot / VectorUtils.getSize(direction);
+        if(geometry instanceof Ray3d && !isInDomain(t, geometry.domain, tol)) return;
         
         const ptOnMovedLine = VectorUtils.scale(norm, dot);
         const ptFooting = VectorUtils.add(ptOnMovedLine, anchor);
@@ -227,16 +341,255 @@ export namespace LineEvaluation {
      * @param p0 - The starting vertex of the line segment.
      * @param p1 - The ending vertex of the line segment.
      * @param z - The Z coordinate of the plane to intersect with.
+     * @param tolerance - Optional tolerance context. Segments whose Z difference is under its `distance` are treated as parallel.
      * @returns The intersection vertex on the plane at Z, or `undefined` if the line is parallel to the plane.
      */
-    export function getIntersectionOnPlaneZ(p0: Vertex3d, p1: Vertex3d, z: number): Vertex3d|undefined {
+    export function getIntersectionOnPlaneZ(p0: Vertex3d, p1: Vertex3d, z: number, tolerance?: Partial<ToleranceContext>): Vertex3d|undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
         const dx = p1.x - p0.x;
         const dy = p1.x - p0.x;
         const dz = p1.z - p0.z;
-        if(dz === 0) return;
+        if(Math.abs(dz) < tol.distance) return;
 
         const x = p0.x + (dx / dz) * (z - p0.z);
         const y = p0.y + (dy / dz) * (z - p0.z);
         return {x: x, y: y, z: z};
     }
-}
\ No newline at end of file
+
+    /**
+     * Finds the closest points between two infinite lines in 3D.
+     *
+     * @param li0 - The first line, extended infinitely in both directions.
+     * @param li1 - The second line, extended infinitely in both directions.
+     * @param tolerance - Optional tolerance context. Its `angle` decides parallel lines and its `distance` degenerate lines.
+     * @returns The closest points, their parameters and distance. See {@link ClosestPointsResult}.
+     */
+    export function getClosestPointsOfLines(li0: Line, li1: Line, tolerance?: Partial<ToleranceContext>): ClosestPointsResult {
+        return getClosestPoints(li0, li1, false, false, ToleranceUtils.resolve(tolerance));
+    }
+
+    /**
+     * Finds the closest points between an infinite line and a segment in 3D.
+     *
+     * @param line - The line, extended infinitely in both directions.
+     * @param segment - The segment between `p0` and `p1`.
+     * @param tolerance - Optional tolerance context. Its `angle` decides parallel lines and its `distance` degenerate lines.
+     * @returns The closest points, with `pt0` on the line and `pt1` on the segment (`t1` in 0 ~ 1).
+     */
+    export function getClosestPointsOfLineAndSegment(line: Line, segment: Line, tolerance?: Partial<ToleranceContext>): ClosestPointsResult {
+        return getClosestPoints(line, segment, false, true, ToleranceUtils.resolve(tolerance));
+    }
+
+    /**
+     * Finds the closest points between two segments in 3D.
+     *
+     * @param seg0 - The first segment.
+     * @param seg1 - The second segment.
+     * @param tolerance - Optional tolerance context. Its `angle` decides parallel segments and its `distance` degenerate segments.
+     * @returns The closest points, with both parameters in 0 ~ 1.
+     */
+    export function getClosestPointsOfSegments(seg0: Line, seg1: Line, tolerance?: Partial<ToleranceContext>): ClosestPointsResult {
+        return getClosestPoints(seg0, seg1, true, true, ToleranceUtils.resolve(tolerance));
+    }
+
+    /**
+     * Calculates the intersection of two segments in 3D, including collinear overlaps.
+     *
+     * @param seg0 - The first segment.
+     * @param seg1 - The second segment.
+     * @param tolerance - Optional tolerance context. Segments closer than its `distance` meet,
+     *                    and segments within its `angle` are tested for collinear overlap.
+     * @returns The intersection as `none`, `point` or `overlap`. See {@link SegmentIntersection}.
+     */
+    export function getSegmentIntersection(seg0: Line, seg1: Line, tolerance?: Partial<ToleranceContext>): SegmentIntersection {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const closest = getClosestPoints(seg0, seg1, true, true, tol);
+        if (closest.dist > tol.distance) return {type: 'none'};
+        if (!closest.isParallel || closest.isDegenerate) {
+            return {type: 'point', pt: closest.pt0, t0: closest.t0, t1: closest.t1};
+        }
+
+        // Parallel and touching : the segments are collinear.
+        const d0 = VectorUtils.subtract(seg0.p1, seg0.p0);
+        const d1 = VectorUtils.subtract(seg1.p1, seg1.p0);
+        const length0 = VectorUtils.getSize(d0);
+        const u0 = VectorUtils.dot(VectorUtils.subtract(seg1.p0, seg0.p0), d0) / (length0 * length0);
+        const u1 = VectorUtils.dot(VectorUtils.subtract(seg1.p1, seg0.p0), d0) / (length0 * length0);
+
+        const interval = getCollinearInterval(u0, u1, length0, tol);
+        if (!interval) return {type: 'none'};
+
+        const pt0 = VectorUtils.add(seg0.p0, VectorUtils.scale(d0, interval[0]));
+        const pt1 = VectorUtils.add(seg0.p0, VectorUtils.scale(d0, interval[1]));
+        const length1Squared = VectorUtils.dot(d1, d1);
+        const onSeg1 = (pt: Vertex3d) => VectorUtils.dot(VectorUtils.subtract(pt, seg1.p0), d1) / length1Squared;
+
+        if (interval[0] === interval[1]) {
+            return {type: 'point', pt: pt0, t0: interval[0], t1: clamp01(onSeg1(pt0))};
+        }
+
+        return {
+            type: 'overlap',
+            segment: {p0: pt0, p1: pt1},
+            interval0: interval,
+            interval1: [clamp01(onSeg1(pt0)), clamp01(onSeg1(pt1))],
+        };
+    }
+
+    /**
+     * Calculates the intersection of two segments in 2D, including collinear overlaps.
+     *
+     * @param seg0 - The first segment.
+     * @param seg1 - The second segment.
+     * @param tolerance - Optional tolerance context. Segments closer than its `distance` meet,
+     *                    and segments within its `angle` are tested for collinear overlap.
+     * @returns The intersection as `none`, `point` or `overlap`. See {@link SegmentIntersection2d}.
+     */
+    export function getSegmentIntersection2d(seg0: Line2d, seg1: Line2d, tolerance?: Partial<ToleranceContext>): SegmentIntersection2d {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const d0 = Vector2Utils.subtract(seg0.p1, seg0.p0);
+        const d1 = Vector2Utils.subtract(seg1.p1, seg1.p0);
+        const r = Vector2Utils.subtract(seg1.p0, seg0.p0);
+        const length0 = Vector2Utils.getSize(d0);
+        const length1 = Vector2Utils.getSize(d1);
+
+        if (length0 < tol.distance || length1 < tol.distance) {
+            return getPointSegmentIntersection2d(seg0, seg1, length0 < tol.distance, tol);
+        }
+
+        const denom = Vector2Utils.perpDot(d0, d1);
+        if (Math.abs(denom) > length0 * length1 * Math.sin(tol.angle)) {
+            const t0 = Vector2Utils.perpDot(r, d1) / denom;
+            const t1 = Vector2Utils.perpDot(r, d0) / denom;
+
+            // Accept parameters just outside the domain by the distance tolerance.
+            const margin0 = tol.distance / length0;
+            const margin1 = tol.distance / length1;
+            if (t0 < -margin0 || t0 > 1 + margin0 || t1 < -margin1 || t1 > 1 + margin1) return {type: 'none'};
+
+            const t0Clamped = clamp01(t0);
+            return {type: 'point', pt: Vector2Utils.lerp(seg0.p0, seg0.p1, t0Clamped), t0: t0Clamped, t1: clamp01(t1)};
+        }
+
+        // Parallel : collinear only when seg1 lies on the line of seg0.
+        if (Math.abs(Vector2Utils.perpDot(d0, r)) / length0 > tol.distance) return {type: 'none'};
+
+        const u0 = Vector2Utils.dot(r, d0) / (length0 * length0);
+        const u1 = Vector2Utils.dot(Vector2Utils.subtract(seg1.p1, seg0.p0), d0) / (length0 * length0);
+        const interval = getCollinearInterval(u0, u1, length0, tol);
+        if (!interval) return {type: 'none'};
+
+        const pt0 = Vector2Utils.lerp(seg0.p0, seg0.p1, interval[0]);
+        const pt1 = Vector2Utils.lerp(seg0.p0, seg0.p1, interval[1]);
+        const onSeg1 = (pt: Vertex2d) => clamp01(Vector2Utils.dot(Vector2Utils.subtract(pt, seg1.p0), d1) / (length1 * length1));
+
+        if (interval[0] === interval[1]) {
+            return {type: 'point', pt: pt0, t0: interval[0], t1: onSeg1(pt0)};
+        }
+
+        return {
+            type: 'overlap',
+            segment: {p0: pt0, p1: pt1},
+            interval0: interval,
+            interval1: [onSeg1(pt0), onSeg1(pt1)],
+        };
+    }
+
+    function getPointSegmentIntersection2d(
+        seg0: Line2d,
+        seg1: Line2d,
+        isSeg0Point: boolean,
+        tol: Readonly<ToleranceContext>
+    ): SegmentIntersection2d {
+        const pt = isSeg0Point ? seg0.p0 : seg1.p0;
+        const segment = isSeg0Point ? seg1 : seg0;
+        const d = Vector2Utils.subtract(segment.p1, segment.p0);
+        const lengthSquared = Vector2Utils.dot(d, d);
+        const t = lengthSquared === 0 ? 0 : clamp01(Vector2Utils.dot(Vector2Utils.subtract(pt, segment.p0), d) / lengthSquared);
+
+        const foot = Vector2Utils.lerp(segment.p0, segment.p1, t);
+        if (Vector2Utils.getDist(foot, pt) > tol.distance) return {type: 'none'};
+        return isSeg0Point ? {type: 'point', pt, t0: 0, t1: t} : {type: 'point', pt: foot, t0: t, t1: 0};
+    }
+
+    /**
+     * Clips the parameter range `u0 ~ u1` of a collinear segment to the domain 0 ~ 1 of a segment of `length`.
+     * A shared range shorter than the distance tolerance collapses into a single parameter.
+     *
+     * @returns The increasing interval, or `undefined` if the segments are apart.
+     */
+    function getCollinearInterval(u0: number, u1: number, length: number, tol: Readonly<ToleranceContext>): [number, number] | undefined {
+        const lo = Math.max(0, Math.min(u0, u1));
+        const hi = Math.min(1, Math.max(u0, u1));
+        const margin = tol.distance / length;
+
+        if (hi < lo - margin) return;
+        if (hi - lo <= margin) {
+            const t = clamp01((lo + hi) * 0.5);
+            return [t, t];
+        }
+        return [lo, hi];
+    }
+
+    /**
+     * Closest points of two lines, each bounded to 0 ~ 1 when clamped.
+     * Based on `ClosestPtSegmentSegment` of Ericson, "Real-Time Collision Detection", 5.1.9.
+     */
+    function getClosestPoints(
+        li0: Line,
+        li1: Line,
+        clamp0: boolean,
+        clamp1: boolean,
+        tol: Readonly<ToleranceContext>
+    ): ClosestPointsResult {
+        const d0 = VectorUtils.subtract(li0.p1, li0.p0);
+        const d1 = VectorUtils.subtract(li1.p1, li1.p0);
+        const r = VectorUtils.subtract(li0.p0, li1.p0);
+
+        const a = VectorUtils.dot(d0, d0);
+        const e = VectorUtils.dot(d1, d1);
+        const f = VectorUtils.dot(d1, r);
+        const zeroLengthSquared = tol.distance * tol.distance;
+
+        const fit0 = (t: number) => clamp0 ? clamp01(t) : t;
+        const fit1 = (t: number) => clamp1 ? clamp01(t) : t;
+
+        let t0 = 0;
+        let t1 = 0;
+        let isParallel = false;
+        const isDegenerate = a <= zeroLengthSquared || e <= zeroLengthSquared;
+
+        if (a <= zeroLengthSquared && e <= zeroLengthSquared) {
+            // Both are points.
+        } else if (a <= zeroLengthSquared) {
+            t1 = fit1(f / e);
+        } else {
+            const c = VectorUtils.dot(d0, r);
+            if (e <= zeroLengthSquared) {
+                t0 = fit0(-c / a);
+            } else {
+                const b = VectorUtils.dot(d0, d1);
+                const denom = a * e - b * b;
+
+                // denom = a * e * sin^2 of the angle between the lines.
+                isParallel = denom <= a * e * Math.pow(Math.sin(tol.angle), 2);
+                t0 = isParallel ? 0 : fit0((b * f - c * e) / denom);
+                t1 = (b * t0 + f) / e;
+
+                // When the second parameter leaves its domain, clamp it and fit the first one again.
+                if (clamp1 && (t1 < 0 || t1 > 1)) {
+                    t1 = clamp01(t1);
+                    t0 = fit0((b * t1 - c) / a);
+                }
+            }
+        }
+
+        const pt0 = VectorUtils.add(li0.p0, VectorUtils.scale(d0, t0));
+        const pt1 = VectorUtils.add(li1.p0, VectorUtils.scale(d1, t1));
+        return {pt0, pt1, t0, t1, dist: VectorUtils.getDist(pt0, pt1), isParallel, isDegenerate};
+    }
+
+    function clamp01(t: number): number {
+        return t < 0 ? 0 : (t > 1 ? 1 : t);
+    }
+}
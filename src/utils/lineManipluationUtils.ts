@@ -1,16 +1,44 @@
-import { Line } from "../models/types/basicGeometries";
+import { InfiniteLine3d } from "../models/basic/infiniteLine3d";
+import { Line, Plane, Polyline3d, Vertex3d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { LineEvaluation } from "./lineEvaluationUtils";
+import { ToleranceUtils } from "./toleranceUtils";
 import { VectorUtils } from "./vectorUtils";
 
 type Direction = 'left'|'right';
 
 /**
- * A collection of utility functions for manipulating lines in 2D space,
- * such as offsetting lines to the left or right by a specified distance.
- * 
+ * Result of rounding the corner of two lines with `LineManipulationUtils.FilletLines`.
+ *
+ * @property line0 - The first line, trimmed or extended to the start of the arc.
+ * @property line1 - The second line, trimmed or extended to the end of the arc.
+ * @property arc - The tangent arc tessellated from `line0` to `line1`, including both tangent points.
+ */
+export type FilletResult = {line0: Line, line1: Line, arc: Polyline3d};
+
+/**
+ * Result of cutting the corner of two lines with `LineManipulationUtils.ChamferLines`.
+ *
+ * @property line0 - The first line, trimmed or extended to the chamfer.
+ * @property line1 - The second line, trimmed or extended to the chamfer.
+ * @property chamfer - The segment joining `line0` to `line1`.
+ */
+export type ChamferResult = {line0: Line, line1: Line, chamfer: Line};
+
+type CornerSide = {kept: Vertex3d, keepsStart: boolean, direction: Vertex3d, length: number};
+
+/**
+ * A collection of utility functions for manipulating 3D lines, such as offsetting them to the left or right
+ * on the XY plane or on a given plane, and editing them as extend, trim, join, fillet and chamfer commands do.
+ *
  * These utilities are useful for geometric operations, drawing, and graphics applications.
+ *
+ * The editing commands (extend, trim, join, fillet and chamfer) find intersections as `LineEvaluation.getIntersection` does,
+ * so lines at different levels meet where they cross in plan and are not skew in 3D.
+ * They never modify the given lines and return `undefined` when the lines do not meet.
  */
 export namespace LineManipulationUtils {
-    
+
     /**
      * Offsets a given line by a specified distance to the left or right side.
      *
@@ -18,6 +46,9 @@ export namespace LineManipulationUtils {
      * @param dist - The distance to offset the line.
      * @param side - The direction to offset the line ('left' or 'right').
      * @returns A new line object with both endpoints offset by the specified distance and direction.
+     *
+     * @remarks
+     * The direction is rotated on the XY plane. For lines in elevations or sloped planes, use `OffsetLineOnPlane`.
      */
     export function OffsetLine(line: Line, dist: number, side: Direction): Line {
         const dirLine = VectorUtils.normalize(VectorUtils.subtract(line.p1, line.p0));
@@ -29,4 +60,230 @@ export namespace LineManipulationUtils {
 
         return {p0: p0Offset, p1: p1Offset};
     }
-}
\ No newline at end of file
+
+    /**
+     * Offsets a line within a plane given by its normal.
+     * The left side is the one on the left of the line when looking from the normal side of the plane,
+     * so the normal `(0, 0, 1)` offsets plan lines to the same side as `OffsetLine`.
+     *
+     * @param line - The line to offset.
+     * @param dist - The distance to offset the line.
+     * @param side - The direction to offset the line ('left' or 'right').
+     * @param reference - The normal of the plane, or the plane itself. It does not need to be normalized.
+     * @param tolerance - Optional tolerance context. Lines shorter than its `distance` have zero length,
+     *                    and its `angle` decides whether the line is parallel to the normal.
+     * @returns A new line offset perpendicular to both the line and the normal.
+     * @throws {Error} If the line has zero length, the normal is a zero vector,
+     *                 or the line is parallel to the normal (e.g. a vertical line with the XY plane).
+     */
+    export function OffsetLineOnPlane(
+        line: Line,
+        dist: number,
+        side: Direction,
+        reference: Vertex3d | Plane,
+        tolerance?: Partial<ToleranceContext>
+    ): Line {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const normal = 'normal' in reference ? reference.normal : reference;
+        const direction = VectorUtils.subtract(line.p1, line.p0);
+
+        if (VectorUtils.getSize(direction) <= tol.distance) {
+            throw new Error("Line to offset should not have zero length.");
+        }
+        // The normal is a direction, not a length, so only a zero vector is rejected.
+        if (!(VectorUtils.getSize(normal) > 0)) {
+            throw new Error("Reference normal should not be zero vector.");
+        }
+
+        const left = VectorUtils.cross(VectorUtils.normalize(normal), VectorUtils.normalize(direction));
+        if (VectorUtils.getSize(left) <= Math.sin(tol.angle)) {
+            throw new Error("Line is parallel to the reference normal, so the offset direction is undefined.");
+        }
+
+        const directionFactor = side === 'left' ? 1 : -1;
+        const offset = VectorUtils.scale(VectorUtils.normalize(left), dist * directionFactor);
+        return {p0: VectorUtils.add(line.p0, offset), p1: VectorUtils.add(line.p1, offset)};
+    }
+
+    /**
+     * Extends a line along its direction by a length.
+     *
+     * @param line - The line to extend.
+     * @param length - The length to add. A negative length shortens the line.
+     * @param fromStart - When true, `p0` is moved backwards. Otherwise, `p1` is moved forwards.
+     * @returns A new extended line.
+     */
+    export function ExtendLine(line: Line, length: number, fromStart = false): Line {
+        const direction = VectorUtils.normalize(VectorUtils.subtract(line.p1, line.p0));
+        if (fromStart) {
+            return {p0: VectorUtils.add(line.p0, VectorUtils.scale(direction, -length)), p1: {...line.p1}};
+        }
+        return {p0: {...line.p0}, p1: VectorUtils.add(line.p1, VectorUtils.scale(direction, length))};
+    }
+
+    /**
+     * Extends a line until it meets a boundary line.
+     * The end of the line nearer to the boundary is moved onto it.
+     *
+     * @param line - The line to extend.
+     * @param boundary - The boundary to extend to. It is not extended itself.
+     * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+     * @returns The extended line, or `undefined` if the extended line misses the boundary or already reaches it.
+     */
+    export function ExtendLineTo(line: Line, boundary: Line, tolerance?: Partial<ToleranceContext>): Line | undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const test = LineEvaluation.getIntersection(InfiniteLine3d.fromLine(line), boundary, tol);
+        if (!test.result || !test.pt) return;
+
+        const t = LineEvaluation.getParameterOnLine(line.p0, line.p1, test.pt);
+        if (t > 1 + tol.parameter) return {p0: {...line.p0}, p1: test.pt};
+        if (t < -tol.parameter) return {p0: test.pt, p1: {...line.p1}};
+        return;
+    }
+
+    /**
+     * Trims a line at its intersection with a boundary line.
+     *
+     * @param line - The line to trim.
+     * @param boundary - The cutting boundary.
+     * @param keep - The part of the line to keep: `'start'` keeps `p0` up to the boundary, `'end'` keeps the boundary up to `p1`.
+     * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+     * @returns The trimmed line, or `undefined` if the line and the boundary do not cross.
+     */
+    export function TrimLine(line: Line, boundary: Line, keep: 'start'|'end', tolerance?: Partial<ToleranceContext>): Line | undefined {
+        const test = LineEvaluation.getIntersection(line, boundary, false, tolerance);
+        if (!test.result || !test.pt) return;
+
+        return keep === 'start' ? {p0: {...line.p0}, p1: test.pt} : {p0: test.pt, p1: {...line.p1}};
+    }
+
+    /**
+     * Joins two lines at the intersection of their extensions, forming a sharp corner.
+     * For each line, the end farther from the corner is kept and the other end is moved onto the corner.
+     *
+     * @param line0 - The first line.
+     * @param line1 - The second line.
+     * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+     * @returns Both lines ending at the corner, or `undefined` if the lines are parallel or skew.
+     */
+    export function JoinLines(line0: Line, line1: Line, tolerance?: Partial<ToleranceContext>): [Line, Line] | undefined {
+        const corner = getCorner(line0, line1, tolerance);
+        if (!corner) return;
+
+        const side0 = getCornerSide(line0, corner);
+        const side1 = getCornerSide(line1, corner);
+        return [replaceEnd(side0, corner), replaceEnd(side1, corner)];
+    }
+
+    /**
+     * Rounds the corner of two lines with a tangent arc of the given radius.
+     * The lines are joined first as `JoinLines` does, then cut back to the tangent points.
+     *
+     * @param line0 - The first line.
+     * @param line1 - The second line.
+     * @param radius - The radius of the arc.
+     * @param segmentCount - The number of segments of the tessellated arc. Defaults to 8.
+     * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+     * @returns The trimmed lines and the arc, or `undefined` if the lines do not meet or are too short for the radius.
+     * @throws {Error} If the radius is not positive or the segment count is smaller than 1.
+     */
+    export function FilletLines(
+        line0: Line,
+        line1: Line,
+        radius: number,
+        segmentCount = 8,
+        tolerance?: Partial<ToleranceContext>
+    ): FilletResult | undefined {
+        if (!(radius > 0)) throw new Error("Fillet radius should be positive.");
+        if (!(segmentCount >= 1)) throw new Error("Fillet arc needs at least one segment.");
+
+        const corner = getCorner(line0, line1, tolerance);
+        if (!corner) return;
+
+        const side0 = getCornerSide(line0, corner);
+        const side1 = getCornerSide(line1, corner);
+        const angle = Math.acos(Math.min(1, Math.max(-1, VectorUtils.dot(side0.direction, side1.direction))));
+
+        // Distance from the corner to the tangent points.
+        const tangentLength = radius / Math.tan(angle * 0.5);
+        if (!Number.isFinite(tangentLength) || tangentLength > side0.length || tangentLength > side1.length) return;
+
+        const tangent0 = VectorUtils.add(corner, VectorUtils.scale(side0.direction, tangentLength));
+        const tangent1 = VectorUtils.add(corner, VectorUtils.scale(side1.direction, tangentLength));
+        const bisector = VectorUtils.normalize(VectorUtils.add(side0.direction, side1.direction));
+        const center = VectorUtils.add(corner, VectorUtils.scale(bisector, radius / Math.sin(angle * 0.5)));
+
+        // Spherical interpolation between the radii to the tangent points.
+        const r0 = VectorUtils.subtract(tangent0, center);
+        const r1 = VectorUtils.subtract(tangent1, center);
+        const sweep = Math.PI - angle;
+        const sinSweep = Math.sin(sweep);
+        const arc: Polyline3d = [tangent0];
+        for (let i = 1; i < segmentCount; i++) {
+            const s = i / segmentCount;
+            const offset = VectorUtils.add(
+                VectorUtils.scale(r0, Math.sin((1 - s) * sweep) / sinSweep),
+                VectorUtils.scale(r1, Math.sin(s * sweep) / sinSweep)
+            );
+            arc.push(VectorUtils.add(center, offset));
+        }
+        arc.push(tangent1);
+
+        return {line0: replaceEnd(side0, tangent0), line1: replaceEnd(side1, tangent1), arc};
+    }
+
+    /**
+     * Cuts the corner of two lines with a straight segment.
+     * The lines are joined first as `JoinLines` does, then cut back by the distances from the corner.
+     *
+     * @param line0 - The first line.
+     * @param line1 - The second line.
+     * @param dist0 - The distance from the corner to the chamfer along `line0`.
+     * @param dist1 - The distance from the corner to the chamfer along `line1`. Defaults to `dist0`.
+     * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+     * @returns The trimmed lines and the chamfer, or `undefined` if the lines do not meet or are shorter than the distances.
+     * @throws {Error} If a distance is not positive.
+     */
+    export function ChamferLines(
+        line0: Line,
+        line1: Line,
+        dist0: number,
+        dist1 = dist0,
+        tolerance?: Partial<ToleranceContext>
+    ): ChamferResult | undefined {
+        if (!(dist0 > 0) || !(dist1 > 0)) throw new Error("Chamfer distances should be positive.");
+
+        const corner = getCorner(line0, line1, tolerance);
+        if (!corner) return;
+
+        const side0 = getCornerSide(line0, corner);
+        const side1 = getCornerSide(line1, corner);
+        if (dist0 > side0.length || dist1 > side1.length) return;
+
+        const cut0 = VectorUtils.add(corner, VectorUtils.scale(side0.direction, dist0));
+        const cut1 = VectorUtils.add(corner, VectorUtils.scale(side1.direction, dist1));
+        return {line0: replaceEnd(side0, cut0), line1: replaceEnd(side1, cut1), chamfer: {p0: cut0, p1: cut1}};
+    }
+
+    function getCorner(line0: Line, line1: Line, tolerance?: Partial<ToleranceContext>): Vertex3d | undefined {
+        const test = LineEvaluation.getIntersection(line0, line1, true, tolerance);
+        return test.result ? test.pt : undefined;
+    }
+
+    /**
+     * Finds the end of a line which stays when the other end is moved to the corner.
+     */
+    function getCornerSide(line: Line, corner: Vertex3d): CornerSide {
+        const keepsStart = VectorUtils.getDist(line.p0, corner) >= VectorUtils.getDist(line.p1, corner);
+        const kept = keepsStart ? line.p0 : line.p1;
+        const toKept = VectorUtils.subtract(kept, corner);
+        return {kept, keepsStart, direction: VectorUtils.normalize(toKept), length: VectorUtils.getSize(toKept)};
+    }
+
+    /**
+     * Creates the line from the kept end to the new end, keeping the original orientation.
+     */
+    function replaceEnd(side: CornerSide, pt: Vertex3d): Line {
+        return side.keepsStart ? {p0: {...side.kept}, p1: pt} : {p0: pt, p1: {...side.kept}};
+    }
+}
@@ -1,5 +1,6 @@
 import { Vertex3d } from "../models/types/basicGeometries";
 import { computeContexHull2d } from "./convexHullUtils";
+import { VectorUtils } from "./vectorUtils";
 
 /**
  * Computes the minimum area oriented bounding box (OBB) for a set of 2D vertices.
@@ -116,10 +117,9 @@ export function computeOBB2d(vertices: Vertex3d[]): {
 }
 
 function getBoundingBox(pts: Vertex3d[]): { area: number; pts: Vertex3d[] } {
-    const xMin = Math.min(...pts.map((p) => p.x));
-    const yMin = Math.min(...pts.map((p) => p.y));
-    const xMax = Math.max(...pts.map((p) => p.x));
-    const yMax = Math.max(...pts.map((p) => p.y));
+    const {min, max} = VectorUtils.getBoundingBox2d(pts);
+    const xMin = min.x, yMin = min.y;
+    const xMax = max.x, yMax = max.y;
 
     const dx = Math.abs(xMax - xMin);
     const dy = Math.abs(yMax - yMin);
@@ -0,0 +1,248 @@
+import { CoordinateSystem3d, Line, Plane, Polyline3d, Triangle, Vertex3d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { CoordinateSystemUtils } from "./coordinateSystemUtils";
+import { ToleranceUtils } from "./toleranceUtils";
+import { VectorUtils } from "./vectorUtils";
+
+/**
+ * Utility namespace for infinite planes in 3D space.
+ *
+ * Provides methods for:
+ * - Creating planes from points, a normal or a triangle.
+ * - Signed distances and projections of points, lines and polylines onto a plane.
+ * - Intersections of a plane with lines, segments and other planes.
+ *
+ * Unlike `LineEvaluation.getIntersectionOnPlaneZ`, the planes can have any orientation.
+ */
+export namespace PlaneUtils {
+    /**
+     * Creates a plane from an origin and a normal.
+     *
+     * @param origin - A point on the plane.
+     * @param normal - The normal of the plane. It does not need to be normalized, so only a zero vector is rejected.
+     * @returns The plane, or `undefined` if the normal is a zero vector.
+     */
+    export function fromNormal(origin: Vertex3d, normal: Vertex3d): Plane | undefined {
+        if (!(VectorUtils.getSize(normal) > 0)) return;
+        return {origin: {...origin}, normal: VectorUtils.normalize(normal)};
+    }
+
+    /**
+     * Creates a plane passing three points.
+     * The normal follows the right-hand rule along `p0 → p1 → p2`.
+     *
+     * @param p0 - The first point, used as the origin of the plane.
+     * @param p1 - The second point.
+     * @param p2 - The third point.
+     * @param tolerance - Optional tolerance context. Points closer than its `distance` are coincident,
+     *                    and points within its `angle` from a line through `p0` are collinear.
+     * @returns The plane, or `undefined` if the points are coincident or collinear.
+     */
+    export function fromPoints(p0: Vertex3d, p1: Vertex3d, p2: Vertex3d, tolerance?: Partial<ToleranceContext>): Plane | undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const u = VectorUtils.subtract(p1, p0);
+        const w = VectorUtils.subtract(p2, p0);
+        const uLength = VectorUtils.getSize(u);
+        const wLength = VectorUtils.getSize(w);
+        if (uLength < tol.distance || wLength < tol.distance) return;
+
+        // The cross product is scaled by both edges, so it is compared with the sine of the angle between them.
+        const normal = VectorUtils.cross(u, w);
+        if (VectorUtils.getSize(normal) < uLength * wLength * Math.sin(tol.angle)) return;
+        return fromNormal(p0, normal);
+    }
+
+    /**
+     * Creates the plane of a triangle.
+     * The normal follows the right-hand rule along `p0 → p1 → p2`.
+     *
+     * @param triangle - The triangle to read the plane from.
+     * @param tolerance - Optional tolerance context. See `fromPoints`.
+     * @returns The plane, or `undefined` if the triangle is degenerate.
+     */
+    export function fromTriangle(triangle: Triangle, tolerance?: Partial<ToleranceContext>): Plane | undefined {
+        return fromPoints(triangle.p0, triangle.p1, triangle.p2, tolerance);
+    }
+
+    /**
+     * Gets the same plane with its normal flipped.
+     *
+     * @param plane - The plane to flip.
+     * @returns A new plane with the opposite normal.
+     */
+    export function flip(plane: Plane): Plane {
+        return {origin: {...plane.origin}, normal: VectorUtils.flip(plane.normal)};
+    }
+
+    /**
+     * Creates a local frame on the plane. Its `nAxis` is the plane normal.
+     *
+     * @param plane - The plane.
+     * @param uHint - Optional direction for the `u` axis. See `CoordinateSystemUtils.fromNormal`.
+     * @param tolerance - Optional tolerance context.
+     * @returns The frame, or `undefined` if `uHint` is perpendicular to the plane.
+     */
+    export function toCoordinateSystem(plane: Plane, uHint?: Vertex3d, tolerance?: Partial<ToleranceContext>): CoordinateSystem3d | undefined {
+        return CoordinateSystemUtils.fromNormal(plane.origin, plane.normal, uHint, tolerance);
+    }
+
+    /**
+     * Calculates the signed distance from a plane to a point.
+     *
+     * @param plane - The plane.
+     * @param pt - The point to measure.
+     * @returns Positive value when the point is on the normal side, negative on the other side, and 0 on the plane.
+     */
+    export function getSignedDistance(plane: Plane, pt: Vertex3d): number {
+        return VectorUtils.dot(VectorUtils.subtract(pt, plane.origin), plane.normal);
+    }
+
+    /**
+     * Projects a point onto a plane along its normal.
+     *
+     * @param plane - The plane to project onto.
+     * @param pt - The point to project.
+     * @returns The closest point on the plane.
+     */
+    export function projectPoint(plane: Plane, pt: Vertex3d): Vertex3d {
+        const dist = getSignedDistance(plane, pt);
+        return VectorUtils.subtract(pt, VectorUtils.scale(plane.normal, dist));
+    }
+
+    /**
+     * Projects both endpoints of a line onto a plane.
+     *
+     * @param plane - The plane to project onto.
+     * @param line - The line to project.
+     * @returns The projected line. It has zero length when the line is perpendicular to the plane.
+     */
+    export function projectLine(plane: Plane, line: Line): Line {
+        return {p0: projectPoint(plane, line.p0), p1: projectPoint(plane, line.p1)};
+    }
+
+    /**
+     * Projects every vertex of a polyline onto a plane.
+     *
+     * @param plane - The plane to project onto.
+     * @param polyline - The polyline to project.
+     * @returns The projected polyline.
+     */
+    export function projectPolyline(plane: Plane, polyline: Polyline3d): Polyline3d {
+        return polyline.map(pt => projectPoint(plane, pt));
+    }
+
+    /**
+     * Calculates the intersection of a plane with the infinite line passing both endpoints of `line`.
+     *
+     * @param plane - The plane.
+     * @param line - The line, extended infinitely in both directions.
+     * @param tolerance - Optional tolerance context. Lines within its `angle` from the plane are treated as parallel.
+     * @returns The intersection point and its parameter `t` on the line (0 at `p0`, 1 at `p1`),
+     *          or `undefined` if the line is parallel to the plane or has zero length.
+     */
+    export function getIntersectionWithLine(
+        plane: Plane,
+        line: Line,
+        tolerance?: Partial<ToleranceContext>
+    ): {pt: Vertex3d, t: number} | undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const direction = VectorUtils.subtract(line.p1, line.p0);
+        const length = VectorUtils.getSize(direction);
+        if (length < tol.distance) return;
+
+        const denom = VectorUtils.dot(plane.normal, direction);
+        if (Math.abs(denom) / length < Math.sin(tol.angle)) return;
+
+        const t = VectorUtils.dot(plane.normal, VectorUtils.subtract(plane.origin, line.p0)) / denom;
+        return {pt: VectorUtils.add(line.p0, VectorUtils.scale(direction, t)), t};
+    }
+
+    /**
+     * Calculates the intersection of a plane with a line segment.
+     *
+     * @param plane - The plane.
+     * @param line - The segment between `p0` and `p1`.
+     * @param tolerance - Optional tolerance context. Its `parameter` widens the segment range at both ends.
+     * @returns The intersection point and its parameter `t` (0 ~ 1) on the segment,
+     *          or `undefined` if the segment does not reach the plane or is parallel to it.
+     */
+    export function getIntersectionWithSegment(
+        plane: Plane,
+        line: Line,
+        tolerance?: Partial<ToleranceContext>
+    ): {pt: Vertex3d, t: number} | undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const intersection = getIntersectionWithLine(plane, line, tol);
+        if (!intersection) return;
+
+        const {t} = intersection;
+        if (t < -tol.parameter || t > 1 + tol.parameter) return;
+        return intersection;
+    }
+
+    /**
+     * Calculates the intersection line of two planes.
+     *
+     * @param plane0 - The first plane.
+     * @param plane1 - The second plane.
+     * @param tolerance - Optional tolerance context. Planes within its `angle` are treated as parallel.
+     * @returns A line whose `p0` is the point of the intersection closest to the world origin and whose `p1` is
+     *          one unit away along `plane0.normal × plane1.normal`, or `undefined` if the planes are parallel.
+     */
+    export function getIntersectionWithPlane(plane0: Plane, plane1: Plane, tolerance?: Partial<ToleranceContext>): Line | undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const n0 = plane0.normal;
+        const n1 = plane1.normal;
+        const direction = VectorUtils.cross(n0, n1);
+        const dirSquared = VectorUtils.dot(direction, direction);
+        if (Math.sqrt(dirSquared) < Math.sin(tol.angle)) return;
+
+        const h0 = VectorUtils.dot(n0, plane0.origin);
+        const h1 = VectorUtils.dot(n1, plane1.origin);
+
+        // p = (h0 (n1 x d) + h1 (d x n0)) / |d|^2
+        const pt = VectorUtils.chain(VectorUtils.cross(n1, direction))
+            .scale(h0)
+            .add(VectorUtils.scale(VectorUtils.cross(direction, n0), h1))
+            .scale(1 / dirSquared)
+            .value();
+
+        return {p0: pt, p1: VectorUtils.add(pt, VectorUtils.normalize(direction))};
+    }
+
+    /**
+     * Calculates the common point of three planes.
+     *
+     * @param plane0 - The first plane.
+     * @param plane1 - The second plane.
+     * @param plane2 - The third plane.
+     * @param tolerance - Optional tolerance context. See `getIntersectionWithPlane`.
+     * @returns The intersection point, or `undefined` if any two planes are parallel
+     *          or the three planes share a common line.
+     */
+    export function getIntersectionOfThreePlanes(
+        plane0: Plane,
+        plane1: Plane,
+        plane2: Plane,
+        tolerance?: Partial<ToleranceContext>
+    ): Vertex3d | undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const n0 = plane0.normal;
+        const n1 = plane1.normal;
+        const n2 = plane2.normal;
+
+        const n1n2 = VectorUtils.cross(n1, n2);
+        const det = VectorUtils.dot(n0, n1n2);
+        if (Math.abs(det) < Math.sin(tol.angle)) return;
+
+        const h0 = VectorUtils.dot(n0, plane0.origin);
+        const h1 = VectorUtils.dot(n1, plane1.origin);
+        const h2 = VectorUtils.dot(n2, plane2.origin);
+
+        return VectorUtils.chain(VectorUtils.scale(n1n2, h0))
+            .add(VectorUtils.scale(VectorUtils.cross(n2, n0), h1))
+            .add(VectorUtils.scale(VectorUtils.cross(n0, n1), h2))
+            .scale(1 / det)
+            .value();
+    }
+}
@@ -1,19 +1,21 @@
-import { Vertex3dWrapped } from "../models/basic/vertex3d";
+import { Vector3 } from "../models/basic/vector3";
 import { Line, Triangle, Vertex3d } from "../models/types/basicGeometries";
-
-const DIRECTION_TOLERANCE = 1e-6;
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { ToleranceUtils } from "./toleranceUtils";
 
 /**
  * Evaluate the parameter of given line and point.
  * @param p0 Start point of Line
  * @param p1 End point of Line
  * @param ptTest Point to test
+ * @param tolerance Optional tolerance context. Its `angle` decides whether the point is on the line.
  * @returns {number|undefined} 
  * When the given point is on the line between endpoints, the result will be 0 ~ 1.
  * When it is on the line but outside the endpoints, the result will be negative float or larger than 1.
  * When it is determined that the point actually not placed on the line, it will return undefined.
  */
-export function pointEvaluationOnLine(p0: Vertex3d, p1: Vertex3d, ptTest: Vertex3d) {
+export function pointEvaluationOnLine(p0: Vertex3d, p1: Vertex3d, ptTest: Vertex3d, tolerance?: Partial<ToleranceContext>) {
+    const tol = ToleranceUtils.resolve(tolerance);
     const direction: Vertex3d = {x: p1.x - p0.x, y: p1.y - p0.y, z: p1.z - p0.z};
     const directionNorm = getNormalizedVector(direction);
     const p0p2: Vertex3d = {x: ptTest.x - p0.x, y: ptTest.y - p0.y, z: ptTest.z - p0.z}
@@ -21,7 +23,7 @@ export function pointEvaluationOnLine(p0: Vertex3d, p1: Vertex3d, ptTest: Vertex
 
     const dotResult = dot(directionNorm, testNorm);
     const directionFactor = dotResult >= 0 ? 1 : -1;
-    const isAlmostParallel = Math.abs((Math.abs(dotResult) - 1)) < DIRECTION_TOLERANCE;
+    const isAlmostParallel = Math.abs((Math.abs(dotResult) - 1)) < 1 - Math.cos(tol.angle);
 
     const lineLength = getDist(p0, p1);
     const dist = getDist(p0, ptTest);
@@ -58,17 +60,19 @@ function getDist(p0: Vertex3d, p1: Vertex3d) {
  * Get intersection of line and triangle.
  * @param line Line's endpoints.
  * @param triangle Triangle
+ * @param tolerance Optional tolerance context. Barycentric parameters outside 0 ~ 1 by its `parameter` are still accepted.
  * @returns When intersection point exists, returns it. If not, returned undefined.
  */
-export function getPointOnTrianglePlane(line: Line, triangle: Triangle): Vertex3d | undefined {
+export function getPointOnTrianglePlane(line: Line, triangle: Triangle, tolerance?: Partial<ToleranceContext>): Vertex3d | undefined {
+    const tol = ToleranceUtils.resolve(tolerance);
     if (isDetZero(line, triangle)) return;
 
-    const v0 = new Vertex3dWrapped(triangle.p0);
-    const v1 = new Vertex3dWrapped(triangle.p1);
-    const v2 = new Vertex3dWrapped(triangle.p2);
+    const v0 = Vector3.from(triangle.p0);
+    const v1 = Vector3.from(triangle.p1);
+    const v2 = Vector3.from(triangle.p2);
 
-    const p0 = new Vertex3dWrapped(line.p0);
-    const p1 = new Vertex3dWrapped(line.p1);
+    const p0 = Vector3.from(line.p0);
+    const p1 = Vector3.from(line.p1);
 
     const v0v1 = v1.subtract(v0);
     const v0v2 = v2.subtract(v0);
@@ -83,18 +87,18 @@ export function getPointOnTrianglePlane(line: Line, triangle: Triangle): Vertex3
 
     const result = v0.multiply(u).add(v1.multiply(v)).add(v2.multiply(w));
 
-    const validParams = [u, v, w].every(val => val >= 0 && val <= 1);
-    return validParams ? result : undefined;
+    const validParams = [u, v, w].every(val => val >= -tol.parameter && val <= 1 + tol.parameter);
+    return validParams ? result.toObject() : undefined;
 }
 
 function isDetZero(line: Line, triangle: Triangle): boolean {
-    const v0 = new Vertex3dWrapped(triangle.p0);
-    const v1 = new Vertex3dWrapped(triangle.p1);
-    const v2 = new Vertex3dWrapped(triangle.p2);
+    const v0 = Vector3.from(triangle.p0);
+    const v1 = Vector3.from(triangle.p1);
+    const v2 = Vector3.from(triangle.p2);
 
     const v0v1 = v1.subtract(v0);
     const v0v2 = v2.subtract(v0);
-    const d = new Vertex3dWrapped(line.p1).subtract(new Vertex3dWrapped(line.p0)).normalized();
+    const d = Vector3.from(line.p1).subtract(line.p0).normalized();
     const det = v0v1.dot(d.cross(v0v2));
     return det === 0;
 }
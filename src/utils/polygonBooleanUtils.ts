@@ -0,0 +1,165 @@
+import { MultiPolygon2d, Polygon2d, Polyline2d, Vertex2d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { OverlayEdge, PolygonOverlayUtils } from "./polygonOverlayUtils";
+import { PolygonUtils } from "./polygonUtils";
+import { ToleranceUtils } from "./toleranceUtils";
+import { Vector2Utils } from "./vector2Utils";
+
+/**
+ * Boolean operation combining two areas.
+ *
+ * - `union` : Inside either area.
+ * - `intersection` : Inside both areas.
+ * - `difference` : Inside the first area and outside the second one.
+ * - `xor` : Inside exactly one of the areas.
+ */
+export type BooleanOperation = 'union' | 'intersection' | 'difference' | 'xor';
+
+/**
+ * Namespace for boolean operations on polygons with holes.
+ *
+ * Use cases:
+ * - Finding overlaps between zones, or between rooms and slabs.
+ * - Calculating the net floor area of a slab minus its cores and shafts.
+ *
+ * Both areas are overlaid with `PolygonOverlayUtils`: every edge is split where it meets another one,
+ * and each piece is kept when the operation gives a different result on its two sides.
+ * Pieces shared by both areas, such as the common wall of two rooms, are merged and classified once,
+ * so touching polygons are combined without slivers.
+ *
+ * Rings are oriented by their signed area before the overlay, so the winding of the input does not matter.
+ * Results are multi-polygons whose outer boundaries are counter-clockwise and holes clockwise,
+ * each ring closed by repeating its first point.
+ */
+export namespace PolygonBooleanUtils {
+    /**
+     * Gets the area inside either of the polygons.
+     *
+     * @param subject - The first polygon with holes, or several of them.
+     * @param clip - The second polygon with holes, or several of them.
+     * @param tolerance - Optional tolerance context. Its `distance` decides whether edges meet,
+     *                    and its `hashPrecision` merges their intersection points.
+     * @returns The union as non-overlapping polygons.
+     */
+    export function union(subject: Polygon2d | MultiPolygon2d, clip: Polygon2d | MultiPolygon2d, tolerance?: Partial<ToleranceContext>): MultiPolygon2d {
+        return compute(subject, clip, 'union', tolerance);
+    }
+
+    /**
+     * Gets the area inside both polygons.
+     *
+     * @param subject - The first polygon with holes, or several of them.
+     * @param clip - The second polygon with holes, or several of them.
+     * @param tolerance - Optional tolerance context. Its `distance` decides whether edges meet,
+     *                    and its `hashPrecision` merges their intersection points.
+     * @returns The intersection as non-overlapping polygons. Empty if the polygons only touch.
+     */
+    export function intersection(subject: Polygon2d | MultiPolygon2d, clip: Polygon2d | MultiPolygon2d, tolerance?: Partial<ToleranceContext>): MultiPolygon2d {
+        return compute(subject, clip, 'intersection', tolerance);
+    }
+
+    /**
+     * Gets the area inside the subject and outside the clip, e.g. a slab minus its cores.
+     *
+     * @param subject - The polygon to subtract from.
+     * @param clip - The polygon to subtract.
+     * @param tolerance - Optional tolerance context. Its `distance` decides whether edges meet,
+     *                    and its `hashPrecision` merges their intersection points.
+     * @returns The difference as non-overlapping polygons.
+     */
+    export function difference(subject: Polygon2d | MultiPolygon2d, clip: Polygon2d | MultiPolygon2d, tolerance?: Partial<ToleranceContext>): MultiPolygon2d {
+        return compute(subject, clip, 'difference', tolerance);
+    }
+
+    /**
+     * Gets the area inside exactly one of the polygons.
+     *
+     * @param subject - The first polygon with holes, or several of them.
+     * @param clip - The second polygon with holes, or several of them.
+     * @param tolerance - Optional tolerance context. Its `distance` decides whether edges meet,
+     *                    and its `hashPrecision` merges their intersection points.
+     * @returns The symmetric difference as non-overlapping polygons.
+     */
+    export function xor(subject: Polygon2d | MultiPolygon2d, clip: Polygon2d | MultiPolygon2d, tolerance?: Partial<ToleranceContext>): MultiPolygon2d {
+        return compute(subject, clip, 'xor', tolerance);
+    }
+
+    function compute(
+        subject: Polygon2d | MultiPolygon2d,
+        clip: Polygon2d | MultiPolygon2d,
+        operation: BooleanOperation,
+        tolerance?: Partial<ToleranceContext>
+    ): MultiPolygon2d {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const edges = [...getEdges(subject, 0, tol), ...getEdges(clip, 1, tol)];
+        const loops = PolygonOverlayUtils.getBoundaries(edges, 2, windings => isInResult(windings, operation), tol);
+        return assemble(loops, tol);
+    }
+
+    /**
+     * Gets the edges of every ring, with outer boundaries counter-clockwise and holes clockwise.
+     */
+    function getEdges(polygon: Polygon2d | MultiPolygon2d, operand: number, tol: Readonly<ToleranceContext>): OverlayEdge[] {
+        const polygons = Array.isArray(polygon) ? polygon : [polygon];
+        const edges: OverlayEdge[] = [];
+        const addRing = (ring: Polyline2d, isHole: boolean) => {
+            const pts: Vertex2d[] = [];
+            for (const pt of ring) {
+                if (pts.length === 0 || Vector2Utils.getDist(pts[pts.length - 1], pt) > tol.distance) pts.push(pt);
+            }
+            if (pts.length > 1 && Vector2Utils.getDist(pts[0], pts[pts.length - 1]) <= tol.distance) pts.pop();
+            if (pts.length < 3) return;
+
+            const area = PolygonUtils.getSignedArea2d(pts);
+            if (Math.abs(area) <= tol.distance * tol.distance) return;
+            if ((area > 0) === isHole) pts.reverse();
+            pts.forEach((p0, i) => edges.push({p0, p1: pts[(i + 1) % pts.length], operand}));
+        };
+
+        for (const {outer, holes} of polygons) {
+            addRing(outer, false);
+            for (const hole of holes) addRing(hole, true);
+        }
+        return edges;
+    }
+
+    function isInResult(winding: number[], operation: BooleanOperation): boolean {
+        const inSubject = winding[0] !== 0;
+        const inClip = winding[1] !== 0;
+        switch (operation) {
+            case 'union': return inSubject || inClip;
+            case 'intersection': return inSubject && inClip;
+            case 'difference': return inSubject && !inClip;
+            case 'xor': return inSubject !== inClip;
+        }
+    }
+
+    /**
+     * Sorts the traced loops into outer boundaries and holes, putting each hole into the smallest outer boundary around it.
+     */
+    function assemble(loops: Polyline2d[], tol: Readonly<ToleranceContext>): MultiPolygon2d {
+        const close = (ring: Polyline2d) => [...ring, {...ring[0]}];
+        const outers = loops
+            .filter(loop => PolygonUtils.getSignedArea2d(loop) > 0)
+            .map(loop => ({loop, area: PolygonUtils.getSignedArea2d(loop), polygon: {outer: close(loop), holes: [] as Polyline2d[]}}))
+            .sort((a, b) => a.area - b.area);
+
+        for (const hole of loops.filter(loop => PolygonUtils.getSignedArea2d(loop) < 0)) {
+            const container = outers.find(({loop}) => isRingInside(hole, loop, tol));
+            container?.polygon.holes.push(close(hole));
+        }
+        return outers.map(outer => outer.polygon);
+    }
+
+    /**
+     * Checks whether a ring lies inside another one it does not cross, by its first point off the other's boundary.
+     */
+    function isRingInside(ring: Polyline2d, container: Polyline2d, tol: Readonly<ToleranceContext>): boolean {
+        const candidates = [...ring, ...ring.map((pt, i) => Vector2Utils.lerp(pt, ring[(i + 1) % ring.length], 0.5))];
+        for (const pt of candidates) {
+            const test = PolygonUtils.isPointInPolygon2d({outer: container, holes: []}, pt, 'nonZero', tol);
+            if (!test.onBoundary) return test.result;
+        }
+        return false;
+    }
+}
@@ -0,0 +1,237 @@
+import { Line2d, Polyline2d, Vertex2d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { GeometricPredicates } from "./geometricPredicates";
+import { PolygonUtils } from "./polygonUtils";
+import { SweepLineUtils } from "./sweepLineUtils";
+import { ToleranceUtils } from "./toleranceUtils";
+import { Vector2Utils } from "./vector2Utils";
+
+/**
+ * Directed edge of an overlaid area, whose winding number is counted separately from the other areas.
+ *
+ * @property operand - Index of the area bounded by the edge, from 0.
+ */
+export type OverlayEdge = Line2d & {operand: number};
+
+type OverlayPiece = {a: Vertex2d, b: Vertex2d, parent: number};
+
+type EdgeBands = {minY: number, bandHeight: number, bands: number[][]};
+
+/**
+ * Namespace for overlaying areas bounded by directed edges.
+ *
+ * Use cases:
+ * - Boolean operations on polygons with holes.
+ * - Resolving the self-intersections of an offset polygon.
+ *
+ * Every edge is split where it meets another one with the Bentley–Ottmann sweep of `SweepLineUtils`,
+ * and coincident pieces are merged and classified once from the winding numbers on their two sides.
+ */
+export namespace PolygonOverlayUtils {
+    /**
+     * Gets the boundaries of the region selected from the winding numbers of overlaid areas.
+     *
+     * @param edges - The directed edges of all areas. Each area counts +1 for every counter-clockwise loop around a point.
+     * @param operandCount - The number of areas, one more than the largest `operand` of the edges.
+     * @param isInside - Decides from the winding numbers of every area whether a point is in the region.
+     * @param tolerance - Optional tolerance context. Its `distance` decides whether edges meet,
+     *                    and its `hashPrecision` merges their intersection points.
+     * @returns The closed loops around the region, without repeating their first point.
+     *          The region lies on the left of each loop, so outer boundaries are counter-clockwise and holes clockwise.
+     */
+    export function getBoundaries(
+        edges: OverlayEdge[],
+        operandCount: number,
+        isInside: (windings: number[]) => boolean,
+        tolerance?: Partial<ToleranceContext>
+    ): Polyline2d[] {
+        const tol = ToleranceUtils.resolve(tolerance);
+        if (edges.length === 0) return [];
+
+        const key = (v: Vertex2d) => ToleranceUtils.getHash2d(v, tol);
+        const bands = createEdgeBands(edges);
+
+        const kept: OverlayPiece[] = [];
+        for (const group of splitEdges(edges, key, tol)) {
+            const piece = group[0];
+            const net: number[] = new Array(operandCount).fill(0);
+            for (const p of group) net[edges[p.parent].operand] += key(p.a) === key(piece.a) ? 1 : -1;
+
+            const right = getWindingsOnRight(piece, group, net, edges, bands);
+            const isLeftIn = isInside(right.map((w, i) => w + net[i]));
+            const isRightIn = isInside(right);
+            if (isLeftIn && !isRightIn) kept.push(piece);
+            else if (!isLeftIn && isRightIn) kept.push({a: piece.b, b: piece.a, parent: piece.parent});
+        }
+
+        return traceLoops(kept, key, tol);
+    }
+
+    /**
+     * Splits the edges where they meet each other, grouping coincident pieces by their end points.
+     */
+    function splitEdges(edges: OverlayEdge[], key: (v: Vertex2d) => string, tol: Readonly<ToleranceContext>): OverlayPiece[][] {
+        const splits: {t: number, pt: Vertex2d}[][] = edges.map(() => []);
+        for (const point of SweepLineUtils.getAllIntersections(edges, tol).points) {
+            const pointKey = key(point.pt);
+            for (const hit of point.segments) {
+                const edge = edges[hit.index];
+                if (pointKey === key(edge.p0) || pointKey === key(edge.p1)) continue;
+                splits[hit.index].push({t: hit.t, pt: point.pt});
+            }
+        }
+
+        const groups = new Map<string, OverlayPiece[]>();
+        edges.forEach((edge, parent) => {
+            const pts = [edge.p0, ...splits[parent].sort((a, b) => a.t - b.t).map(s => s.pt), edge.p1];
+            for (let i = 0; i < pts.length - 1; i++) {
+                const ka = key(pts[i]);
+                const kb = key(pts[i + 1]);
+                if (ka === kb) continue;
+
+                const groupKey = ka < kb ? `${ka};${kb}` : `${kb};${ka}`;
+                const group = groups.get(groupKey);
+                const piece = {a: pts[i], b: pts[i + 1], parent};
+                if (group) group.push(piece);
+                else groups.set(groupKey, [piece]);
+            }
+        });
+        return [...groups.values()];
+    }
+
+    /**
+     * Indexes the edges in horizontal bands, so the winding at a point only visits the edges spanning its Y coordinate.
+     */
+    function createEdgeBands(edges: OverlayEdge[]): EdgeBands {
+        let minY = Infinity;
+        let maxY = -Infinity;
+        for (const {p0, p1} of edges) {
+            minY = Math.min(minY, p0.y, p1.y);
+            maxY = Math.max(maxY, p0.y, p1.y);
+        }
+
+        const count = Math.max(1, Math.ceil(Math.sqrt(edges.length)));
+        const bandHeight = (maxY - minY) / count || 1;
+        const bands: number[][] = Array.from({length: count}, () => []);
+        const getBand = (y: number) => Math.min(count - 1, Math.max(0, Math.floor((y - minY) / bandHeight)));
+        edges.forEach(({p0, p1}, i) => {
+            for (let band = getBand(Math.min(p0.y, p1.y)); band <= getBand(Math.max(p0.y, p1.y)); band++) bands[band].push(i);
+        });
+        return {minY, bandHeight, bands};
+    }
+
+    /**
+     * Winding numbers of every area just right of a piece.
+     *
+     * Counted at the midpoint of the piece over every edge not containing it, so the edges of its group
+     * are added back by their net direction only when a ray to +X from the right side would cross them.
+     * The midpoint and the direction are taken from the parent edge, as rounded split points may leave
+     * a piece of a horizontal edge slightly tilted.
+     */
+    function getWindingsOnRight(piece: OverlayPiece, group: OverlayPiece[], net: number[], edges: OverlayEdge[], bands: EdgeBands): number[] {
+        const parent = edges[piece.parent];
+        const d = Vector2Utils.subtract(parent.p1, parent.p0);
+        const t = Vector2Utils.dot(Vector2Utils.subtract(Vector2Utils.lerp(piece.a, piece.b, 0.5), parent.p0), d) / Vector2Utils.dot(d, d);
+        const mid = Vector2Utils.lerp(parent.p0, parent.p1, t);
+        const parents = new Set(group.map(p => p.parent));
+        const band = Math.min(bands.bands.length - 1, Math.max(0, Math.floor((mid.y - bands.minY) / bands.bandHeight)));
+
+        const winding: number[] = new Array(net.length).fill(0);
+        for (const i of bands.bands[band]) {
+            if (parents.has(i)) continue;
+            const {p0, p1, operand} = edges[i];
+            if (p0.y <= mid.y) {
+                if (p1.y > mid.y && GeometricPredicates.orient2d(p0, p1, mid) > 0) winding[operand]++;
+            } else if (p1.y <= mid.y && GeometricPredicates.orient2d(p0, p1, mid) < 0) {
+                winding[operand]--;
+            }
+        }
+
+        // The midpoint lies on the group, and counts as if it were just above a horizontal piece.
+        const isRightCrossing = d.y < 0 || (d.y === 0 && d.x > 0);
+        return isRightCrossing ? winding.map((w, i) => w - net[i]) : winding;
+    }
+
+    /**
+     * Chains the kept pieces into closed loops, turning most to the left at shared vertices
+     * so that loops touching at a vertex are traced separately.
+     */
+    function traceLoops(kept: OverlayPiece[], key: (v: Vertex2d) => string, tol: Readonly<ToleranceContext>): Polyline2d[] {
+        const outgoing = new Map<string, OverlayPiece[]>();
+        for (const piece of kept) {
+            const k = key(piece.a);
+            const list = outgoing.get(k);
+            if (list) list.push(piece);
+            else outgoing.set(k, [piece]);
+        }
+
+        const used = new Set<OverlayPiece>();
+        const loops: Polyline2d[] = [];
+        for (const first of kept) {
+            if (used.has(first)) continue;
+            used.add(first);
+
+            const startKey = key(first.a);
+            const loop: Vertex2d[] = [{...first.a}];
+            let current = first;
+            let isClosed = false;
+            for (;;) {
+                if (key(current.b) === startKey) {
+                    isClosed = true;
+                    break;
+                }
+                loop.push({...current.b});
+
+                const next = getLeftmostPiece(current, (outgoing.get(key(current.b)) ?? []).filter(p => !used.has(p)));
+                if (!next) break;
+                used.add(next);
+                current = next;
+            }
+
+            const simplified = removeCollinearPoints(loop, tol);
+            if (!isClosed || simplified.length < 3) continue;
+            if (Math.abs(PolygonUtils.getSignedArea2d(simplified)) <= tol.distance * tol.distance) continue;
+            loops.push(simplified);
+        }
+        return loops;
+    }
+
+    /**
+     * Picks the continuation which turns most to the left, keeping the traced region on the left.
+     */
+    function getLeftmostPiece(incoming: OverlayPiece, candidates: OverlayPiece[]): OverlayPiece | undefined {
+        const back = Vector2Utils.subtract(incoming.a, incoming.b);
+        let best: OverlayPiece | undefined;
+        let bestAngle = Infinity;
+        for (const candidate of candidates) {
+            const out = Vector2Utils.subtract(candidate.b, candidate.a);
+            let angle = -Vector2Utils.getAngleBetween(back, out);
+            if (angle <= 0) angle += 2 * Math.PI;
+            if (angle < bestAngle) {
+                bestAngle = angle;
+                best = candidate;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Removes the points of a closed loop lying on the segment between their neighbours,
+     * left where edges were split at intersections.
+     */
+    function removeCollinearPoints(pts: Vertex2d[], tol: Readonly<ToleranceContext>): Vertex2d[] {
+        const result = [...pts];
+        for (let i = 0; i < result.length && result.length > 2;) {
+            const prev = result[(i + result.length - 1) % result.length];
+            const next = result[(i + 1) % result.length];
+            const d = Vector2Utils.subtract(next, prev);
+            const size = Vector2Utils.getSize(d);
+            const offset = Vector2Utils.perpDot(d, Vector2Utils.subtract(result[i], prev));
+            const isBetween = Vector2Utils.dot(d, Vector2Utils.subtract(result[i], prev)) >= 0
+                && Vector2Utils.dot(d, Vector2Utils.subtract(next, result[i])) >= 0;
+            if (size > 0 && Math.abs(offset) / size <= tol.distance && isBetween) result.splice(i, 1);
+            else i++;
+        }
+        return result;
+    }
+}
@@ -1,6 +1,46 @@
-import { Vertex2d, Vertex3d } from "../models/types/basicGeometries";
+import { CoordinateSystem3d, MultiPolygon2d, Polygon2d, Polyline2d, Polyline3d, Vertex2d, Vertex3d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { CoordinateSystemUtils } from "./coordinateSystemUtils";
+import { GeometricPredicates } from "./geometricPredicates";
+import { ToleranceUtils } from "./toleranceUtils";
+import { Vector2Utils } from "./vector2Utils";
 import { VectorUtils } from "./vectorUtils";
 
+/**
+ * Result of `PolygonUtils.toPlanarFrame2d`.
+ *
+ * @property frame - The frame on the plane of the loop, whose `nAxis` is the unit Newell normal.
+ * @property polygon - The loop in the `uv` coordinates of the frame, counter-clockwise.
+ */
+export type PlanarProjection = {frame: CoordinateSystem3d, polygon: Polyline2d};
+
+/**
+ * Rule deciding which winding numbers are inside a polygon.
+ *
+ * - `evenOdd` : Inside when the winding number is odd, as `PolylineUtils.isPointInArea2d` does.
+ * - `nonZero` : Inside when the winding number is not 0, so self-overlapping parts stay filled.
+ */
+export type FillRule = 'evenOdd' | 'nonZero';
+
+/**
+ * Result of a point-in-polygon query.
+ *
+ * @property result - `true` if the point is inside or on the boundary.
+ * @property winding - The winding number of the point, counting outer boundaries counter-clockwise and holes clockwise.
+ * @property onBoundary - `true` if the point lies on an edge or a vertex.
+ * @property outOfBoundingBox - `true` if the point is outside the bounding box of the polygon.
+ */
+export type PointInPolygonResult = {
+    result: boolean,
+    winding: number,
+    onBoundary: boolean,
+    outOfBoundingBox: boolean,
+};
+
+type RingEdge = {a: Vertex2d, b: Vertex2d, sign: number};
+
+type EdgeIndex = {min: Vertex2d, max: Vertex2d, bandHeight: number, bands: RingEdge[][]};
+
 export namespace PolygonUtils {
     type SplittedTriangles = {
         t0?: {p0: Vertex3d, p1: Vertex3d, p2: Vertex3d},
@@ -10,25 +50,13 @@ export namespace PolygonUtils {
 
     type LogMessage = {result: boolean, message?: string};
     
-    export function splitQuadrant(p0: Vertex3d, p1: Vertex3d, p2: Vertex3d, p3: Vertex3d): SplittedTriangles {
-        const planarTest = checkPtsOnPlanar(p0, p1, p2, p3);
+    export function splitQuadrant(p0: Vertex3d, p1: Vertex3d, p2: Vertex3d, p3: Vertex3d, tolerance?: Partial<ToleranceContext>): SplittedTriangles {
+        const planarTest = checkPtsOnPlanar([p0, p1, p2, p3], tolerance);
         if(!planarTest.result) return ({log: {result: false, message: "NotPlanar"}});
 
         // Test concave or convex
-        const p0p1 = VectorUtils.subtract(p1, p0);
-        const p1p2 = VectorUtils.subtract(p2, p1);
-        const p2p3 = VectorUtils.subtract(p3, p2);
-        const p3p0 = VectorUtils.subtract(p0, p3);
-
-        const n0 = VectorUtils.cross(p0p1, p3p0);
-        const n1 = VectorUtils.cross(p1p2, p0p1);
-        const n2 = VectorUtils.cross(p2p3, p1p2);
-        const n3 = VectorUtils.cross(p3p0, p2p3);
-
-        const isConvex =
-            VectorUtils.dot(n0, n1) >= 0 &&
-            VectorUtils.dot(n0, n2) >= 0 &&
-            VectorUtils.dot(n0, n3) >= 0;
+        const orientations = getCornerOrientations([p0, p1, p2, p3]);
+        const isConvex = orientations.every(orientation => orientation >= 0);
         
         if(isConvex) {
             const distP0P2 = distanceSquared(p0, p2);
@@ -49,8 +77,8 @@ export namespace PolygonUtils {
             }
         } else {
             const pts = [p0, p1, p2, p3];
-            const concaveIndex = findConcaveIndex(p0, p1, p2, p3);
-            if(!concaveIndex) return {log: {result: false, message: "Can't find concave index."}};
+            const concaveIndex = orientations.findIndex(orientation => orientation < 0);
+            if(concaveIndex < 0) return {log: {result: false, message: "Can't find concave index."}};
 
             const a = pts[concaveIndex];
             const b = pts[(concaveIndex + 2) % 4];
@@ -73,27 +101,55 @@ export namespace PolygonUtils {
         return Math.pow(dx, 2) + Math.pow(dy, 2) + Math.pow(dz, 2);
     }
 
-    function findConcaveIndex(p0: Vertex3d, p1: Vertex3d, p2: Vertex3d, p3: Vertex3d): number | undefined {
-        const pts = [p0, p1, p2, p3];
-        const crosses: Vertex3d[] = [];
-        for (let i = 0; i < 4; i++) {
-            const curr = pts[i];
-            const next = pts[(i + 1) % 4];
-            const nextNext = pts[(i + 2) % 4];
-
-            const v1 = VectorUtils.subtract(next, curr);
-            const v2 = VectorUtils.subtract(nextNext, next);
+    /**
+     * Gets the orientation of every corner of a planar loop, relative to the winding of the loop.
+     * The loop is projected onto the world plane most parallel to it, and each corner is tested with
+     * the robust `GeometricPredicates.orient2d`, so nearly collinear corners are classified consistently.
+     *
+     * @returns Per corner, positive if convex, negative if concave and 0 if collinear.
+     */
+    function getCornerOrientations(pts: Vertex3d[]): number[] {
+        const normal = getNewellNormal(pts);
+        const ax = Math.abs(normal.x), ay = Math.abs(normal.y), az = Math.abs(normal.z);
 
-            crosses.push(VectorUtils.cross(v1, v2));
+        // Drop the dominant axis, keeping the projected loop counter-clockwise.
+        let project: (v: Vertex3d) => Vertex2d;
+        if (az >= ax && az >= ay) {
+            project = normal.z >= 0 ? v => ({x: v.x, y: v.y}) : v => ({x: v.y, y: v.x});
+        } else if (ax >= ay) {
+            project = normal.x >= 0 ? v => ({x: v.y, y: v.z}) : v => ({x: v.z, y: v.y});
+        } else {
+            project = normal.y >= 0 ? v => ({x: v.z, y: v.x}) : v => ({x: v.x, y: v.z});
         }
 
-        const base = crosses[0];
-        const flipIndex = crosses.findIndex((n, i) => VectorUtils.dot(n, base) < 0);
-
-        return flipIndex >= 0 ? flipIndex : undefined;
+        const projected = pts.map(project);
+        const count = projected.length;
+        return projected.map((curr, i) => GeometricPredicates.orient2d(
+            projected[(i + count - 1) % count],
+            curr,
+            projected[(i + 1) % count],
+        ));
     }
 
-    const PLANARITY_TOLERANCE = 1e-1;
+    /**
+     * Calculates the normal of a planar loop with Newell's method, which is robust to concave corners
+     * and to points slightly off the plane.
+     *
+     * @param pts - The loop. The closing point may be repeated or omitted.
+     * @returns The normal following the right-hand rule along the loop, not normalized.
+     *          Its length is twice the area of the loop, and it is a zero vector for a degenerate loop.
+     */
+    export function getNewellNormal(pts: Vertex3d[]): Vertex3d {
+        const normal: Vertex3d = {x: 0, y: 0, z: 0};
+        for (let i = 0; i < pts.length; i++) {
+            const curr = pts[i];
+            const next = pts[(i + 1) % pts.length];
+            normal.x += (curr.y - next.y) * (curr.z + next.z);
+            normal.y += (curr.z - next.z) * (curr.x + next.x);
+            normal.z += (curr.x - next.x) * (curr.y + next.y);
+        }
+        return normal;
+    }
 
     type CheckPtsOnPlanarResult = {
         result: boolean,
@@ -101,7 +157,32 @@ export namespace PolygonUtils {
         notPlanar: boolean,
     }
 
-    export function checkPtsOnPlanar(...pts: Vertex3d[]): CheckPtsOnPlanarResult {
+    /**
+     * Legacy threshold of the variadic `checkPtsOnPlanar`, compared with directions rather than distances.
+     */
+    const PLANARITY_TOLERANCE = 1e-1;
+
+    /**
+     * Checks whether all points lie on the plane passing the first three points.
+     *
+     * @param pts - The points to test.
+     * @param tolerance - Optional tolerance context. Points within its `distance` from the plane are planar.
+     * @returns The result, with flags telling whether there were not enough points or they were not planar.
+     */
+    export function checkPtsOnPlanar(pts: Vertex3d[], tolerance?: Partial<ToleranceContext>): CheckPtsOnPlanarResult;
+    /**
+     * Checks whether all points lie on the plane passing the first three points, comparing directions from the first point.
+     * Kept for compatibility: the points are planar while the cosine between the normal of the first three points
+     * and the direction to every other point is below 0.1, whatever their scale.
+     * Unlike the array form, it never reads the tolerance context, so `ToleranceUtils.setGlobal` does not change its result.
+     *
+     * @param pts - The points to test.
+     * @returns The result, with flags telling whether there were not enough points or they were not planar.
+     */
+    export function checkPtsOnPlanar(...pts: Vertex3d[]): CheckPtsOnPlanarResult;
+    export function checkPtsOnPlanar(...args: (Vertex3d | Vertex3d[] | Partial<ToleranceContext> | undefined)[]): CheckPtsOnPlanarResult {
+        const isLegacy = !Array.isArray(args[0]);
+        const pts = (isLegacy ? args : args[0]) as Vertex3d[];
         if(pts.length < 3) {
             return {
                 result: false,
@@ -110,29 +191,269 @@ export namespace PolygonUtils {
             }
         }
 
-        const p0p1 = VectorUtils.chain(pts[1]).subtract(pts[0]).normalize().value();
-        const p0p2 = VectorUtils.chain(pts[2]).subtract(pts[0]).normalize().value();
-        const n1 = VectorUtils.cross(p0p1, p0p2);
+        const result = isLegacy
+            ? checkDirectionsOnPlanar(pts)
+            : checkDistancesOnPlanar(pts, ToleranceUtils.resolve(args[1] as Partial<ToleranceContext> | undefined));
+        return {result, ptsNotEnough: false, notPlanar: !result}
+    }
 
-        const otherVectors: Vertex3d[] = [];
-        pts.forEach((pt, index) => {
-            if(index > 2) {
-                const otherVector = VectorUtils
-                    .chain(pt)
-                    .subtract(pts[0])
-                    .normalize()
-                    .value();
-                
-                otherVectors.push(otherVector);
-            }
-        });
+    function checkDistancesOnPlanar(pts: Vertex3d[], tol: Readonly<ToleranceContext>): boolean {
+        const p0p1 = VectorUtils.subtract(pts[1], pts[0]);
+        const p0p2 = VectorUtils.subtract(pts[2], pts[0]);
+        const n1 = VectorUtils.normalize(VectorUtils.cross(p0p1, p0p2));
+
+        // Distance of each point from the plane of the first three points.
+        return pts.slice(3).every(pt => Math.abs(VectorUtils.dot(n1, VectorUtils.subtract(pt, pts[0]))) < tol.distance);
+    }
 
-        const result = otherVectors.every(v => {
-            const plarnarity = VectorUtils.dot(n1, v);
+    function checkDirectionsOnPlanar(pts: Vertex3d[]): boolean {
+        const p0p1 = VectorUtils.normalize(VectorUtils.subtract(pts[1], pts[0]));
+        const p0p2 = VectorUtils.normalize(VectorUtils.subtract(pts[2], pts[0]));
+        const n1 = VectorUtils.cross(p0p1, p0p2);
+
+        return pts.slice(3).every(pt => {
+            const plarnarity = VectorUtils.dot(n1, VectorUtils.normalize(VectorUtils.subtract(pt, pts[0])));
             return Math.abs(plarnarity) < PLANARITY_TOLERANCE;
         });
+    }
 
+    /**
+     * Calculates the signed area of a 2D polygon with the shoelace formula.
+     *
+     * @param polygon - The polygon. The closing point may be repeated or omitted.
+     * @returns The area, positive if the polygon is counter-clockwise and negative if clockwise.
+     */
+    export function getSignedArea2d(polygon: Polyline2d): number {
+        let area = 0;
+        for (let i = 0; i < polygon.length; i++) {
+            const curr = polygon[i];
+            const next = polygon[(i + 1) % polygon.length];
+            area += curr.x * next.y - next.x * curr.y;
+        }
+        return area * 0.5;
+    }
 
-        return {result, ptsNotEnough: false, notPlanar: !result}
+    /**
+     * Calculates the area of a planar 3D loop from its Newell normal.
+     *
+     * @param loop - The loop. The closing point may be repeated or omitted.
+     * @returns The unsigned area of the loop.
+     */
+    export function getArea3d(loop: Polyline3d): number {
+        return VectorUtils.getSize(getNewellNormal(loop)) * 0.5;
+    }
+
+    /**
+     * Determines whether a 2D polygon is wound clockwise.
+     *
+     * @param polygon - The polygon. The closing point may be repeated or omitted.
+     * @returns `true` if the signed area is negative. Degenerate polygons without area are not clockwise.
+     */
+    export function isClockwise2d(polygon: Polyline2d): boolean {
+        return getSignedArea2d(polygon) < 0;
+    }
+
+    /**
+     * Gets a 2D polygon wound counter-clockwise, as expected for outer boundaries.
+     *
+     * @param polygon - The polygon in either orientation.
+     * @param tolerance - Optional tolerance context. Its `distance` decides whether the closing point is repeated.
+     * @returns A copy of the polygon, reversed if it was clockwise.
+     */
+    export function ensureCCW2d(polygon: Polyline2d, tolerance?: Partial<ToleranceContext>): Polyline2d {
+        return isClockwise2d(polygon) ? reverse(polygon, tolerance) : polygon.map(pt => ({...pt}));
+    }
+
+    /**
+     * Gets a 2D polygon wound clockwise, as expected for holes.
+     *
+     * @param polygon - The polygon in either orientation.
+     * @param tolerance - Optional tolerance context. Its `distance` decides whether the closing point is repeated.
+     * @returns A copy of the polygon, reversed if it was counter-clockwise.
+     */
+    export function ensureCW2d(polygon: Polyline2d, tolerance?: Partial<ToleranceContext>): Polyline2d {
+        return getSignedArea2d(polygon) > 0 ? reverse(polygon, tolerance) : polygon.map(pt => ({...pt}));
+    }
+
+    /**
+     * Reverses the winding of a loop while keeping its start point,
+     * so `[a, b, c]` becomes `[a, c, b]` and `[a, b, c, a]` becomes `[a, c, b, a]`.
+     *
+     * @param loop - The loop in 2D or 3D. The closing point may be repeated or omitted.
+     * @param tolerance - Optional tolerance context. The loop is closed when its first and last points are within its `distance`.
+     * @returns A reversed copy of the loop.
+     */
+    export function reverse<T extends Vertex2d | Vertex3d>(loop: T[], tolerance?: Partial<ToleranceContext>): T[] {
+        const tol = ToleranceUtils.resolve(tolerance);
+        if (loop.length < 2) return loop.map(pt => ({...pt}));
+
+        const first = loop[0];
+        const last = loop[loop.length - 1];
+        const dz = ('z' in first ? first.z : 0) - ('z' in last ? last.z : 0);
+        const isClosed = Math.hypot(first.x - last.x, first.y - last.y, dz) <= tol.distance;
+
+        const middle = loop.slice(1, isClosed ? -1 : undefined).reverse();
+        return [first, ...middle, ...(isClosed ? [last] : [])].map(pt => ({...pt}));
+    }
+
+    /**
+     * Projects a planar 3D loop into a 2D frame on its own plane, so 2D polygon algorithms can run on it.
+     *
+     * The frame has its origin at the first point, its `u` axis along the first edge and its normal by Newell's method,
+     * so the projected polygon is always counter-clockwise. Points off the plane are projected onto it.
+     *
+     * @param loop - The planar loop, e.g. the boundary of a sloped roof face.
+     * @param tolerance - Optional tolerance context. Edges and normals shorter than its `distance` are treated as zero.
+     * @returns The frame and the projected polygon, or `undefined` if the loop has no area.
+     */
+    export function toPlanarFrame2d(loop: Polyline3d, tolerance?: Partial<ToleranceContext>): PlanarProjection | undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
+        if (loop.length < 3) return;
+
+        const normal = getNewellNormal(loop);
+        if (VectorUtils.getSize(normal) * 0.5 < tol.distance * tol.distance) return;
+
+        const origin = loop[0];
+        const firstEdge = loop.find(pt => VectorUtils.getDist(pt, origin) >= tol.distance);
+        const uHint = firstEdge ? VectorUtils.subtract(firstEdge, origin) : undefined;
+        const frame = CoordinateSystemUtils.fromNormal(origin, normal, uHint, tol);
+        if (!frame) return;
+
+        const polygon = CoordinateSystemUtils.toLocal(frame, loop).map(pt => ({x: pt.x, y: pt.y}));
+        return {frame, polygon};
+    }
+
+    /**
+     * Lifts a 2D polygon from a planar frame back to world coordinates, the inverse of `toPlanarFrame2d`.
+     *
+     * @param polygon - The polygon in the `uv` coordinates of the frame.
+     * @param frame - The frame on the plane.
+     * @returns The loop in world coordinates.
+     */
+    export function fromPlanarFrame2d(polygon: Polyline2d, frame: CoordinateSystem3d): Polyline3d {
+        return CoordinateSystemUtils.toWorld(frame, polygon.map(pt => ({x: pt.x, y: pt.y, z: 0})));
+    }
+
+    /**
+     * Determines whether a point lies inside a polygon with holes or a multi-polygon, by its winding number.
+     *
+     * Rings are counted by their signed area, outer boundaries counter-clockwise and holes clockwise,
+     * so the winding of the input does not matter.
+     *
+     * @param polygon - The polygon with holes, or several of them.
+     * @param pt - The point to test.
+     * @param rule - The fill rule deciding which winding numbers are inside. Defaults to `'evenOdd'`.
+     * @param tolerance - Optional tolerance context. Points within its `distance` from an edge are on the boundary.
+     * @returns The result with the winding number and the boundary and bounding box flags.
+     */
+    export function isPointInPolygon2d(
+        polygon: Polygon2d | MultiPolygon2d,
+        pt: Vertex2d,
+        rule: FillRule = 'evenOdd',
+        tolerance?: Partial<ToleranceContext>
+    ): PointInPolygonResult {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const index = createEdgeIndex(getRingEdges(polygon), 1, tol);
+        return classifyPoint(index, pt, rule, tol);
+    }
+
+    /**
+     * Determines for many points whether they lie inside a polygon with holes or a multi-polygon.
+     *
+     * The edges are indexed once in horizontal bands, so each point is only tested against the edges
+     * around its Y coordinate. Use this instead of `isPointInPolygon2d` for thousands of points.
+     *
+     * @param polygon - The polygon with holes, or several of them.
+     * @param pts - The points to test.
+     * @param rule - The fill rule deciding which winding numbers are inside. Defaults to `'evenOdd'`.
+     * @param tolerance - Optional tolerance context. Points within its `distance` from an edge are on the boundary.
+     * @returns The results in the order of `pts`.
+     */
+    export function arePointsInPolygon2d(
+        polygon: Polygon2d | MultiPolygon2d,
+        pts: Vertex2d[],
+        rule: FillRule = 'evenOdd',
+        tolerance?: Partial<ToleranceContext>
+    ): PointInPolygonResult[] {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const edges = getRingEdges(polygon);
+        const index = createEdgeIndex(edges, Math.max(1, Math.ceil(Math.sqrt(edges.length))), tol);
+        return pts.map(pt => classifyPoint(index, pt, rule, tol));
+    }
+
+    /**
+     * Gets the edges of every ring, signed so that outer boundaries count counter-clockwise and holes clockwise.
+     */
+    function getRingEdges(polygon: Polygon2d | MultiPolygon2d): RingEdge[] {
+        const polygons = Array.isArray(polygon) ? polygon : [polygon];
+        const edges: RingEdge[] = [];
+        const addRing = (ring: Polyline2d, isHole: boolean) => {
+            if (ring.length < 3) return;
+            const area = getSignedArea2d(ring);
+            const sign = (area >= 0) !== isHole ? 1 : -1;
+            for (let i = 0; i < ring.length; i++) {
+                const a = ring[i];
+                const b = ring[(i + 1) % ring.length];
+                if (a.x !== b.x || a.y !== b.y) edges.push({a, b, sign});
+            }
+        };
+
+        for (const {outer, holes} of polygons) {
+            addRing(outer, false);
+            for (const hole of holes) addRing(hole, true);
+        }
+        return edges;
+    }
+
+    /**
+     * Puts each edge into the horizontal bands its Y range overlaps, widened by the tolerance for boundary tests.
+     */
+    function createEdgeIndex(edges: RingEdge[], bandCount: number, tol: Readonly<ToleranceContext>): EdgeIndex {
+        const pts = edges.map(edge => edge.a);
+        const {min, max} = pts.length > 0
+            ? VectorUtils.getBoundingBox2d(pts)
+            : {min: {x: Infinity, y: Infinity}, max: {x: -Infinity, y: -Infinity}};
+        const bandHeight = Math.max((max.y - min.y) / bandCount, tol.distance);
+        const bands: RingEdge[][] = Array.from({length: bandCount}, () => []);
+
+        const getBand = (y: number) => Math.min(bandCount - 1, Math.max(0, Math.floor((y - min.y) / bandHeight)));
+        for (const edge of edges) {
+            const from = getBand(Math.min(edge.a.y, edge.b.y) - tol.distance);
+            const to = getBand(Math.max(edge.a.y, edge.b.y) + tol.distance);
+            for (let band = from; band <= to; band++) bands[band].push(edge);
+        }
+        return {min, max, bandHeight, bands};
+    }
+
+    function classifyPoint(index: EdgeIndex, pt: Vertex2d, rule: FillRule, tol: Readonly<ToleranceContext>): PointInPolygonResult {
+        const {min, max} = index;
+        if (pt.x < min.x - tol.distance || pt.x > max.x + tol.distance || pt.y < min.y - tol.distance || pt.y > max.y + tol.distance) {
+            return {result: false, winding: 0, onBoundary: false, outOfBoundingBox: true};
+        }
+
+        const band = Math.min(index.bands.length - 1, Math.max(0, Math.floor((pt.y - min.y) / index.bandHeight)));
+        let winding = 0;
+        let onBoundary = false;
+        for (const {a, b, sign} of index.bands[band]) {
+            if (!onBoundary && isPointOnSegment2d(pt, a, b, tol)) onBoundary = true;
+
+            // Half-open crossings of a ray to +X, decided exactly by the orientation.
+            if (a.y <= pt.y) {
+                if (b.y > pt.y && GeometricPredicates.orient2d(a, b, pt) > 0) winding += sign;
+            } else if (b.y <= pt.y && GeometricPredicates.orient2d(a, b, pt) < 0) {
+                winding -= sign;
+            }
+        }
+
+        const isInside = rule === 'evenOdd' ? winding % 2 !== 0 : winding !== 0;
+        return {result: onBoundary || isInside, winding, onBoundary, outOfBoundingBox: false};
+    }
+
+    function isPointOnSegment2d(pt: Vertex2d, a: Vertex2d, b: Vertex2d, tol: Readonly<ToleranceContext>): boolean {
+        const d = Vector2Utils.subtract(b, a);
+        const lengthSquared = Vector2Utils.dot(d, d);
+        const t = lengthSquared === 0 ? 0 : Vector2Utils.dot(Vector2Utils.subtract(pt, a), d) / lengthSquared;
+        const closest = Vector2Utils.lerp(a, b, Math.min(Math.max(t, 0), 1));
+        return Vector2Utils.getDist(closest, pt) <= tol.distance;
     }
-}
\ No newline at end of file
+}
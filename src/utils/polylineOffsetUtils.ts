@@ -0,0 +1,257 @@
+import { Line2d, Polyline2d, Vertex2d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { PolygonOverlayUtils } from "./polygonOverlayUtils";
+import { PolygonUtils } from "./polygonUtils";
+import { SweepLineUtils } from "./sweepLineUtils";
+import { ToleranceUtils } from "./toleranceUtils";
+import { Vector2Utils } from "./vector2Utils";
+
+/**
+ * Shape of the corners on the outer side of an offset.
+ *
+ * - `miter` : Extends both offset edges until they meet. Falls back to `bevel` beyond the miter limit.
+ * - `round` : Connects the offset edges with an arc around the original vertex.
+ * - `bevel` : Connects the ends of the offset edges with a straight segment.
+ */
+export type OffsetJoinType = 'miter' | 'round' | 'bevel';
+
+/**
+ * Options of polyline and polygon offsets.
+ *
+ * @property joinType - Shape of the outer corners. Defaults to `'miter'`.
+ * @property miterLimit - Largest ratio of the miter length to the offset distance. Defaults to 2.
+ * @property arcStepAngle - Largest angle in radians covered by one segment of a round join. Defaults to π/16.
+ */
+export type OffsetOptions = {
+    joinType?: OffsetJoinType,
+    miterLimit?: number,
+    arcStepAngle?: number,
+}
+
+type OffsetSettings = Required<OffsetOptions> & {delta: number, closed: boolean, tol: Readonly<ToleranceContext>};
+
+const DEFAULT_OFFSET_OPTIONS: Required<OffsetOptions> = {
+    joinType: 'miter',
+    miterLimit: 2,
+    arcStepAngle: Math.PI / 16,
+};
+
+/**
+ * Namespace for offsetting 2D polylines and polygons.
+ *
+ * Use cases:
+ * - Generating both faces of a wall from its centerline.
+ * - Generating setback lines inside a site boundary.
+ */
+export namespace PolylineOffsetUtils {
+    /**
+     * Offsets an open polyline to one side.
+     * Loops created where the offset folds over itself at inner corners are removed.
+     *
+     * @param polyline - The polyline to offset. It should not intersect itself.
+     * @param dist - The offset distance. Positive values offset to the left of the polyline, negative values to the right.
+     * @param options - Optional join settings.
+     * @param tolerance - Optional tolerance context. Points closer than its `distance` are merged,
+     *                    and corners within its `angle` from straight are not joined.
+     * @returns The offset polyline, running in the same direction as the input.
+     * @throws {Error} If the polyline has fewer than two distinct points or the options are invalid.
+     */
+    export function offsetPolyline(polyline: Polyline2d, dist: number, options?: OffsetOptions, tolerance?: Partial<ToleranceContext>): Polyline2d {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const pts = removeDuplicates(polyline, tol);
+        if (pts.length < 2) throw new Error("Polyline to offset should have at least two distinct points.");
+
+        const settings = getSettings(options, dist, false, tol);
+        const directions = getDirections(pts, false);
+
+        const path: Vertex2d[] = [Vector2Utils.add(pts[0], Vector2Utils.scale(Vector2Utils.perp(directions[0]), dist))];
+        for (let i = 1; i < pts.length - 1; i++) {
+            addJoin(path, pts[i], directions[i - 1], directions[i], settings);
+        }
+        const last = directions[directions.length - 1];
+        path.push(Vector2Utils.add(pts[pts.length - 1], Vector2Utils.scale(Vector2Utils.perp(last), dist)));
+
+        return removeLoops(removeDuplicates(path, tol), tol);
+    }
+
+    /**
+     * Offsets a closed polygon outwards or inwards.
+     * Self-intersections of the offset are resolved, so a shrinking polygon may split into several polygons
+     * or vanish, and a growing polygon may enclose holes.
+     *
+     * @param polygon - The polygon to offset, in either orientation. The closing point may be repeated or omitted.
+     * @param dist - The offset distance. Positive values grow the polygon, negative values shrink it.
+     * @param options - Optional join settings.
+     * @param tolerance - Optional tolerance context. Points closer than its `distance` are merged,
+     *                    and corners within its `angle` from straight are not joined.
+     * @returns The offset polygons, closed by repeating their first point.
+     *          Outer boundaries are counter-clockwise and holes are clockwise.
+     * @throws {Error} If the polygon has fewer than three distinct points or the options are invalid.
+     */
+    export function offsetPolygon(polygon: Polyline2d, dist: number, options?: OffsetOptions, tolerance?: Partial<ToleranceContext>): Polyline2d[] {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const pts = removeDuplicates(polygon, tol);
+        if (pts.length > 1 && Vector2Utils.getDist(pts[0], pts[pts.length - 1]) <= tol.distance) pts.pop();
+        if (pts.length < 3) throw new Error("Polygon to offset should have at least three distinct points.");
+
+        // Work on the counter-clockwise polygon, whose outside is on the right of each edge.
+        if (PolygonUtils.getSignedArea2d(pts) < 0) pts.reverse();
+
+        const settings = getSettings(options, -dist, true, tol);
+        const directions = getDirections(pts, true);
+
+        const raw: Vertex2d[] = [];
+        for (let i = 0; i < pts.length; i++) {
+            addJoin(raw, pts[i], directions[(i + pts.length - 1) % pts.length], directions[i], settings);
+        }
+
+        const loop = removeDuplicates(raw, tol);
+        if (Vector2Utils.getDist(loop[0], loop[loop.length - 1]) <= tol.distance) loop.pop();
+        return getPositiveBoundaries(loop, tol);
+    }
+
+    function getSettings(options: OffsetOptions | undefined, delta: number, closed: boolean, tol: Readonly<ToleranceContext>): OffsetSettings {
+        const settings = {...DEFAULT_OFFSET_OPTIONS, ...options};
+        if (!(settings.miterLimit >= 1)) throw new Error("Miter limit should be 1 or larger.");
+        if (!(settings.arcStepAngle > 0)) throw new Error("Arc step angle should be positive.");
+        return {...settings, delta, closed, tol};
+    }
+
+    /**
+     * Adds the offset points around a vertex between the incoming direction `d0` and the outgoing direction `d1`.
+     * Points are offset by `delta` to the left of the edges.
+     */
+    function addJoin(path: Vertex2d[], pt: Vertex2d, d0: Vertex2d, d1: Vertex2d, settings: OffsetSettings) {
+        const {delta, tol} = settings;
+        const n0 = Vector2Utils.perp(d0);
+        const n1 = Vector2Utils.perp(d1);
+        const a = Vector2Utils.add(pt, Vector2Utils.scale(n0, delta));
+        const b = Vector2Utils.add(pt, Vector2Utils.scale(n1, delta));
+
+        const sin = Vector2Utils.perpDot(d0, d1);
+        const cos = Vector2Utils.dot(d0, d1);
+        const isStraight = Math.abs(sin) <= Math.sin(tol.angle);
+        if (isStraight && cos > 0) {
+            path.push(a);
+            return;
+        }
+
+        // Inner corner : the offset edges overlap.
+        if (!isStraight && sin * delta > 0) {
+            if (settings.closed) {
+                // Detour through the vertex, so the overlap forms loops which the winding cleanup removes.
+                path.push(a, pt, b);
+            } else {
+                const t = Vector2Utils.perpDot(Vector2Utils.subtract(b, a), d1) / sin;
+                path.push(Vector2Utils.add(a, Vector2Utils.scale(d0, t)));
+            }
+            return;
+        }
+
+        // Outer corner. A reversal (spike) is capped in front of the vertex.
+        const isSpike = isStraight;
+        const radius = Math.abs(delta);
+        if (settings.joinType === 'round') {
+            const u0 = Vector2Utils.scale(n0, Math.sign(delta));
+            const u1 = Vector2Utils.scale(n1, Math.sign(delta));
+            const sweep = isSpike
+                ? (Vector2Utils.perpDot(u0, d0) > 0 ? Math.PI : -Math.PI)
+                : Vector2Utils.getAngleBetween(u0, u1);
+            const steps = Math.max(1, Math.ceil(Math.abs(sweep) / settings.arcStepAngle));
+            for (let i = 0; i <= steps; i++) {
+                path.push(Vector2Utils.add(pt, Vector2Utils.scale(Vector2Utils.rotate(u0, sweep * i / steps), radius)));
+            }
+            return;
+        }
+
+        if (isSpike) {
+            const cap = Vector2Utils.scale(d0, radius);
+            path.push(a, Vector2Utils.add(a, cap), Vector2Utils.add(b, cap), b);
+            return;
+        }
+
+        const nDot = Vector2Utils.dot(n0, n1);
+        const miterRatio = 1 / Math.sqrt((1 + nDot) * 0.5);
+        if (settings.joinType === 'miter' && miterRatio <= settings.miterLimit) {
+            path.push(Vector2Utils.add(pt, Vector2Utils.scale(Vector2Utils.add(n0, n1), delta / (1 + nDot))));
+        } else {
+            path.push(a, b);
+        }
+    }
+
+    /**
+     * Removes the loops of an open path by jumping from each segment to the last segment crossing it.
+     */
+    function removeLoops(path: Vertex2d[], tol: Readonly<ToleranceContext>): Polyline2d {
+        const segments = getSegments(path, false);
+        const crossings: {j: number, ti: number, tj: number, pt: Vertex2d}[][] = segments.map(() => []);
+
+        for (const point of SweepLineUtils.getAllIntersections(segments, tol).points) {
+            for (const hit0 of point.segments) {
+                for (const hit1 of point.segments) {
+                    if (hit1.index < hit0.index + 2) continue;
+                    crossings[hit0.index].push({j: hit1.index, ti: hit0.t, tj: hit1.t, pt: point.pt});
+                }
+            }
+        }
+
+        const result: Polyline2d = [{...path[0]}];
+        let i = 0;
+        let tCurrent = 0;
+        while (i < segments.length) {
+            let next: typeof crossings[number][number] | undefined;
+            for (const crossing of crossings[i]) {
+                if (crossing.ti <= tCurrent + tol.parameter) continue;
+                if (!next || crossing.j > next.j || (crossing.j === next.j && crossing.ti < next.ti)) next = crossing;
+            }
+
+            if (next) {
+                result.push({...next.pt});
+                i = next.j;
+                tCurrent = next.tj;
+            } else {
+                result.push({...path[i + 1]});
+                i++;
+                tCurrent = 0;
+            }
+        }
+
+        return removeDuplicates(result, tol);
+    }
+
+    /**
+     * Extracts the boundaries of the region with positive winding number of a self-intersecting loop.
+     */
+    function getPositiveBoundaries(loop: Vertex2d[], tol: Readonly<ToleranceContext>): Polyline2d[] {
+        const edges = getSegments(loop, true).map(segment => ({...segment, operand: 0}));
+        const boundaries = PolygonOverlayUtils.getBoundaries(edges, 1, windings => windings[0] > 0, tol);
+        return boundaries.map(boundary => [...boundary, {...boundary[0]}]);
+    }
+
+    function getDirections(pts: Vertex2d[], closed: boolean): Vertex2d[] {
+        const count = closed ? pts.length : pts.length - 1;
+        const directions: Vertex2d[] = [];
+        for (let i = 0; i < count; i++) {
+            directions.push(Vector2Utils.normalize(Vector2Utils.subtract(pts[(i + 1) % pts.length], pts[i])));
+        }
+        return directions;
+    }
+
+    function getSegments(pts: Vertex2d[], closed: boolean): Line2d[] {
+        const count = closed ? pts.length : pts.length - 1;
+        const segments: Line2d[] = [];
+        for (let i = 0; i < count; i++) {
+            segments.push({p0: pts[i], p1: pts[(i + 1) % pts.length]});
+        }
+        return segments;
+    }
+
+    function removeDuplicates(pts: Vertex2d[], tol: Readonly<ToleranceContext>): Vertex2d[] {
+        const result: Vertex2d[] = [];
+        for (const pt of pts) {
+            if (result.length > 0 && Vector2Utils.getDist(result[result.length - 1], pt) <= tol.distance) continue;
+            result.push({x: pt.x, y: pt.y});
+        }
+        return result;
+    }
+}
@@ -0,0 +1,384 @@
+import { Line, Polyline2d, Polyline3d, Vertex3d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { DistanceUtils } from "./distanceUtils";
+import { LineEvaluation } from "./lineEvaluationUtils";
+import { SweepLineUtils } from "./sweepLineUtils";
+import { ToleranceUtils } from "./toleranceUtils";
+import { VectorUtils } from "./vectorUtils";
+
+/**
+ * Options of polyline simplification.
+ *
+ * @property keepClosed - Keeps a closed polyline closed, with at least three distinct points. Defaults to `true`.
+ *                        When `false`, a closed polyline is simplified as an open one and may collapse.
+ * @property keepEnds - Keeps the start point of a closed polyline. Defaults to `true`.
+ *                      When `false`, the result starts at the first remaining point.
+ *                      Both ends of an open polyline are always kept.
+ * @property keepTopology - Keeps the result from intersecting itself, provided the input does not. Defaults to `false`.
+ */
+export type SimplifyOptions = {
+    keepClosed?: boolean,
+    keepEnds?: boolean,
+    keepTopology?: boolean,
+}
+
+type SimplifySettings = Required<SimplifyOptions> & {is2d: boolean, tol: Readonly<ToleranceContext>};
+
+const DEFAULT_SIMPLIFY_OPTIONS: Required<SimplifyOptions> = {
+    keepClosed: true,
+    keepEnds: true,
+    keepTopology: false,
+};
+
+/**
+ * Namespace for reducing the number of points of polylines.
+ *
+ * Use cases:
+ * - Thinning outlines traced from scans or GIS data before running `PolylineUtils` queries on them.
+ * - Generating lighter outlines for distant levels of detail.
+ *
+ * The result is made of points of the input in their original order, so no new point is introduced.
+ */
+export namespace PolylineSimplifyUtils {
+    /**
+     * Simplifies a 2D polyline with the Douglas–Peucker algorithm.
+     * Points are removed as long as the result stays within `epsilon` of every removed point.
+     *
+     * @param polyline - The polyline to simplify. It is closed when its first and last points coincide.
+     * @param epsilon - The largest distance allowed between a removed point and the result.
+     * @param options - Optional settings on closedness, ends and topology.
+     * @param tolerance - Optional tolerance context. Its `distance` decides whether the polyline is closed and segments intersect.
+     * @returns The simplified polyline.
+     * @throws {Error} If `epsilon` is negative.
+     */
+    export function simplifyDouglasPeucker2d(polyline: Polyline2d, epsilon: number, options?: SimplifyOptions, tolerance?: Partial<ToleranceContext>): Polyline2d {
+        const indices = simplify(polyline.map(VectorUtils.to3d), epsilon, douglasPeucker, getSettings(options, true, tolerance));
+        return indices.map(i => ({x: polyline[i].x, y: polyline[i].y}));
+    }
+
+    /**
+     * Simplifies a 3D polyline with the Douglas–Peucker algorithm.
+     * Points are removed as long as the result stays within `epsilon` of every removed point.
+     *
+     * @param polyline - The polyline to simplify. It is closed when its first and last points coincide.
+     * @param epsilon - The largest distance allowed between a removed point and the result.
+     * @param options - Optional settings on closedness, ends and topology.
+     * @param tolerance - Optional tolerance context. Its `distance` decides whether the polyline is closed and segments intersect.
+     * @returns The simplified polyline.
+     * @throws {Error} If `epsilon` is negative.
+     */
+    export function simplifyDouglasPeucker3d(polyline: Polyline3d, epsilon: number, options?: SimplifyOptions, tolerance?: Partial<ToleranceContext>): Polyline3d {
+        const indices = simplify(polyline, epsilon, douglasPeucker, getSettings(options, false, tolerance));
+        return indices.map(i => ({...polyline[i]}));
+    }
+
+    /**
+     * Simplifies a 2D polyline with the Visvalingam–Whyatt algorithm.
+     * Points are removed in order of the area of the triangle they form with their neighbours,
+     * which keeps the overall shape better than Douglas–Peucker on smooth curves.
+     *
+     * @param polyline - The polyline to simplify. It is closed when its first and last points coincide.
+     * @param minArea - Points whose effective area is smaller than this are removed.
+     * @param options - Optional settings on closedness, ends and topology.
+     * @param tolerance - Optional tolerance context. Its `distance` decides whether the polyline is closed and segments intersect.
+     * @returns The simplified polyline.
+     * @throws {Error} If `minArea` is negative.
+     */
+    export function simplifyVisvalingam2d(polyline: Polyline2d, minArea: number, options?: SimplifyOptions, tolerance?: Partial<ToleranceContext>): Polyline2d {
+        const indices = simplify(polyline.map(VectorUtils.to3d), minArea, visvalingam, getSettings(options, true, tolerance));
+        return indices.map(i => ({x: polyline[i].x, y: polyline[i].y}));
+    }
+
+    /**
+     * Simplifies a 3D polyline with the Visvalingam–Whyatt algorithm.
+     * Points are removed in order of the area of the triangle they form with their neighbours,
+     * which keeps the overall shape better than Douglas–Peucker on smooth curves.
+     *
+     * @param polyline - The polyline to simplify. It is closed when its first and last points coincide.
+     * @param minArea - Points whose effective area is smaller than this are removed.
+     * @param options - Optional settings on closedness, ends and topology.
+     * @param tolerance - Optional tolerance context. Its `distance` decides whether the polyline is closed and segments intersect.
+     * @returns The simplified polyline.
+     * @throws {Error} If `minArea` is negative.
+     */
+    export function simplifyVisvalingam3d(polyline: Polyline3d, minArea: number, options?: SimplifyOptions, tolerance?: Partial<ToleranceContext>): Polyline3d {
+        const indices = simplify(polyline, minArea, visvalingam, getSettings(options, false, tolerance));
+        return indices.map(i => ({...polyline[i]}));
+    }
+
+    function getSettings(options: SimplifyOptions | undefined, is2d: boolean, tolerance?: Partial<ToleranceContext>): SimplifySettings {
+        return {...DEFAULT_SIMPLIFY_OPTIONS, ...options, is2d, tol: ToleranceUtils.resolve(tolerance)};
+    }
+
+    /**
+     * Runs an algorithm on the polyline and gets the indices of the remaining points.
+     * A closed polyline is passed as a ring without its closing point, which is appended back to the result.
+     */
+    function simplify(
+        pts: Vertex3d[],
+        threshold: number,
+        algorithm: (pts: Vertex3d[], closed: boolean, threshold: number, settings: SimplifySettings) => number[],
+        settings: SimplifySettings
+    ): number[] {
+        if (!(threshold >= 0)) throw new Error("Simplification threshold should not be negative.");
+        if (pts.length <= 2) return pts.map((_, i) => i);
+
+        const closed = settings.keepClosed
+            && pts.length >= 4
+            && VectorUtils.getDist(pts[0], pts[pts.length - 1]) <= settings.tol.distance;
+        if (!closed) return algorithm(pts, false, threshold, settings);
+
+        const indices = algorithm(pts.slice(0, -1), true, threshold, settings);
+        return [...indices, indices[0]];
+    }
+
+    /**
+     * Douglas–Peucker on an open polyline, or on a ring split at two far apart points.
+     */
+    function douglasPeucker(pts: Vertex3d[], closed: boolean, epsilon: number, settings: SimplifySettings): number[] {
+        // The sequence to split, as indices into `pts`. A ring is unrolled from its anchor back to itself.
+        let sequence = pts.map((_, i) => i);
+        const keep = new Array<boolean>(pts.length).fill(false);
+        if (closed) {
+            const anchor = settings.keepEnds ? 0 : getFarthestIndex(pts, pts[0]);
+            sequence = [...sequence.slice(anchor), ...sequence.slice(0, anchor), anchor];
+            keep.push(false);
+            const opposite = getFarthestIndex(sequence.map(i => pts[i]), pts[anchor]);
+            keep[opposite] = true;
+        }
+        keep[0] = true;
+        keep[sequence.length - 1] = true;
+
+        const points = sequence.map(i => pts[i]);
+        const spans = getSpans(keep);
+        for (const [i, j] of spans) {
+            splitSpan(points, i, j, epsilon, keep);
+        }
+
+        // A ring reduced to two points is given back the point farthest from them.
+        if (closed && getSpans(keep).length < 3) {
+            const [i, j] = getSpans(keep).reduce((a, b) => (b[1] - b[0] > a[1] - a[0] ? b : a));
+            const farthest = getFarthestFromSpan(points, i, j);
+            if (farthest) keep[farthest.index] = true;
+        }
+
+        if (settings.keepTopology) {
+            for (;;) {
+                const crossing = getCrossingSpans(points, getSpans(keep), closed, settings);
+                let isRefined = false;
+                for (const [i, j] of crossing) {
+                    const farthest = getFarthestFromSpan(points, i, j);
+                    if (!farthest) continue;
+                    keep[farthest.index] = true;
+                    isRefined = true;
+                }
+                if (!isRefined) break;
+            }
+        }
+
+        const result = sequence.filter((_, k) => keep[k] && (!closed || k < sequence.length - 1));
+        return closed ? result.sort((a, b) => a - b) : result;
+    }
+
+    /**
+     * Keeps the points of a span which are farther than `epsilon` from the result, splitting at the farthest one first.
+     */
+    function splitSpan(points: Vertex3d[], first: number, last: number, epsilon: number, keep: boolean[]) {
+        const stack: [number, number][] = [[first, last]];
+        let span: [number, number] | undefined;
+        while ((span = stack.pop())) {
+            const [i, j] = span;
+            const farthest = getFarthestFromSpan(points, i, j);
+            if (!farthest || farthest.dist <= epsilon) continue;
+
+            keep[farthest.index] = true;
+            stack.push([i, farthest.index], [farthest.index, j]);
+        }
+    }
+
+    /**
+     * Visvalingam–Whyatt on an open polyline or a ring.
+     * The area of a neighbour is never made smaller than the area of the point just removed,
+     * so points are removed in a consistent order.
+     */
+    function visvalingam(pts: Vertex3d[], closed: boolean, minArea: number, settings: SimplifySettings): number[] {
+        const n = pts.length;
+        const prev = pts.map((_, i) => (closed ? (i + n - 1) % n : i - 1));
+        const next = pts.map((_, i) => (closed ? (i + 1) % n : i + 1));
+        const removed = new Array<boolean>(n).fill(false);
+        const areas = new Array<number>(n).fill(Infinity);
+        const isFixed = (i: number) => (closed ? settings.keepEnds && i === 0 : i === 0 || i === n - 1);
+
+        const heap = new AreaHeap();
+        const update = (i: number, floor: number) => {
+            if (isFixed(i)) return;
+            areas[i] = Math.max(getTriangleArea(pts[prev[i]], pts[i], pts[next[i]]), floor);
+            heap.push(i, areas[i]);
+        };
+        for (let i = 0; i < n; i++) update(i, 0);
+
+        let count = n;
+        const minCount = closed ? 3 : 2;
+        let entry: {index: number, area: number} | undefined;
+        while (count > minCount && (entry = heap.pop())) {
+            const {index, area} = entry;
+            if (removed[index] || area !== areas[index]) continue;
+            if (area >= minArea) break;
+
+            if (settings.keepTopology && isCrossingOnRemoval(pts, closed, index, prev, next, settings)) {
+                areas[index] = Infinity;
+                continue;
+            }
+
+            removed[index] = true;
+            count--;
+            next[prev[index]] = next[index];
+            prev[next[index]] = prev[index];
+            update(prev[index], area);
+            update(next[index], area);
+        }
+
+        return pts.map((_, i) => i).filter(i => !removed[i]);
+    }
+
+    /**
+     * Checks whether the segment replacing a point would cross the rest of the current polyline.
+     * Segments sharing an end point with the new segment are skipped.
+     */
+    function isCrossingOnRemoval(pts: Vertex3d[], closed: boolean, index: number, prev: number[], next: number[], settings: SimplifySettings): boolean {
+        const a = prev[index];
+        const c = next[index];
+        const shortcut = {p0: pts[a], p1: pts[c]};
+        const isOther = (i: number) => i >= 0 && i < pts.length && i !== a && i !== c;
+
+        const isCrossingFrom = (start: number, step: number[]) => {
+            for (let i = start, j = step[start]; isOther(i) && isOther(j); i = j, j = step[j]) {
+                if (isCrossing(shortcut, {p0: pts[i], p1: pts[j]}, settings)) return true;
+            }
+            return false;
+        };
+
+        // A ring is walked around from `c` to `a`, an open polyline in both directions to its ends.
+        return isCrossingFrom(next[c], next) || (!closed && isCrossingFrom(prev[a], prev));
+    }
+
+    /**
+     * Gets the spans between kept points which cross another, non-adjacent span.
+     */
+    function getCrossingSpans(points: Vertex3d[], spans: [number, number][], closed: boolean, settings: SimplifySettings): [number, number][] {
+        const isAdjacent = (k0: number, k1: number) => Math.abs(k0 - k1) === 1
+            || (closed && Math.abs(k0 - k1) === spans.length - 1);
+        const crossing = new Set<number>();
+
+        if (settings.is2d) {
+            const segments = spans.map(([i, j]) => ({p0: points[i], p1: points[j]}));
+            for (const point of SweepLineUtils.getAllIntersections(segments, settings.tol).points) {
+                for (const hit0 of point.segments) {
+                    for (const hit1 of point.segments) {
+                        if (hit0.index < hit1.index && !isAdjacent(hit0.index, hit1.index)) {
+                            crossing.add(hit0.index).add(hit1.index);
+                        }
+                    }
+                }
+            }
+        } else {
+            for (let k0 = 0; k0 < spans.length; k0++) {
+                for (let k1 = k0 + 2; k1 < spans.length; k1++) {
+                    if (isAdjacent(k0, k1)) continue;
+                    const s0 = {p0: points[spans[k0][0]], p1: points[spans[k0][1]]};
+                    const s1 = {p0: points[spans[k1][0]], p1: points[spans[k1][1]]};
+                    if (isCrossing(s0, s1, settings)) crossing.add(k0).add(k1);
+                }
+            }
+        }
+
+        return [...crossing].map(k => spans[k]);
+    }
+
+    function isCrossing(s0: Line, s1: Line, settings: SimplifySettings): boolean {
+        const test = settings.is2d
+            ? LineEvaluation.getSegmentIntersection2d(s0, s1, settings.tol)
+            : LineEvaluation.getSegmentIntersection(s0, s1, settings.tol);
+        return test.type !== 'none';
+    }
+
+    function getSpans(keep: boolean[]): [number, number][] {
+        const spans: [number, number][] = [];
+        let last = 0;
+        for (let k = 1; k < keep.length; k++) {
+            if (!keep[k]) continue;
+            spans.push([last, k]);
+            last = k;
+        }
+        return spans;
+    }
+
+    function getFarthestFromSpan(points: Vertex3d[], i: number, j: number): {index: number, dist: number} | undefined {
+        let farthest: {index: number, dist: number} | undefined;
+        const segment = {p0: points[i], p1: points[j]};
+        for (let k = i + 1; k < j; k++) {
+            const dist = DistanceUtils.getDistanceOfPointAndSegment(points[k], segment).dist;
+            if (!farthest || dist > farthest.dist) farthest = {index: k, dist};
+        }
+        return farthest;
+    }
+
+    function getFarthestIndex(pts: Vertex3d[], from: Vertex3d): number {
+        let index = 0;
+        let max = -1;
+        pts.forEach((pt, i) => {
+            const dist = VectorUtils.getDist(pt, from);
+            if (dist > max) {
+                max = dist;
+                index = i;
+            }
+        });
+        return index;
+    }
+
+    function getTriangleArea(p0: Vertex3d, p1: Vertex3d, p2: Vertex3d): number {
+        return VectorUtils.getSize(VectorUtils.cross(VectorUtils.subtract(p1, p0), VectorUtils.subtract(p2, p0))) * 0.5;
+    }
+}
+
+/**
+ * Min-heap of point indices by area. Outdated entries are left in place and skipped when popped.
+ */
+class AreaHeap {
+    private readonly heap: {index: number, area: number}[] = [];
+
+    push(index: number, area: number) {
+        const heap = this.heap;
+        heap.push({index, area});
+        let i = heap.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (heap[parent].area <= heap[i].area) break;
+            [heap[i], heap[parent]] = [heap[parent], heap[i]];
+            i = parent;
+        }
+    }
+
+    pop(): {index: number, area: number} | undefined {
+        const heap = this.heap;
+        if (heap.length === 0) return;
+
+        const top = heap[0];
+        const last = heap.pop()!;
+        if (heap.length > 0) {
+            heap[0] = last;
+            let i = 0;
+            for (;;) {
+                const l = 2 * i + 1;
+                const r = l + 1;
+                let min = i;
+                if (l < heap.length && heap[l].area < heap[min].area) min = l;
+                if (r < heap.length && heap[r].area < heap[min].area) min = r;
+                if (min === i) break;
+                [heap[i], heap[min]] = [heap[min], heap[i]];
+                i = min;
+            }
+        }
+        return top;
+    }
+}
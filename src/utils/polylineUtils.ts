@@ -1,15 +1,13 @@
 import { Line, Line2d, Polyline2d, Polyline3d, Vertex2d, Vertex3d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { GeometricPredicates } from "./geometricPredicates";
 import { LineEvaluation } from "./lineEvaluationUtils";
+import { PolygonUtils } from "./polygonUtils";
+import { SweepLineUtils } from "./sweepLineUtils";
+import { ToleranceUtils } from "./toleranceUtils";
+import { Vector2Utils } from "./vector2Utils";
 import { VectorUtils } from "./vectorUtils";
 
-const POLYLINE_CLOSED_TOLERANCE = 1e-6;
-const POLYLINE_ZERO_LENGTH = 1e-6;
-
-const EPS_DIST = 1e-9;
-const EPS_T    = 1e-12;
-
-const PT_ON_BB_TOLERANCE = 1e-6;
-
 export type Polyline2dEvaluationFactor = {
   travelDistanceOnPolyline: number;
   distToFooting: number;
@@ -22,13 +20,40 @@ export type Polyline2dEvaluationFactor = {
   vertexIndex?: number;             
 };
 
+/**
+ * A point evaluated at a distance along a polyline, with the fields of `Polyline2dEvaluationFactor`
+ * and the unit `tangent` of the segment it lies on.
+ */
+export type PolylinePointEvaluation = Omit<Polyline2dEvaluationFactor, 'distToFooting'> & { tangent: Vertex3d; };
+
+/**
+ * A point where a polyline meets itself, between the segments `segIndex0 < segIndex1` at the parameters `tSeg0` and `tSeg1` on them.
+ * When the segments are collinear, `overlap` is their shared part oriented along `segIndex0`,
+ * and `pt` / `tSeg0` / `tSeg1` refer to its start.
+ */
+export type PolylineSelfIntersection = {
+  pt: Vertex2d;
+  segIndex0: number;
+  segIndex1: number;
+  tSeg0: number;
+  tSeg1: number;
+  overlap?: Line2d;
+};
+
 interface FlagsStrict {
   isOpen: boolean;           // polyline is not closed
   outOfBoundingBox: boolean; // point is outside bounding box
   onBoundary: boolean;       // point lies on edge or vertex
 }
 
-interface IntersectionInfo { pt: Vertex2d; t: number; }
+interface IntersectionInfo { pt: Vertex2d; t: number; overlap?: Line2d; }
+
+/**
+ * Intersection of a polyline with a line, at parameter `t` on the line.
+ * When a polyline edge lies on the line, `overlap` is the shared part oriented along the line,
+ * and `pt` / `t` refer to its start.
+ */
+export type PolylineIntersection = { pt: Vertex3d; t: number; overlap?: Line; };
 
 interface PointInAreaResult extends FlagsStrict {
   result: boolean;            // inside (true) / outside (false)
@@ -45,9 +70,7 @@ export namespace PolylineUtils {
   export function getLengthPolyline2d(polyline: Polyline2d): number {
     let sum = 0;
     for (let i = 0; i < polyline.length - 1; i++) {
-      const p0 = { ...polyline[i], z: 0 };
-      const p1 = { ...polyline[i + 1], z: 0 };
-      sum += VectorUtils.getDist(p0, p1);
+      sum += Vector2Utils.getDist(polyline[i], polyline[i + 1]);
     }
     return sum;
   }
@@ -76,6 +99,7 @@ export namespace PolylineUtils {
    * @param polyline - The polyline to evaluate, represented as an array of 2D vertices.
    * @param pt - The 2D point for which to find the closest footing point on the polyline.
    * @param withinCurve - If true, restricts the search to points strictly within segments (not at vertices).
+   * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
    * @returns An object containing:
    *   - `pt`: The closest point on the polyline (2D).
    *   - `t`: The normalized parameter (0 to 1) representing the position along the polyline.
@@ -86,11 +110,13 @@ export namespace PolylineUtils {
   export function footingPointOnPolyline2d(
     polyline: Polyline2d,
     pt: Vertex2d,
-    withinCurve = false
+    withinCurve = false,
+    tolerance?: Partial<ToleranceContext>
   ): { pt: Vertex2d; t: number; lineSegment: Line; availableFactors: Polyline2dEvaluationFactor[] } | undefined {
+    const tol = ToleranceUtils.resolve(tolerance);
     if (polyline.length < 2) return;
     const polyLen = getLengthPolyline2d(polyline);
-    if (polyLen < POLYLINE_ZERO_LENGTH) return;
+    if (polyLen < tol.distance) return;
 
     const origin = to3(pt);
 
@@ -105,7 +131,7 @@ export namespace PolylineUtils {
       const seg: Line = { p0, p1 };
 
       // Foot on extended line (param.t is based on extended line);
-      const param = LineEvaluation.getFootPointOnLine(seg, origin);
+      const param = LineEvaluation.getFootPointOnLine(seg, origin, tol);
       if (!param) continue;
 
       const tRaw = param.t;
@@ -113,7 +139,7 @@ export namespace PolylineUtils {
       const ptOnSeg = lerp3(p0, p1, tSeg);
 
       if (withinCurve) {
-        if (!(tSeg > EPS_T && tSeg < 1 - EPS_T)) {
+        if (!(tSeg > tol.parameter && tSeg < 1 - tol.parameter)) {
           continue;
         }
       }
@@ -121,8 +147,8 @@ export namespace PolylineUtils {
       const distOnSeg = VectorUtils.getDist(p0, ptOnSeg);
       const travel = lengthSum + distOnSeg;
 
-      const isAtVertex = (tSeg <= EPS_T) || (tSeg >= 1 - EPS_T);
-      const vertexIndex = tSeg <= EPS_T ? i : (tSeg >= 1 - EPS_T ? i + 1 : undefined);
+      const isAtVertex = (tSeg <= tol.parameter) || (tSeg >= 1 - tol.parameter);
+      const vertexIndex = tSeg <= tol.parameter ? i : (tSeg >= 1 - tol.parameter ? i + 1 : undefined);
 
       factorsRaw.push({
         travelDistanceOnPolyline: travel,
@@ -137,7 +163,7 @@ export namespace PolylineUtils {
       });
     }
 
-    const factors = dedupeCandidates(factorsRaw);
+    const factors = dedupeCandidates(factorsRaw, tol.distance);
 
     if (factors.length === 0) return;
 
@@ -166,16 +192,19 @@ export namespace PolylineUtils {
    * @param polyline - The polyline represented as an array of 3D vertices.
    * @param pt - The 3D point for which to find the closest footing point on the polyline.
    * @param includeEnds - If `true`, endpoints of the polyline segments are considered as valid footing points; otherwise, only interior points are considered.
+   * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
    * @returns An object containing the closest point (`pt`) on the polyline, the normalized position (`t`) along the polyline, and the corresponding line segment (`lineSegment`), or `undefined` if no valid footing point is found.
    */
   export function footingPointOnPolyline3d(
     polyline: Polyline3d,
     pt: Vertex3d,
-    includeEnds = false
+    includeEnds = false,
+    tolerance?: Partial<ToleranceContext>
   ): { pt: Vertex3d; t: number; lineSegment: Line } | undefined {
+    const tol = ToleranceUtils.resolve(tolerance);
     if (polyline.length < 2) return;
     const polyLen = getLengthPolyline3d(polyline);
-    if (polyLen < POLYLINE_ZERO_LENGTH) return;
+    if (polyLen < tol.distance) return;
 
     const origin = pt;
 
@@ -188,7 +217,7 @@ export namespace PolylineUtils {
       if (i > 0) lengthSum += VectorUtils.getDist(polyline[i - 1], p0);
 
       const seg: Line = { p0, p1 };
-      const param = LineEvaluation.getFootPointOnLine(seg, origin);
+      const param = LineEvaluation.getFootPointOnLine(seg, origin, tol);
       if (!param) continue;
 
       const tRaw = param.t;
@@ -197,14 +226,14 @@ export namespace PolylineUtils {
 
       // when includeEnds=false, don't consider endpoints.
       if (!includeEnds) {
-        if (!(tSeg > EPS_T && tSeg < 1 - EPS_T)) continue;
+        if (!(tSeg > tol.parameter && tSeg < 1 - tol.parameter)) continue;
       }
 
       const distOnSeg = VectorUtils.getDist(p0, ptOnSeg);
       const travel = lengthSum + distOnSeg;
 
-      const isAtVertex = (tSeg <= EPS_T) || (tSeg >= 1 - EPS_T);
-      const vertexIndex = tSeg <= EPS_T ? i : (tSeg >= 1 - EPS_T ? i + 1 : undefined);
+      const isAtVertex = (tSeg <= tol.parameter) || (tSeg >= 1 - tol.parameter);
+      const vertexIndex = tSeg <= tol.parameter ? i : (tSeg >= 1 - tol.parameter ? i + 1 : undefined);
 
       factorsRaw.push({
         travelDistanceOnPolyline: travel,
@@ -219,7 +248,7 @@ export namespace PolylineUtils {
       });
     }
 
-    const factors = dedupeCandidates(factorsRaw);
+    const factors = dedupeCandidates(factorsRaw, tol.distance);
     if (factors.length === 0) return;
 
     factors.sort((a, b) =>
@@ -236,25 +265,162 @@ export namespace PolylineUtils {
     };
   }
 
+  /**
+   * Evaluates the point at a travel distance along a 2D polyline, the inverse of `footingPointOnPolyline2d`.
+   * At a vertex between two segments, the point is evaluated on the outgoing segment.
+   *
+   * @param polyline - The polyline represented as an array of 2D vertices.
+   * @param length - The travel distance from the start of the polyline.
+   * @param tolerance - Optional tolerance context. Lengths beyond the ends by less than its `distance` are clamped.
+   * @returns The evaluated point at `z = 0`, or `undefined` if the polyline has no length or `length` is out of range.
+   */
+  export function pointAtLength2d(polyline: Polyline2d, length: number, tolerance?: Partial<ToleranceContext>): PolylinePointEvaluation | undefined {
+    const pts = polyline.map(to3);
+    return evaluateAtLength(pts, getCumulativeLengths(pts), length, ToleranceUtils.resolve(tolerance));
+  }
+
+  /**
+   * Evaluates the point at a travel distance along a 3D polyline, the inverse of `footingPointOnPolyline3d`.
+   * At a vertex between two segments, the point is evaluated on the outgoing segment.
+   *
+   * @param polyline - The polyline represented as an array of 3D vertices.
+   * @param length - The travel distance from the start of the polyline.
+   * @param tolerance - Optional tolerance context. Lengths beyond the ends by less than its `distance` are clamped.
+   * @returns The evaluated point, or `undefined` if the polyline has no length or `length` is out of range.
+   */
+  export function pointAtLength3d(polyline: Polyline3d, length: number, tolerance?: Partial<ToleranceContext>): PolylinePointEvaluation | undefined {
+    return evaluateAtLength(polyline, getCumulativeLengths(polyline), length, ToleranceUtils.resolve(tolerance));
+  }
+
+  /**
+   * Evaluates the point at a normalized parameter along a 2D polyline.
+   *
+   * @param polyline - The polyline represented as an array of 2D vertices.
+   * @param t - The parameter 0 ~ 1, as the travel distance divided by the length of the polyline.
+   * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+   * @returns The evaluated point at `z = 0`, or `undefined` if the polyline has no length or `t` is out of range.
+   */
+  export function pointAtParameter2d(polyline: Polyline2d, t: number, tolerance?: Partial<ToleranceContext>): PolylinePointEvaluation | undefined {
+    return pointAtLength2d(polyline, t * getLengthPolyline2d(polyline), tolerance);
+  }
+
+  /**
+   * Evaluates the point at a normalized parameter along a 3D polyline.
+   *
+   * @param polyline - The polyline represented as an array of 3D vertices.
+   * @param t - The parameter 0 ~ 1, as the travel distance divided by the length of the polyline.
+   * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+   * @returns The evaluated point, or `undefined` if the polyline has no length or `t` is out of range.
+   */
+  export function pointAtParameter3d(polyline: Polyline3d, t: number, tolerance?: Partial<ToleranceContext>): PolylinePointEvaluation | undefined {
+    return pointAtLength3d(polyline, t * getLengthPolyline3d(polyline), tolerance);
+  }
+
+  /**
+   * Divides a 2D polyline into parts of equal length.
+   *
+   * @param polyline - The polyline represented as an array of 2D vertices.
+   * @param count - The number of parts.
+   * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+   * @returns `count + 1` evaluated points from the start to the end, or an empty array if the polyline has no length.
+   * @throws {Error} If `count` is not a positive integer.
+   */
+  export function divideByCount2d(polyline: Polyline2d, count: number, tolerance?: Partial<ToleranceContext>): PolylinePointEvaluation[] {
+    return divideByCount(polyline.map(to3), count, ToleranceUtils.resolve(tolerance));
+  }
+
+  /**
+   * Divides a 3D polyline into parts of equal length.
+   *
+   * @param polyline - The polyline represented as an array of 3D vertices.
+   * @param count - The number of parts.
+   * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+   * @returns `count + 1` evaluated points from the start to the end, or an empty array if the polyline has no length.
+   * @throws {Error} If `count` is not a positive integer.
+   */
+  export function divideByCount3d(polyline: Polyline3d, count: number, tolerance?: Partial<ToleranceContext>): PolylinePointEvaluation[] {
+    return divideByCount(polyline, count, ToleranceUtils.resolve(tolerance));
+  }
+
+  /**
+   * Divides a 2D polyline at a fixed spacing from its start, e.g. for columns along a grid line.
+   * The last part is shorter than `length` unless the polyline length is a multiple of it.
+   *
+   * @param polyline - The polyline represented as an array of 2D vertices.
+   * @param length - The spacing between the points.
+   * @param tolerance - Optional tolerance context. A point within its `distance` beyond the end is placed at the end.
+   * @returns The evaluated points at 0, `length`, `2 * length`, ..., or an empty array if the polyline has no length.
+   * @throws {Error} If `length` is not positive.
+   */
+  export function divideByLength2d(polyline: Polyline2d, length: number, tolerance?: Partial<ToleranceContext>): PolylinePointEvaluation[] {
+    return divideByLength(polyline.map(to3), length, ToleranceUtils.resolve(tolerance));
+  }
+
+  /**
+   * Divides a 3D polyline at a fixed spacing from its start, e.g. for sprinklers along a pipe run.
+   * The last part is shorter than `length` unless the polyline length is a multiple of it.
+   *
+   * @param polyline - The polyline represented as an array of 3D vertices.
+   * @param length - The spacing between the points.
+   * @param tolerance - Optional tolerance context. A point within its `distance` beyond the end is placed at the end.
+   * @returns The evaluated points at 0, `length`, `2 * length`, ..., or an empty array if the polyline has no length.
+   * @throws {Error} If `length` is not positive.
+   */
+  export function divideByLength3d(polyline: Polyline3d, length: number, tolerance?: Partial<ToleranceContext>): PolylinePointEvaluation[] {
+    return divideByLength(polyline, length, ToleranceUtils.resolve(tolerance));
+  }
+
+  /**
+   * Resamples a 2D polyline into a new one with evenly spaced points.
+   * The spacing is adjusted so that the polyline is divided into equal parts,
+   * and corners between the new points are cut.
+   *
+   * @param polyline - The polyline represented as an array of 2D vertices.
+   * @param spacing - The target distance along the polyline between consecutive points.
+   * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+   * @returns The resampled polyline with the same ends, or an empty array if the polyline has no length.
+   * @throws {Error} If `spacing` is not positive.
+   */
+  export function resamplePolyline2d(polyline: Polyline2d, spacing: number, tolerance?: Partial<ToleranceContext>): Polyline2d {
+    return resample(polyline.map(to3), spacing, ToleranceUtils.resolve(tolerance)).map(pt => ({ x: pt.x, y: pt.y }));
+  }
+
+  /**
+   * Resamples a 3D polyline into a new one with evenly spaced points.
+   * The spacing is adjusted so that the polyline is divided into equal parts,
+   * and corners between the new points are cut.
+   *
+   * @param polyline - The polyline represented as an array of 3D vertices.
+   * @param spacing - The target distance along the polyline between consecutive points.
+   * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+   * @returns The resampled polyline with the same ends, or an empty array if the polyline has no length.
+   * @throws {Error} If `spacing` is not positive.
+   */
+  export function resamplePolyline3d(polyline: Polyline3d, spacing: number, tolerance?: Partial<ToleranceContext>): Polyline3d {
+    return resample(polyline, spacing, ToleranceUtils.resolve(tolerance));
+  }
+
   /**
    * Computes the intersection points between a given polyline and a line in 3D space.
    * Iterates through each segment of the polyline and checks for intersection with the specified line.
    * Returns an array of intersection points, each with its corresponding parameter `t` on the line,
-   * sorted in ascending order of `t`.
+   * sorted in ascending order of `t`. Edges lying on the line are reported with their shared part as `overlap`.
    *
    * @param polyline - The polyline represented as an array of 3D vertices.
    * @param line - The line to test for intersections, defined by two 3D points (`p0` and `p1`).
-   * @returns An array of objects containing the intersection point (`pt`) and its parameter (`t`) on the line.
+   * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+   * @returns An array of intersections with their parameter (`t`) on the line, and the shared `overlap` for collinear edges.
    */
-  export function getIntersectionWithLine(polyline: Polyline3d, line: Line) {
-      const pts: {pt: Vertex3d, t: number}[] = [];
+  export function getIntersectionWithLine(polyline: Polyline3d, line: Line, tolerance?: Partial<ToleranceContext>): PolylineIntersection[] {
+      const pts: PolylineIntersection[] = [];
       for(let i = 0; i < polyline.length - 1; i++) {
           const segment: Line = {p0: polyline[i], p1: polyline[i+1]};
-          const test = LineEvaluation.getIntersection(segment, line);
-          
-          if(test.result && test.pt) {
-              const t = LineEvaluation.getParameterOnLine(line.p0, line.p1, test.pt);
-              pts.push({pt: test.pt, t});
+          const test = LineEvaluation.getSegmentIntersection(line, segment, tolerance);
+
+          if(test.type === 'point') {
+              pts.push({pt: test.pt, t: test.t0});
+          } else if(test.type === 'overlap') {
+              pts.push({pt: test.segment.p0, t: test.interval0[0], overlap: test.segment});
           }
       }
 
@@ -266,28 +432,180 @@ export namespace PolylineUtils {
    *
    * Iterates through each segment of the polyline, checks for intersection with the given line,
    * and collects intersection points along with their parameter `t` on the line.
+   * Edges lying on the line are reported with their shared part as `overlap`.
    * The result is sorted by the parameter `t` in ascending order.
    *
    * @param polyline - The polyline represented as an array of 2D vertices.
    * @param line - The 2D line to intersect with the polyline.
-   * @returns An array of objects containing the intersection point (`pt`) and its parameter (`t`) on the line, sorted by `t`.
+   * @param tolerance - Optional tolerance context. Falls back to the global tolerance.
+   * @returns An array of intersections with their parameter (`t`) on the line, sorted by `t`. Points are returned at `z = 0`.
    */
-  export function getIntersectionWithLine2d(polyline: Polyline2d, line: Line2d) {
-      const pts: {pt: Vertex3d, t: number}[] = [];
-      const line3d: Line = {p0: {...line.p0, z: 0}, p1: {...line.p1, z: 0}};
+  export function getIntersectionWithLine2d(polyline: Polyline2d, line: Line2d, tolerance?: Partial<ToleranceContext>): PolylineIntersection[] {
+      const pts: PolylineIntersection[] = [];
+      const to3d = (v: Vertex2d): Vertex3d => ({x: v.x, y: v.y, z: 0});
       for(let i = 0; i < polyline.length - 1; i++) {
-          const segment: Line = {p0: {...polyline[i], z: 0}, p1: {...polyline[i+1], z: 0}};
-          const test = LineEvaluation.getIntersection(segment, line3d);
-          
-          if(test.result && test.pt) {
-              const t = LineEvaluation.getParameterOnLine(line3d.p0, line3d.p1, test.pt);
-              pts.push({pt: test.pt, t});
+          const segment: Line2d = {p0: polyline[i], p1: polyline[i+1]};
+          const test = LineEvaluation.getSegmentIntersection2d(line, segment, tolerance);
+
+          if(test.type === 'point') {
+              pts.push({pt: to3d(test.pt), t: test.t0});
+          } else if(test.type === 'overlap') {
+              const overlap: Line = {p0: to3d(test.segment.p0), p1: to3d(test.segment.p1)};
+              pts.push({pt: overlap.p0, t: test.interval0[0], overlap});
           }
       }
 
       return pts.sort((a, b) => a.t - b.t);
   }
 
+  /**
+   * Finds every point where a 2D polyline crosses or touches itself, with the Bentley–Ottmann sweep of `SweepLineUtils`.
+   * Consecutive segments meeting at their shared vertex are not reported, nor are the first and last segments
+   * of a closed polyline, while segments folding back onto each other are reported as overlaps.
+   *
+   * @param polyline - The polyline represented as an array of 2D vertices. It is closed when its first and last points coincide.
+   * @param tolerance - Optional tolerance context. Its `distance` decides whether segments meet and whether the polyline is closed.
+   * @returns The self-intersections sorted by `segIndex0`, then `tSeg0`. Empty for a simple polyline.
+   */
+  export function getSelfIntersections2d(polyline: Polyline2d, tolerance?: Partial<ToleranceContext>): PolylineSelfIntersection[] {
+    const tol = ToleranceUtils.resolve(tolerance);
+    if (polyline.length < 3) return [];
+    const closed = Vector2Utils.getDist(polyline[0], polyline[polyline.length - 1]) <= tol.distance;
+
+    const segments: Line2d[] = [];
+    for (let i = 0; i < polyline.length - 1; i++) segments.push({ p0: polyline[i], p1: polyline[i + 1] });
+    const sweep = SweepLineUtils.getAllIntersections(segments, tol);
+
+    const result: PolylineSelfIntersection[] = [];
+    const overlapping = new Set<string>();
+    for (const overlap of sweep.overlaps) {
+      overlapping.add(`${overlap.index0},${overlap.index1}`);
+      result.push({
+        pt: { ...overlap.segment.p0 },
+        segIndex0: overlap.index0,
+        segIndex1: overlap.index1,
+        tSeg0: overlap.interval0[0],
+        tSeg1: overlap.interval1[0],
+        overlap: overlap.segment
+      });
+    }
+
+    for (const point of sweep.points) {
+      for (const hit0 of point.segments) {
+        for (const hit1 of point.segments) {
+          if (hit0.index >= hit1.index || overlapping.has(`${hit0.index},${hit1.index}`)) continue;
+          if (isConnectedAt(polyline, closed, hit0.index, hit1.index, point.pt, tol)) continue;
+          result.push({ pt: { ...point.pt }, segIndex0: hit0.index, segIndex1: hit1.index, tSeg0: hit0.t, tSeg1: hit1.t });
+        }
+      }
+    }
+
+    return result.sort((a, b) => (a.segIndex0 - b.segIndex0) || (a.tSeg0 - b.tSeg0) || (a.segIndex1 - b.segIndex1));
+  }
+
+  /**
+   * Removes consecutive duplicate vertices of a 2D polyline, and with them its zero-length segments.
+   * The closing point of a closed polyline is kept.
+   *
+   * @param polyline - The polyline represented as an array of 2D vertices.
+   * @param tolerance - Optional tolerance context. Vertices closer than its `distance` are duplicates.
+   * @returns A new polyline without zero-length segments.
+   */
+  export function removeDuplicateVertices2d(polyline: Polyline2d, tolerance?: Partial<ToleranceContext>): Polyline2d {
+    const tol = ToleranceUtils.resolve(tolerance);
+    const closed = polyline.length > 2 && Vector2Utils.getDist(polyline[0], polyline[polyline.length - 1]) <= tol.distance;
+
+    const result: Polyline2d = [];
+    for (const pt of polyline) {
+      if (result.length > 0 && Vector2Utils.getDist(result[result.length - 1], pt) <= tol.distance) continue;
+      result.push({ x: pt.x, y: pt.y });
+    }
+    if (closed && result.length > 1 && Vector2Utils.getDist(result[0], result[result.length - 1]) > tol.distance) {
+      result.push({ ...result[0] });
+    }
+    return result;
+  }
+
+  /**
+   * Removes consecutive duplicate vertices of a 3D polyline, and with them its zero-length segments.
+   * The closing point of a closed polyline is kept.
+   *
+   * @param polyline - The polyline represented as an array of 3D vertices.
+   * @param tolerance - Optional tolerance context. Vertices closer than its `distance` are duplicates.
+   * @returns A new polyline without zero-length segments.
+   */
+  export function removeDuplicateVertices3d(polyline: Polyline3d, tolerance?: Partial<ToleranceContext>): Polyline3d {
+    const tol = ToleranceUtils.resolve(tolerance);
+    const closed = polyline.length > 2 && VectorUtils.getDist(polyline[0], polyline[polyline.length - 1]) <= tol.distance;
+
+    const result: Polyline3d = [];
+    for (const pt of polyline) {
+      if (result.length > 0 && VectorUtils.getDist(result[result.length - 1], pt) <= tol.distance) continue;
+      result.push({ ...pt });
+    }
+    if (closed && result.length > 1 && VectorUtils.getDist(result[0], result[result.length - 1]) > tol.distance) {
+      result.push({ ...result[0] });
+    }
+    return result;
+  }
+
+  /**
+   * Repairs a self-intersecting 2D polygon by splitting it into simple loops, e.g. a bow-tie into two triangles.
+   *
+   * The polygon is split at every point where it meets itself, and a loop is cut off each time the boundary
+   * comes back to a point it has already passed. Duplicate vertices are removed, and loops without area,
+   * such as edges drawn back and forth, are dropped. Each loop keeps the direction it is drawn in,
+   * so the two halves of a bow-tie have opposite orientations.
+   *
+   * @param polygon - The polygon represented as an array of 2D vertices. The closing point may be repeated or omitted.
+   * @param tolerance - Optional tolerance context. Its `distance` decides whether segments meet, and its `hashPrecision` merges split points.
+   * @returns The simple loops, closed by repeating their first point. A simple polygon is returned as a single loop.
+   */
+  export function splitSelfIntersections2d(polygon: Polyline2d, tolerance?: Partial<ToleranceContext>): Polyline2d[] {
+    const tol = ToleranceUtils.resolve(tolerance);
+    const ring = removeDuplicateVertices2d(polygon, tol);
+    if (ring.length > 1 && Vector2Utils.getDist(ring[0], ring[ring.length - 1]) <= tol.distance) ring.pop();
+    if (ring.length < 3) return [];
+
+    const segments: Line2d[] = ring.map((p0, i) => ({ p0, p1: ring[(i + 1) % ring.length] }));
+    const splits: { t: number; pt: Vertex2d }[][] = segments.map(() => []);
+    for (const point of SweepLineUtils.getAllIntersections(segments, tol).points) {
+      for (const hit of point.segments) splits[hit.index].push({ t: hit.t, pt: point.pt });
+    }
+
+    const key = (v: Vertex2d) => ToleranceUtils.getHash2d(v, tol);
+    const sequence: Vertex2d[] = [];
+    segments.forEach((segment, i) => {
+      sequence.push(segment.p0);
+      for (const split of splits[i].sort((a, b) => a.t - b.t)) {
+        if (key(split.pt) !== key(segment.p0) && key(split.pt) !== key(segment.p1)) sequence.push(split.pt);
+      }
+    });
+    sequence.push(ring[0]);
+
+    // Walk the boundary, cutting off a loop each time a point is reached again.
+    const loops: Polyline2d[] = [];
+    const stack: Vertex2d[] = [];
+    const positions = new Map<string, number>();
+    for (const pt of sequence) {
+      const k = key(pt);
+      const at = positions.get(k);
+      if (at === undefined) {
+        positions.set(k, stack.length);
+        stack.push(pt);
+        continue;
+      }
+
+      const loop = [stack[at], ...stack.splice(at + 1)];
+      for (const removed of loop.slice(1)) positions.delete(key(removed));
+      if (loop.length >= 3 && Math.abs(PolygonUtils.getSignedArea2d(loop)) > tol.distance * tol.distance) {
+        loops.push([...loop, loop[0]].map(v => ({ x: v.x, y: v.y })));
+      }
+    }
+
+    return loops;
+  }
+
   /**
    * Determines whether a given 2D point lies inside, outside, or on the boundary of a closed polyline.
    *
@@ -296,8 +614,14 @@ export namespace PolylineUtils {
    * 2. Checks if the point lies exactly on any edge or vertex of the polyline.
    * 3. Quickly rejects points outside the polyline's bounding box (with tolerance).
    * 4. Uses the ray casting (even/odd rule) algorithm to determine if the point is inside the polyline.
+   *    Each edge crossing is decided by the robust `GeometricPredicates.orient2d`.
    * 5. Optionally computes intersection points of a horizontal ray from the point with the polyline.
    *
+   * The even/odd rule is only meaningful for simple boundaries. Check hand-drawn boundaries with
+   * `getSelfIntersections2d`, and repair them with `splitSelfIntersections2d` first.
+   * For polygons with holes, the nonzero rule or many points, use `PolygonUtils.isPointInPolygon2d`
+   * and `PolygonUtils.arePointsInPolygon2d`.
+   *
    * Returns a result object containing:
    * - `result`: `true` if the point is inside or on the boundary, `false` otherwise.
    * - `intersections`: Array of intersection points (if computed).
@@ -305,9 +629,12 @@ export namespace PolylineUtils {
    *
    * @param polyline - The closed polyline represented as an array of 2D vertices.
    * @param pt - The 2D point to test.
+   * @param tolerance - Optional tolerance context. Its `distance` is used for closedness, boundary and bounding box checks.
    * @returns An object describing the point's relation to the polyline and intersection details.
    */
-  export function isPointInArea2d(polyline: Polyline2d, pt: Vertex2d): PointInAreaResult {
+  export function isPointInArea2d(polyline: Polyline2d, pt: Vertex2d, tolerance?: Partial<ToleranceContext>): PointInAreaResult {
+    const tol = ToleranceUtils.resolve(tolerance);
+
     // initialize all flags to false
     let flags: FlagsStrict = {
       isOpen: false,
@@ -318,15 +645,15 @@ export namespace PolylineUtils {
     // 0) Check if polyline is closed
     const plStart = polyline[0];
     const plEnd = polyline[polyline.length - 1];
-    const dist = VectorUtils.getDist({ ...plStart, z: 0 }, { ...plEnd, z: 0 });
-    if (dist > POLYLINE_CLOSED_TOLERANCE) {
+    const dist = Vector2Utils.getDist(plStart, plEnd);
+    if (dist > tol.distance) {
       return { result: false, intersections: [], ...flags, isOpen: true };
     }
 
     // 1) If point lies exactly on edge or vertex -> immediately return true
     for (let i = 0; i < polyline.length - 1; i++) {
       const a = polyline[i], b = polyline[i + 1];
-      if (pointOnSegment2d(pt, a, b, PT_ON_BB_TOLERANCE)) {
+      if (pointOnSegment2d(pt, a, b, tol.distance)) {
         return {
           result: true,
           intersections: [{ pt, t: 0 }],
@@ -338,10 +665,10 @@ export namespace PolylineUtils {
 
     // 2) Quick reject using bounding box (OR + tolerance)
     const bb = VectorUtils.getBoundingBox2d(polyline);
-    if (pt.x < bb.min.x - PT_ON_BB_TOLERANCE ||
-        pt.x > bb.max.x + PT_ON_BB_TOLERANCE ||
-        pt.y < bb.min.y - PT_ON_BB_TOLERANCE ||
-        pt.y > bb.max.y + PT_ON_BB_TOLERANCE) {
+    if (pt.x < bb.min.x - tol.distance ||
+        pt.x > bb.max.x + tol.distance ||
+        pt.y < bb.min.y - tol.distance ||
+        pt.y > bb.max.y + tol.distance) {
       return { result: false, intersections: [], ...flags, outOfBoundingBox: true };
     }
 
@@ -350,13 +677,13 @@ export namespace PolylineUtils {
     let count = 0;
     for (let i = 0; i < polyline.length - 1; i++) {
       const a = polyline[i], b = polyline[i + 1];
-      const ax = a.x, ay = a.y, bx = b.x, by = b.y;
 
-      const ymin = Math.min(ay, by), ymax = Math.max(ay, by);
+      const ymin = Math.min(a.y, b.y), ymax = Math.max(a.y, b.y);
       if (pt.y >= ymin && pt.y < ymax) {
-        const t = (pt.y - ay) / (by - ay);
-        const xCross = ax + t * (bx - ax);
-        if (xCross > pt.x) count++;
+        // The crossing is on the right of pt when pt is on the left of an upward edge
+        // (or on the right of a downward edge). Decided exactly by the orientation.
+        const orientation = GeometricPredicates.orient2d(a, b, pt);
+        if (b.y > a.y ? orientation > 0 : orientation < 0) count++;
       }
     }
 
@@ -364,21 +691,127 @@ export namespace PolylineUtils {
 
     // Optional: compute actual intersection points
     const p1: Vertex2d = { x: bb.max.x, y: pt.y };
-    const intersections = getIntersectionWithLine2d(polyline, { p0: pt, p1 });
+    const intersections = getIntersectionWithLine2d(polyline, { p0: pt, p1 }, tol);
 
     return { result: inside, intersections, ...flags };
   }
 
+  //#region Evaluation along polylines
+  function getCumulativeLengths(pts: Vertex3d[]): number[] {
+    const lengths = [0];
+    for (let i = 0; i < pts.length - 1; i++) {
+      lengths.push(lengths[i] + VectorUtils.getDist(pts[i], pts[i + 1]));
+    }
+    return lengths;
+  }
+
+  function evaluateAtLength(
+    pts: Vertex3d[],
+    cumulative: number[],
+    length: number,
+    tol: Readonly<ToleranceContext>
+  ): PolylinePointEvaluation | undefined {
+    if (pts.length < 2) return;
+    const total = cumulative[cumulative.length - 1];
+    if (total < tol.distance) return;
+    if (length < -tol.distance || length > total + tol.distance) return;
+    const travel = Math.min(Math.max(length, 0), total);
+
+    // Last segment starting at or before the travel distance, stepping back over zero-length segments at the end.
+    let lo = 0;
+    let hi = pts.length - 2;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (cumulative[mid] <= travel) lo = mid;
+      else hi = mid - 1;
+    }
+    let i = lo;
+    while (i > 0 && cumulative[i + 1] - cumulative[i] === 0) i--;
+
+    const p0 = pts[i];
+    const p1 = pts[i + 1];
+    const segLength = cumulative[i + 1] - cumulative[i];
+    const tSeg = clamp01((travel - cumulative[i]) / segLength);
+    const isAtVertex = (tSeg <= tol.parameter) || (tSeg >= 1 - tol.parameter);
+    const vertexIndex = tSeg <= tol.parameter ? i : (tSeg >= 1 - tol.parameter ? i + 1 : undefined);
+
+    return {
+      travelDistanceOnPolyline: travel,
+      pt: lerp3(p0, p1, tSeg),
+      t: travel / total,
+      lineSegment: { p0, p1 },
+      segIndex: i,
+      tSeg,
+      isAtVertex,
+      vertexIndex,
+      tangent: VectorUtils.normalize(VectorUtils.subtract(p1, p0))
+    };
+  }
+
+  function divideByCount(pts: Vertex3d[], count: number, tol: Readonly<ToleranceContext>): PolylinePointEvaluation[] {
+    if (!Number.isInteger(count) || count < 1) throw new Error("Division count should be a positive integer.");
+    const cumulative = getCumulativeLengths(pts);
+    const total = cumulative[cumulative.length - 1];
+
+    const result: PolylinePointEvaluation[] = [];
+    for (let k = 0; k <= count; k++) {
+      const evaluation = evaluateAtLength(pts, cumulative, total * k / count, tol);
+      if (evaluation) result.push(evaluation);
+    }
+    return result;
+  }
+
+  function divideByLength(pts: Vertex3d[], length: number, tol: Readonly<ToleranceContext>): PolylinePointEvaluation[] {
+    if (!(length > 0)) throw new Error("Division length should be positive.");
+    const cumulative = getCumulativeLengths(pts);
+    const total = cumulative[cumulative.length - 1];
+
+    const result: PolylinePointEvaluation[] = [];
+    for (let k = 0; k * length <= total + tol.distance; k++) {
+      const evaluation = evaluateAtLength(pts, cumulative, k * length, tol);
+      if (evaluation) result.push(evaluation);
+    }
+    return result;
+  }
+
+  function resample(pts: Vertex3d[], spacing: number, tol: Readonly<ToleranceContext>): Vertex3d[] {
+    if (!(spacing > 0)) throw new Error("Resampling spacing should be positive.");
+    const total = getCumulativeLengths(pts)[pts.length - 1] ?? 0;
+    const count = Math.max(1, Math.round(total / spacing));
+    return divideByCount(pts, count, tol).map(evaluation => evaluation.pt);
+  }
+  //#endregion
+
+  //#region Self-intersections
+  /**
+   * Checks whether two segments only meet at the vertex joining them, with nothing but zero-length segments in between.
+   */
+  function isConnectedAt(polyline: Polyline2d, closed: boolean, i: number, j: number, pt: Vertex2d, tol: Readonly<ToleranceContext>): boolean {
+    const last = polyline.length - 2;
+    const isZeroLength = (k: number) => Vector2Utils.getDist(polyline[k], polyline[k + 1]) <= tol.distance;
+    const isBetweenZeroLength = (from: number, to: number) => {
+      for (let k = from; k <= to; k++) if (!isZeroLength(k)) return false;
+      return true;
+    };
+
+    if (isBetweenZeroLength(i + 1, j - 1) && Vector2Utils.getDist(polyline[j], pt) <= tol.distance) return true;
+    return closed
+      && isBetweenZeroLength(j + 1, last)
+      && isBetweenZeroLength(0, i - 1)
+      && Vector2Utils.getDist(polyline[0], pt) <= tol.distance;
+  }
+  //#endregion
+
   //#region Common utils for internal calculation
   function clamp01(t: number) {
     return t < 0 ? 0 : (t > 1 ? 1 : t);
   }
 
-  function almostEqual(a: number, b: number, eps = EPS_DIST) {
+  function almostEqual(a: number, b: number, eps: number) {
     return Math.abs(a - b) <= eps;
   }
 
-  function almostSamePoint(a: Vertex3d, b: Vertex3d, eps = EPS_DIST) {
+  function almostSamePoint(a: Vertex3d, b: Vertex3d, eps: number) {
     return VectorUtils.getDist(a, b) <= eps;
   }
 
@@ -388,15 +821,15 @@ export namespace PolylineUtils {
 
   function to3(v: Vertex2d): Vertex3d { return { x: v.x, y: v.y, z: 0 }; }
 
-  function dedupeCandidates(cands: Polyline2dEvaluationFactor[]): Polyline2dEvaluationFactor[] {
+  function dedupeCandidates(cands: Polyline2dEvaluationFactor[], eps: number): Polyline2dEvaluationFactor[] {
     const out: Polyline2dEvaluationFactor[] = [];
     for (const c of cands) {
-      const dup = out.find(o => almostSamePoint(o.pt, c.pt));
+      const dup = out.find(o => almostSamePoint(o.pt, c.pt, eps));
       if (!dup) out.push(c);
       else {
         if (
-          c.distToFooting + EPS_DIST < dup.distToFooting ||
-          (almostEqual(c.distToFooting, dup.distToFooting) && c.travelDistanceOnPolyline + EPS_DIST < dup.travelDistanceOnPolyline)
+          c.distToFooting + eps < dup.distToFooting ||
+          (almostEqual(c.distToFooting, dup.distToFooting, eps) && c.travelDistanceOnPolyline + eps < dup.travelDistanceOnPolyline)
         ) {
           const idx = out.indexOf(dup);
           out[idx] = c;
@@ -406,7 +839,7 @@ export namespace PolylineUtils {
     return out;
   }
 
-  function pointOnSegment2d(p: Vertex2d, a: Vertex2d, b: Vertex2d, tol = 1e-6): boolean {
+  function pointOnSegment2d(p: Vertex2d, a: Vertex2d, b: Vertex2d, tol: number): boolean {
     const abx = b.x - a.x, aby = b.y - a.y;
     const apx = p.x - a.x, apy = p.y - a.y;
     const area2 = abx * apy - aby * apx;             // cross product (z-component)
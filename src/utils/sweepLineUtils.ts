@@ -0,0 +1,293 @@
+import { Line2d, Vertex2d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { GeometricPredicates } from "./geometricPredicates";
+import { LineEvaluation } from "./lineEvaluationUtils";
+import { ToleranceUtils } from "./toleranceUtils";
+import { Vector2Utils } from "./vector2Utils";
+
+/**
+ * A segment meeting at an intersection, with its index in the input and the parameter 0 ~ 1 of the intersection on it.
+ */
+export type SweepSegmentHit = { index: number; t: number; };
+
+/**
+ * A point where two or more input segments meet.
+ */
+export type SweepIntersection = { pt: Vertex2d; segments: SweepSegmentHit[]; };
+
+/**
+ * A part shared by two collinear input segments. `index0` is always smaller than `index1`,
+ * and the intervals are the parameters of `segment.p0` and `segment.p1` on each of them.
+ */
+export type SweepOverlap = {
+    segment: Line2d;
+    index0: number;
+    index1: number;
+    interval0: [number, number];
+    interval1: [number, number];
+};
+
+/**
+ * Result of `SweepLineUtils.getAllIntersections`.
+ */
+export type SweepIntersectionResult = { points: SweepIntersection[]; overlaps: SweepOverlap[]; };
+
+type SweepSegment = {
+    index: number;
+    line: Line2d;
+    left: Vertex2d;
+    right: Vertex2d;
+    angle: number;
+};
+
+type SweepEvent = {
+    pt: Vertex2d;
+    kx: number;
+    ky: number;
+    starts: SweepSegment[];
+    ends: SweepSegment[];
+    points: SweepSegment[];
+};
+
+/**
+ * Namespace for sweep-line algorithms over sets of segments.
+ *
+ * Use cases:
+ * - Finding every crossing among the wall centerlines of an imported floor plan.
+ * - Detecting walls drawn on top of each other.
+ */
+export namespace SweepLineUtils {
+    /**
+     * Finds every intersection in a set of segments with the Bentley–Ottmann sweep,
+     * in O((n + k) (log n + s)) time for `n` segments, `k` intersections and at most `s` segments crossing the sweep line at once.
+     * The segments crossing the sweep line are kept in a sorted array, so each insertion and removal is linear in `s`,
+     * which stays small for plans where few walls share an X coordinate, but reaches O((n + k) n) in the worst case.
+     *
+     * `Line` inputs are projected to the XY plane. Event points are merged on the `hashPrecision` grid,
+     * so segments meeting within the tolerance are reported once at a single point.
+     * Collinear segments are reported in `overlaps`, and the ends of their shared part also appear in `points`.
+     *
+     * @param segments - The segments to intersect.
+     * @param tolerance - Optional tolerance context. Its `distance` decides whether segments meet,
+     *                    its `angle` whether they are collinear, and its `hashPrecision` merges event points.
+     * @returns The intersection points sorted by X then Y, and the collinear overlaps.
+     */
+    export function getAllIntersections(segments: Line2d[], tolerance?: Partial<ToleranceContext>): SweepIntersectionResult {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const queue = new EventQueue(tol.hashPrecision);
+
+        segments.forEach((line, index) => {
+            const p0 = {x: line.p0.x, y: line.p0.y};
+            const p1 = {x: line.p1.x, y: line.p1.y};
+            const order = queue.compare(p0, p1);
+            const left = order <= 0 ? p0 : p1;
+            const right = order <= 0 ? p1 : p0;
+            const segment: SweepSegment = {
+                index,
+                line: {p0, p1},
+                left,
+                right,
+                angle: Math.atan2(right.y - left.y, right.x - left.x),
+            };
+
+            if (order === 0) {
+                queue.get(left).points.push(segment);
+            } else {
+                queue.get(left).starts.push(segment);
+                queue.get(right).ends.push(segment);
+            }
+        });
+
+        const points: SweepIntersection[] = [];
+        const overlaps: SweepOverlap[] = [];
+        const status: SweepSegment[] = [];
+
+        const findEvent = (below: SweepSegment | undefined, above: SweepSegment | undefined, event: SweepEvent) => {
+            if (!below || !above) return;
+            const test = LineEvaluation.getSegmentIntersection2d(below.line, above.line, tol);
+
+            // Ends of collinear overlaps are segment end points, which are already events.
+            if (test.type === 'point' && queue.compare(test.pt, event.pt) > 0) queue.get(test.pt);
+        };
+
+        let event: SweepEvent | undefined;
+        while ((event = queue.pop())) {
+            const pt = event.pt;
+
+            for (const segment of event.ends) {
+                const i = status.indexOf(segment);
+                if (i >= 0) status.splice(i, 1);
+            }
+
+            // Segments passing through the event point are contiguous in the status.
+            const lower = getLowerBound(status, pt, tol);
+            let start = lower;
+            let end = lower;
+            while (start > 0 && contains(status[start - 1], pt, tol)) start--;
+            while (end < status.length && contains(status[end], pt, tol)) end++;
+            const crossing = status.splice(start, end - start);
+
+            const hits = [...event.starts, ...event.ends, ...crossing, ...event.points];
+            if (hits.length > 1) {
+                points.push({
+                    pt,
+                    segments: hits
+                        .map(s => ({index: s.index, t: getParameter(s.line, pt)}))
+                        .sort((a, b) => a.index - b.index),
+                });
+            }
+
+            // Reinsert in their order just right of the event point, vertical segments on top.
+            const continuing = [...event.starts, ...crossing].sort((a, b) => a.angle - b.angle || a.index - b.index);
+            collectOverlaps(continuing, new Set(event.starts), overlaps, tol);
+            status.splice(start, 0, ...continuing);
+
+            if (continuing.length === 0) {
+                findEvent(status[start - 1], status[start], event);
+            } else {
+                findEvent(status[start - 1], continuing[0], event);
+                findEvent(continuing[continuing.length - 1], status[start + continuing.length], event);
+            }
+        }
+
+        return { points, overlaps };
+    }
+
+    /**
+     * Gets the index of the first segment in the status which is not below the point.
+     */
+    function getLowerBound(status: SweepSegment[], pt: Vertex2d, tol: Readonly<ToleranceContext>): number {
+        let lo = 0;
+        let hi = status.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            const segment = status[mid];
+            const isBelow = !contains(segment, pt, tol) && GeometricPredicates.orient2d(segment.left, segment.right, pt) > 0;
+            if (isBelow) lo = mid + 1;
+            else hi = mid;
+        }
+        return lo;
+    }
+
+    /**
+     * Records the collinear pairs among the segments leaving an event point.
+     * Each overlap starts at the later left end point, so it is recorded when one of the pair starts.
+     */
+    function collectOverlaps(
+        continuing: SweepSegment[],
+        starts: Set<SweepSegment>,
+        overlaps: SweepOverlap[],
+        tol: Readonly<ToleranceContext>
+    ) {
+        const sinTol = Math.sin(tol.angle);
+        for (let i = 0; i < continuing.length; i++) {
+            for (let j = i + 1; j < continuing.length; j++) {
+                const a = continuing[i].index < continuing[j].index ? continuing[i] : continuing[j];
+                const b = a === continuing[i] ? continuing[j] : continuing[i];
+                if (!starts.has(a) && !starts.has(b)) continue;
+                if (Math.abs(Math.sin(a.angle - b.angle)) > sinTol) continue;
+
+                const test = LineEvaluation.getSegmentIntersection2d(a.line, b.line, tol);
+                if (test.type !== 'overlap') continue;
+                overlaps.push({
+                    segment: test.segment,
+                    index0: a.index,
+                    index1: b.index,
+                    interval0: test.interval0,
+                    interval1: test.interval1,
+                });
+            }
+        }
+    }
+
+    function contains(segment: SweepSegment, pt: Vertex2d, tol: Readonly<ToleranceContext>): boolean {
+        const t = getParameter(segment.line, pt);
+        return Vector2Utils.getDist(Vector2Utils.lerp(segment.line.p0, segment.line.p1, t), pt) <= tol.distance;
+    }
+
+    function getParameter(line: Line2d, pt: Vertex2d): number {
+        const d = Vector2Utils.subtract(line.p1, line.p0);
+        const lengthSquared = Vector2Utils.dot(d, d);
+        if (lengthSquared === 0) return 0;
+
+        const t = Vector2Utils.dot(Vector2Utils.subtract(pt, line.p0), d) / lengthSquared;
+        return t < 0 ? 0 : (t > 1 ? 1 : t);
+    }
+}
+
+/**
+ * Priority queue of sweep events ordered by X then Y on the hash grid.
+ * Points falling on the same grid cell share one event.
+ */
+class EventQueue {
+    private readonly heap: SweepEvent[] = [];
+    private readonly events = new Map<string, SweepEvent>();
+
+    constructor(private readonly precision: number) {}
+
+    /**
+     * Compares two points in sweep order on the hash grid.
+     */
+    compare(a: Vertex2d, b: Vertex2d): number {
+        return Math.round(a.x * this.precision) - Math.round(b.x * this.precision)
+            || Math.round(a.y * this.precision) - Math.round(b.y * this.precision);
+    }
+
+    /**
+     * Gets the event at the given point, creating it if needed.
+     */
+    get(pt: Vertex2d): SweepEvent {
+        const kx = Math.round(pt.x * this.precision);
+        const ky = Math.round(pt.y * this.precision);
+        const key = `${kx},${ky}`;
+
+        let event = this.events.get(key);
+        if (!event) {
+            event = {pt: {x: pt.x, y: pt.y}, kx, ky, starts: [], ends: [], points: []};
+            this.events.set(key, event);
+            this.push(event);
+        }
+        return event;
+    }
+
+    pop(): SweepEvent | undefined {
+        const heap = this.heap;
+        if (heap.length === 0) return;
+
+        const top = heap[0];
+        const last = heap.pop()!;
+        if (heap.length > 0) {
+            heap[0] = last;
+            let i = 0;
+            for (;;) {
+                const l = 2 * i + 1;
+                const r = l + 1;
+                let min = i;
+                if (l < heap.length && this.isBefore(heap[l], heap[min])) min = l;
+                if (r < heap.length && this.isBefore(heap[r], heap[min])) min = r;
+                if (min === i) break;
+                [heap[i], heap[min]] = [heap[min], heap[i]];
+                i = min;
+            }
+        }
+
+        this.events.delete(`${top.kx},${top.ky}`);
+        return top;
+    }
+
+    private push(event: SweepEvent) {
+        const heap = this.heap;
+        heap.push(event);
+        let i = heap.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (!this.isBefore(heap[i], heap[parent])) break;
+            [heap[i], heap[parent]] = [heap[parent], heap[i]];
+            i = parent;
+        }
+    }
+
+    private isBefore(a: SweepEvent, b: SweepEvent): boolean {
+        return a.kx < b.kx || (a.kx === b.kx && a.ky < b.ky);
+    }
+}
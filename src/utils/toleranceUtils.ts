@@ -0,0 +1,110 @@
+import { Vertex2d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+
+/**
+ * Utility namespace for managing the tolerances shared by every utility of this library.
+ *
+ * Functions accepting an optional `ToleranceContext` resolve it with `ToleranceUtils.resolve`,
+ * so values omitted by the caller come from the global default at the time of the call.
+ *
+ * @example
+ * ```typescript
+ * // Project modelled in millimetres
+ * ToleranceUtils.setGlobal({distance: 1e-3, hashPrecision: 1e3});
+ *
+ * // Single call with its own tolerance
+ * LineEvaluation.getIntersection(li0, li1, false, {distance: 1e-9});
+ * ```
+ */
+export namespace ToleranceUtils {
+    /**
+     * The tolerances used when nothing else is configured.
+     */
+    export const DEFAULT_TOLERANCE: Readonly<ToleranceContext> = Object.freeze({
+        distance: 1e-6,
+        angle: 1e-3,
+        parameter: 1e-9,
+        hashPrecision: 1e6,
+    });
+
+    let globalTolerance: ToleranceContext = {...DEFAULT_TOLERANCE};
+
+    /**
+     * Gets a copy of the current global tolerance.
+     *
+     * @returns The global `ToleranceContext`.
+     */
+    export function getGlobal(): ToleranceContext {
+        return {...globalTolerance};
+    }
+
+    /**
+     * Overrides values of the global tolerance. Omitted values are kept.
+     *
+     * @param tolerance - The values to override.
+     * @throws {Error} If any given value is not a positive finite number.
+     */
+    export function setGlobal(tolerance: Partial<ToleranceContext>): void {
+        globalTolerance = {...globalTolerance, ...validate(tolerance)};
+    }
+
+    /**
+     * Restores the global tolerance to `DEFAULT_TOLERANCE`.
+     */
+    export function resetGlobal(): void {
+        globalTolerance = {...DEFAULT_TOLERANCE};
+    }
+
+    /**
+     * Creates a complete tolerance context, filling omitted values from the global tolerance.
+     *
+     * @param tolerance - The values to use instead of the global ones.
+     * @returns A new `ToleranceContext`.
+     * @throws {Error} If any given value is not a positive finite number.
+     */
+    export function create(tolerance: Partial<ToleranceContext> = {}): ToleranceContext {
+        return {...globalTolerance, ...validate(tolerance)};
+    }
+
+    /**
+     * Resolves an optional tolerance argument of a utility function.
+     *
+     * @param tolerance - The tolerance given by the caller, if any.
+     * @returns The given values completed with the global tolerance.
+     */
+    export function resolve(tolerance?: Partial<ToleranceContext>): Readonly<ToleranceContext> {
+        if (!tolerance) return globalTolerance;
+        return {...globalTolerance, ...stripUndefined(tolerance)};
+    }
+
+    /**
+     * Gets the hash of a 2D point on the `hashPrecision` grid, used as a key to merge coincident points.
+     * Points closer than `1 / hashPrecision` may share a hash.
+     *
+     * @param pt - The point to hash.
+     * @param tolerance - Optional tolerance context. Its `hashPrecision` sets the grid.
+     * @returns The hash of the point.
+     */
+    export function getHash2d(pt: Vertex2d, tolerance?: Partial<ToleranceContext>): string {
+        const precision = tolerance?.hashPrecision ?? globalTolerance.hashPrecision;
+        return `${Math.round(pt.x * precision)},${Math.round(pt.y * precision)}`;
+    }
+
+    function validate(tolerance: Partial<ToleranceContext>): Partial<ToleranceContext> {
+        const values = stripUndefined(tolerance);
+        for (const [key, value] of Object.entries(values)) {
+            if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+                throw new Error(`Tolerance '${key}' should be a positive finite number.`);
+            }
+        }
+        return values;
+    }
+
+    function stripUndefined(tolerance: Partial<ToleranceContext>): Partial<ToleranceContext> {
+        const values: Partial<ToleranceContext> = {};
+        for (const key of Object.keys(tolerance) as (keyof ToleranceContext)[]) {
+            if (tolerance[key] !== undefined) values[key] = tolerance[key];
+        }
+        return values;
+    }
+}
@@ -0,0 +1,867 @@
+import { Line2d, MultiPolygon2d, Polygon2d, Polyline2d, Polyline3d, Triangle, Vertex2d, Vertex3d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { computeContexHull2d } from "./convexHullUtils";
+import { CoordinateSystemUtils } from "./coordinateSystemUtils";
+import { GeometricPredicates } from "./geometricPredicates";
+import { PolygonUtils } from "./polygonUtils";
+import { SweepLineUtils } from "./sweepLineUtils";
+import { ToleranceUtils } from "./toleranceUtils";
+
+/**
+ * Triangles indexing into a shared list of vertices.
+ *
+ * @property vertices - The vertices of the mesh. Ear clipping lists the ring vertices without their closing points,
+ *                      the outer boundary first and then each hole. Delaunay triangulation lists the distinct input points
+ *                      and segment end points used by the mesh first, then the points added where segments cross and by refinement.
+ * @property triangles - Three indices into `vertices` per triangle, counter-clockwise like the outer boundary.
+ */
+export type IndexedTriangles<T extends Vertex2d | Vertex3d> = {vertices: T[], triangles: [number, number, number][]};
+
+/**
+ * Input of a constrained Delaunay triangulation.
+ *
+ * @property points - Points the mesh passes through, e.g. survey points of a terrain.
+ * @property segments - Edges the mesh must contain, e.g. breaklines or beam lines. Crossing segments are split where they meet.
+ * @property polygon - The area to mesh, with holes. Without it, the convex hull of the points and segments is meshed.
+ */
+export type DelaunayInput = {points?: Vertex2d[], segments?: Line2d[], polygon?: Polygon2d | MultiPolygon2d};
+
+/**
+ * Options of Ruppert refinement in `TriangulationUtils.triangulateDelaunay2d`.
+ *
+ * @property minAngle - Smallest angle in radians allowed in a triangle. Defaults to 0, no angle refinement.
+ *                      Refinement is guaranteed to end up to about 20.7 degrees when the input has no corner sharper than 60 degrees.
+ * @property maxArea - Largest area allowed for a triangle. Defaults to `Infinity`.
+ * @property maxSteinerPoints - Most points refinement may add, stopping it on input it cannot satisfy. Defaults to 10000.
+ */
+export type RefinementOptions = {
+    minAngle?: number,
+    maxArea?: number,
+    maxSteinerPoints?: number,
+}
+
+const DEFAULT_REFINEMENT_OPTIONS: Required<RefinementOptions> = {
+    minAngle: 0,
+    maxArea: Infinity,
+    maxSteinerPoints: 10000,
+};
+
+const EDGE_KEY_BASE = 2 ** 26;
+
+/**
+ * Namespace for splitting polygons into triangles, e.g. slab, ceiling and floor faces for rendering and raycasting.
+ */
+export namespace TriangulationUtils {
+    /**
+     * Triangulates a simple 2D polygon with holes by ear clipping.
+     *
+     * Holes are joined to the outer boundary by bridges to visible vertices, from the rightmost hole to the leftmost,
+     * and the resulting single loop is clipped one ear at a time. Rings are oriented by their signed area,
+     * so the winding of the input does not matter, and collinear points leave no empty triangles.
+     *
+     * Input that crosses or overlaps itself can run out of ears before it is covered. The remaining convex corners
+     * are then clipped anyway, so the mesh is still returned but its triangles may overlap and cover more than the input.
+     *
+     * @param polygon - The polygon with holes, or a single loop. The closing points may be repeated or omitted.
+     * @param tolerance - Optional tolerance context. Points closer than its `distance` are merged.
+     * @returns The vertices and counter-clockwise triangles. A polygon with n vertices and h holes gives n + 2h - 2 triangles
+     *          unless some of its points are collinear.
+     */
+    export function triangulate2d(polygon: Polygon2d | Polyline2d, tolerance?: Partial<ToleranceContext>): IndexedTriangles<Vertex2d> {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const {outer, holes} = Array.isArray(polygon) ? {outer: polygon, holes: []} : polygon;
+        const rings = [outer, ...holes].map(ring => getDistinctPoints(ring, tol));
+
+        const vertices = rings.flat().map(pt => ({x: pt.x, y: pt.y}));
+        return {vertices, triangles: earClip(vertices, getRingIndices(rings))};
+    }
+
+    /**
+     * Triangulates a planar 3D loop with holes, e.g. a sloped roof face with skylights, in the plane of the loop.
+     *
+     * The loops are projected with `PolygonUtils.toPlanarFrame2d` of the outer boundary and triangulated as in `triangulate2d`.
+     *
+     * @param outer - The outer boundary. The closing point may be repeated or omitted.
+     * @param holes - The holes on the same plane.
+     * @param tolerance - Optional tolerance context. Points closer than its `distance` are merged,
+     *                    and points farther than it from the plane make the loops non-planar.
+     * @returns The vertices and triangles, wound like the outer boundary,
+     *          or `undefined` if the outer boundary has no area or the loops are not planar.
+     */
+    export function triangulate3d(outer: Polyline3d, holes: Polyline3d[] = [], tolerance?: Partial<ToleranceContext>): IndexedTriangles<Vertex3d> | undefined {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const rings = [outer, ...holes].map(ring => getDistinctPoints(ring, tol));
+
+        const projection = PolygonUtils.toPlanarFrame2d(rings[0], tol);
+        if (!projection) return;
+
+        const vertices = rings.flat().map(pt => ({...pt}));
+        const local = CoordinateSystemUtils.toLocal(projection.frame, vertices);
+        if (local.some(pt => Math.abs(pt.z) > tol.distance)) return;
+
+        return {vertices, triangles: earClip(local, getRingIndices(rings))};
+    }
+
+    /**
+     * Converts indexed triangles into separate triangles, e.g. for `BVHTree.addTriangle`.
+     *
+     * @param mesh - The indexed triangles. 2D vertices are placed at z = 0.
+     * @returns A triangle per index triple, with copied vertices.
+     */
+    export function toTriangles(mesh: IndexedTriangles<Vertex2d | Vertex3d>): Triangle[] {
+        const to3d = (v: Vertex2d | Vertex3d): Vertex3d => ({x: v.x, y: v.y, z: 'z' in v ? v.z : 0});
+        return mesh.triangles.map(([i0, i1, i2]) => ({
+            p0: to3d(mesh.vertices[i0]),
+            p1: to3d(mesh.vertices[i1]),
+            p2: to3d(mesh.vertices[i2]),
+        }));
+    }
+
+    /**
+     * Computes the constrained Delaunay triangulation of points, required segments and polygons with holes,
+     * optionally refined with Ruppert's algorithm into a quality mesh, e.g. for FEM analysis of slabs or for terrains.
+     *
+     * Points are inserted one at a time with Lawson flips, and each segment is then recovered by re-triangulating
+     * the triangles it crosses, so every triangle is as close to equilateral as the segments allow.
+     * Refinement splits segments at their midpoints when another point lies in their diametral circle,
+     * and inserts the circumcenters of triangles that are too skinny or too large.
+     *
+     * @param input - The points, segments and polygon to mesh.
+     * @param options - Optional refinement constraints. Without them the mesh is not refined.
+     * @param tolerance - Optional tolerance context. Points equal within its `hashPrecision` are merged,
+     *                    and segments shorter than its `distance` are ignored.
+     * @returns The vertices used by the mesh, input points first, and counter-clockwise triangles.
+     *          Use `toTriangles` to get `Triangle`s.
+     * @throws {Error} If the minimum angle is not in [0, π/3), the maximum area is not positive
+     *                 or the Steiner point limit is negative.
+     */
+    export function triangulateDelaunay2d(input: DelaunayInput, options?: RefinementOptions, tolerance?: Partial<ToleranceContext>): IndexedTriangles<Vertex2d> {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const settings = {...DEFAULT_REFINEMENT_OPTIONS, ...options};
+        if (!(settings.minAngle >= 0 && settings.minAngle < Math.PI / 3)) throw new Error("Minimum angle should be at least 0 and less than π/3.");
+        if (!(settings.maxArea > 0)) throw new Error("Maximum area should be positive.");
+        if (!(settings.maxSteinerPoints >= 0)) throw new Error("Steiner point limit should not be negative.");
+
+        const polygons = !input.polygon ? [] : Array.isArray(input.polygon) ? input.polygon : [input.polygon];
+        const segments = [...(input.segments ?? [])];
+        for (const {outer, holes} of polygons) {
+            for (const ring of [outer, ...holes]) {
+                ring.forEach((p0, i) => segments.push({p0, p1: ring[(i + 1) % ring.length]}));
+            }
+        }
+
+        const points = [...(input.points ?? []), ...segments.flatMap(segment => [segment.p0, segment.p1])];
+        if (points.length < 3) return {vertices: [], triangles: []};
+
+        const mesh = new ConstrainedMesh(points, tol);
+        points.forEach(pt => mesh.addPoint(pt));
+
+        const required = splitSegments(segments, tol);
+        if (polygons.length === 0) {
+            const hull = computeContexHull2d(mesh.getInputPoints().map(pt => ({x: pt.x, y: pt.y, z: 0})));
+            if (hull.length < 3) return {vertices: [], triangles: []};
+            hull.forEach((p0, i) => required.push({p0, p1: hull[(i + 1) % hull.length]}));
+        }
+        for (const {p0, p1} of required) mesh.insertSegment(mesh.addPoint(p0), mesh.addPoint(p1));
+
+        mesh.classify(centroids => polygons.length === 0
+            ? centroids.map(() => true)
+            : PolygonUtils.arePointsInPolygon2d(polygons, centroids, 'nonZero', tol).map(r => r.result));
+
+        if (settings.minAngle > 0 || settings.maxArea < Infinity) mesh.refine(settings);
+        return mesh.toIndexedTriangles();
+    }
+
+    /**
+     * Splits the segments where they cross each other, dropping those shorter than the tolerance.
+     */
+    function splitSegments(segments: Line2d[], tol: Readonly<ToleranceContext>): Line2d[] {
+        const valid = segments.filter(({p0, p1}) => Math.hypot(p1.x - p0.x, p1.y - p0.y) > tol.distance);
+        const splits: {t: number, pt: Vertex2d}[][] = valid.map(() => []);
+        for (const point of SweepLineUtils.getAllIntersections(valid, tol).points) {
+            for (const hit of point.segments) splits[hit.index].push({t: hit.t, pt: point.pt});
+        }
+
+        const result: Line2d[] = [];
+        valid.forEach(({p0, p1}, i) => {
+            const pts = [p0, ...splits[i].sort((a, b) => a.t - b.t).map(split => split.pt), p1];
+            for (let j = 0; j < pts.length - 1; j++) result.push({p0: pts[j], p1: pts[j + 1]});
+        });
+        return result;
+    }
+
+    function getDistinctPoints<T extends Vertex2d | Vertex3d>(ring: T[], tol: Readonly<ToleranceContext>): T[] {
+        const getDist = (v0: T, v1: T) => Math.hypot(v0.x - v1.x, v0.y - v1.y, ('z' in v0 ? v0.z : 0) - ('z' in v1 ? v1.z : 0));
+        const pts: T[] = [];
+        for (const pt of ring) {
+            if (pts.length === 0 || getDist(pts[pts.length - 1], pt) > tol.distance) pts.push(pt);
+        }
+        if (pts.length > 1 && getDist(pts[0], pts[pts.length - 1]) <= tol.distance) pts.pop();
+        return pts;
+    }
+
+    function getRingIndices(rings: unknown[][]): number[][] {
+        let offset = 0;
+        return rings.map(ring => {
+            const indices = ring.map((_, i) => offset + i);
+            offset += ring.length;
+            return indices;
+        });
+    }
+
+    /**
+     * Clips ears from the outer ring joined with its holes.
+     *
+     * @param pts - The 2D positions of every vertex.
+     * @param rings - The indices of each ring, the outer boundary first.
+     */
+    function earClip(pts: Vertex2d[], rings: number[][]): [number, number, number][] {
+        const getArea = (ring: number[]) => PolygonUtils.getSignedArea2d(ring.map(i => pts[i]));
+        const [outer, ...holes] = rings;
+        if (outer.length < 3 || getArea(outer) === 0) return [];
+
+        let loop = getArea(outer) > 0 ? [...outer] : [...outer].reverse();
+        const orientedHoles = holes
+            .filter(hole => hole.length >= 3 && getArea(hole) !== 0)
+            .map(hole => getArea(hole) < 0 ? [...hole] : [...hole].reverse())
+            .sort((a, b) => getMaxX(pts, b) - getMaxX(pts, a));
+        for (const hole of orientedHoles) loop = bridgeHole(pts, loop, hole) ?? loop;
+
+        removeCollinearPoints(pts, loop);
+
+        const triangles: [number, number, number][] = [];
+        let i = 0;
+        let stall = 0;
+        while (loop.length > 3) {
+            const n = loop.length;
+            const prev = loop[(i + n - 1) % n];
+            const curr = loop[i % n];
+            const next = loop[(i + 1) % n];
+            if (isEar(pts, loop, i % n)) {
+                triangles.push([prev, curr, next]);
+                loop.splice(i % n, 1);
+                i = (i + n - 2) % (n - 1);
+                stall = 0;
+            } else if (++stall < n) {
+                i = (i + 1) % n;
+            } else {
+                // No valid ear left, as in self-overlapping input: clip any convex corner to finish, overlapping earlier triangles.
+                const convex = loop.findIndex((_, j) => orient(pts, loop[(j + n - 1) % n], loop[j], loop[(j + 1) % n]) > 0);
+                if (convex < 0) break;
+                triangles.push([loop[(convex + n - 1) % n], loop[convex], loop[(convex + 1) % n]]);
+                loop.splice(convex, 1);
+                removeCollinearPoints(pts, loop);
+                i = 0;
+                stall = 0;
+            }
+        }
+
+        if (loop.length === 3 && orient(pts, loop[0], loop[1], loop[2]) > 0) triangles.push([loop[0], loop[1], loop[2]]);
+        return triangles;
+    }
+
+    function orient(pts: Vertex2d[], a: number, b: number, c: number): number {
+        return GeometricPredicates.orient2d(pts[a], pts[b], pts[c]);
+    }
+
+    function isSamePoint(pts: Vertex2d[], a: number, b: number): boolean {
+        return pts[a].x === pts[b].x && pts[a].y === pts[b].y;
+    }
+
+    function getMaxX(pts: Vertex2d[], ring: number[]): number {
+        let max = -Infinity;
+        for (const i of ring) max = Math.max(max, pts[i].x);
+        return max;
+    }
+
+    /**
+     * An ear is a convex corner whose triangle holds no other vertex of the loop, so it can be cut off along its diagonal.
+     */
+    function isEar(pts: Vertex2d[], loop: number[], pos: number): boolean {
+        const n = loop.length;
+        const a = loop[(pos + n - 1) % n];
+        const b = loop[pos];
+        const c = loop[(pos + 1) % n];
+        if (orient(pts, a, b, c) <= 0) return false;
+
+        const minX = Math.min(pts[a].x, pts[b].x, pts[c].x);
+        const maxX = Math.max(pts[a].x, pts[b].x, pts[c].x);
+        const minY = Math.min(pts[a].y, pts[b].y, pts[c].y);
+        const maxY = Math.max(pts[a].y, pts[b].y, pts[c].y);
+        for (let j = 0; j < n; j++) {
+            const p = loop[j];
+            if (pts[p].x < minX || pts[p].x > maxX || pts[p].y < minY || pts[p].y > maxY) continue;
+            if (isSamePoint(pts, p, a) || isSamePoint(pts, p, b) || isSamePoint(pts, p, c)) continue;
+            // Only reflex corners can reach into an ear of a simple loop.
+            if (orient(pts, loop[(j + n - 1) % n], p, loop[(j + 1) % n]) > 0) continue;
+            if (orient(pts, a, b, p) >= 0 && orient(pts, b, c, p) >= 0 && orient(pts, c, a, p) >= 0) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Removes the corners without area, such as points along an edge or spikes running back on themselves.
+     */
+    function removeCollinearPoints(pts: Vertex2d[], loop: number[]) {
+        for (let i = 0; i < loop.length && loop.length > 3;) {
+            const n = loop.length;
+            const prev = loop[(i + n - 1) % n];
+            const next = loop[(i + 1) % n];
+            if (isSamePoint(pts, loop[i], next) || orient(pts, prev, loop[i], next) === 0) {
+                loop.splice(i, 1);
+                i = Math.max(0, i - 1);
+            } else {
+                i++;
+            }
+        }
+    }
+
+    /**
+     * Joins a clockwise hole to the counter-clockwise loop around it by a pair of edges running both ways.
+     *
+     * A ray is cast to +X from the rightmost vertex M of the hole. The bridge goes to the end of the nearest edge hit,
+     * or to the vertex inside the triangle between M, the hit and that end whose direction is closest to the ray,
+     * since such a vertex would otherwise block the view.
+     *
+     * @returns The joined loop, or `undefined` if the hole is not inside the loop.
+     */
+    function bridgeHole(pts: Vertex2d[], loop: number[], hole: number[]): number[] | undefined {
+        const mPos = hole.reduce((best, i, pos) => pts[i].x > pts[hole[best]].x ? pos : best, 0);
+        const m = pts[hole[mPos]];
+
+        let hitX = Infinity;
+        let hitPos = -1;
+        loop.forEach((i, pos) => {
+            const a = pts[i];
+            const b = pts[loop[(pos + 1) % loop.length]];
+            // Only edges running upwards face the inside of a counter-clockwise loop to their left.
+            if (a.y > m.y || b.y < m.y || a.y >= b.y) return;
+            const x = a.x + (m.y - a.y) * (b.x - a.x) / (b.y - a.y);
+            if (x >= m.x && x < hitX) {
+                hitX = x;
+                hitPos = pos;
+            }
+        });
+        if (hitPos < 0) return;
+
+        const nextPos = (hitPos + 1) % loop.length;
+        let bestPos = pts[loop[hitPos]].x > pts[loop[nextPos]].x ? hitPos : nextPos;
+        const p = pts[loop[bestPos]];
+        const hit = {x: hitX, y: m.y};
+        const isInTriangle = (v: Vertex2d) => {
+            const d0 = GeometricPredicates.orient2d(m, hit, v);
+            const d1 = GeometricPredicates.orient2d(hit, p, v);
+            const d2 = GeometricPredicates.orient2d(p, m, v);
+            return !((d0 < 0 || d1 < 0 || d2 < 0) && (d0 > 0 || d1 > 0 || d2 > 0));
+        };
+
+        let bestTan = Math.abs(p.y - m.y) / (p.x - m.x);
+        loop.forEach((i, pos) => {
+            const v = pts[i];
+            if (v.x <= m.x || !isInTriangle(v) || !isLocallyInside(pts, loop, pos, m)) return;
+            const tan = Math.abs(v.y - m.y) / (v.x - m.x);
+            if (tan < bestTan || (tan === bestTan && v.x < pts[loop[bestPos]].x)) {
+                bestTan = tan;
+                bestPos = pos;
+            }
+        });
+
+        // A vertex already used by another bridge appears twice; join at the copy facing M.
+        if (!isLocallyInside(pts, loop, bestPos, m)) {
+            const copy = loop.findIndex((i, pos) => isSamePoint(pts, i, loop[bestPos]) && isLocallyInside(pts, loop, pos, m));
+            if (copy >= 0) bestPos = copy;
+        }
+
+        return [
+            ...loop.slice(0, bestPos + 1),
+            ...hole.slice(mPos), ...hole.slice(0, mPos), hole[mPos],
+            loop[bestPos],
+            ...loop.slice(bestPos + 1),
+        ];
+    }
+
+    /**
+     * Checks whether the direction to a point starts inside the loop at one of its corners.
+     */
+    function isLocallyInside(pts: Vertex2d[], loop: number[], pos: number, target: Vertex2d): boolean {
+        const n = loop.length;
+        const a = pts[loop[(pos + n - 1) % n]];
+        const b = pts[loop[pos]];
+        const c = pts[loop[(pos + 1) % n]];
+        const toPrev = GeometricPredicates.orient2d(a, b, target);
+        const toNext = GeometricPredicates.orient2d(b, c, target);
+        return GeometricPredicates.orient2d(a, b, c) >= 0
+            ? toPrev >= 0 && toNext >= 0
+            : toPrev >= 0 || toNext >= 0;
+    }
+}
+
+/**
+ * Triangulation stored as the apex of every directed edge, for constrained Delaunay insertion and refinement.
+ *
+ * Triangles are counter-clockwise, so each directed edge belongs to at most one triangle, and the neighbor across
+ * an edge is found from its reverse. The first three points form a large triangle enclosing every other point.
+ */
+class ConstrainedMesh {
+    private readonly pts: Vertex2d[] = [];
+    private readonly pointIndices = new Map<string, number>();
+    private readonly apexes = new Map<number, number>();
+    private readonly incident: number[] = [];
+    private readonly constraints = new Set<number>();
+    private readonly outside = new Set<number>();
+    private last = [0, 1, 2];
+    private walkSeed = 0;
+
+    constructor(points: Vertex2d[], private readonly tol: Readonly<ToleranceContext>) {
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        for (const pt of points) {
+            minX = Math.min(minX, pt.x);
+            minY = Math.min(minY, pt.y);
+            maxX = Math.max(maxX, pt.x);
+            maxY = Math.max(maxY, pt.y);
+        }
+
+        const cx = (minX + maxX) / 2;
+        const cy = (minY + maxY) / 2;
+        const r = Math.max(maxX - minX, maxY - minY, 1) * 1e3;
+        this.pts.push({x: cx - Math.sqrt(3) * r, y: cy - r}, {x: cx + Math.sqrt(3) * r, y: cy - r}, {x: cx, y: cy + 2 * r});
+        this.addTriangle(0, 1, 2, true);
+    }
+
+    getInputPoints(): Vertex2d[] {
+        return this.pts.slice(3);
+    }
+
+    /**
+     * Adds a point to the triangulation, or finds the point already within the hash precision.
+     *
+     * @returns The index of the point.
+     */
+    addPoint(pt: Vertex2d): number {
+        const key = ToleranceUtils.getHash2d(pt, this.tol);
+        const existing = this.pointIndices.get(key);
+        if (existing !== undefined) return existing;
+
+        const location = this.locate(pt, this.last, false);
+        const index = this.pts.push({x: pt.x, y: pt.y}) - 1;
+        this.pointIndices.set(key, index);
+        if (location) this.insertPoint(index, location.triangle);
+        return index;
+    }
+
+    /**
+     * Makes a segment between two points an edge of the triangulation, splitting it at points lying exactly on it.
+     */
+    insertSegment(a: number, b: number) {
+        const stack = [[a, b]];
+        while (stack.length > 0) {
+            const [start, end] = stack.pop()!;
+            if (start === end) continue;
+
+            const reached = this.hasEdge(start, end) ? end : this.recoverSegment(start, end);
+            if (reached === undefined) continue;
+            this.constraints.add(getSegmentKey(start, reached));
+            if (reached !== end) stack.push([reached, end]);
+        }
+    }
+
+    /**
+     * Marks the triangles outside the domain, besides those touching the enclosing triangle.
+     *
+     * @param isInside - Decides per triangle centroid whether it is inside the domain.
+     */
+    classify(isInside: (centroids: Vertex2d[]) => boolean[]) {
+        const triangles = this.getTriangles().filter(([a, b, c]) => Math.min(a, b, c) >= 3);
+        const results = isInside(triangles.map(([a, b, c]) => ({
+            x: (this.pts[a].x + this.pts[b].x + this.pts[c].x) / 3,
+            y: (this.pts[a].y + this.pts[b].y + this.pts[c].y) / 3,
+        })));
+
+        for (const [a, b, c] of this.getTriangles()) this.outside.add(getEdgeKey(...getFirstEdge(a, b, c)));
+        triangles.forEach(([a, b, c], i) => {
+            if (results[i]) this.outside.delete(getEdgeKey(...getFirstEdge(a, b, c)));
+        });
+    }
+
+    /**
+     * Refines the triangles inside the domain with Ruppert's algorithm until they meet the options,
+     * or the Steiner point limit is reached.
+     */
+    refine(settings: Required<RefinementOptions>) {
+        let steiner = 0;
+        const segments = [...this.constraints].map(key => [Math.floor(key / EDGE_KEY_BASE), key % EDGE_KEY_BASE]);
+        const triangles: number[][] = this.getTriangles().filter(t => this.isBad(t, settings));
+
+        // Splits a segment at its midpoint, queueing the segments and triangles around the new point.
+        const splitSegment = (a: number, b: number): boolean => {
+            const mid = this.addSteinerPoint({x: (this.pts[a].x + this.pts[b].x) / 2, y: (this.pts[a].y + this.pts[b].y) / 2});
+            if (mid === undefined) return false;
+            this.splitEdge(a, b, mid);
+            steiner++;
+
+            for (const [u, v, w] of this.getTrianglesAround(mid)) {
+                if (this.constraints.has(getSegmentKey(v, w))) segments.push([v, w]);
+                if (this.isBad([u, v, w], settings)) triangles.push([u, v, w]);
+            }
+            segments.push([a, mid], [mid, b]);
+            return true;
+        };
+
+        const splitEncroached = (): boolean => {
+            while (segments.length > 0) {
+                const [a, b] = segments.pop()!;
+                if (!this.constraints.has(getSegmentKey(a, b)) || !this.isEncroached(a, b)) continue;
+                if (steiner >= settings.maxSteinerPoints) return false;
+                splitSegment(a, b);
+            }
+            return true;
+        };
+
+        while (splitEncroached() && triangles.length > 0) {
+            const triangle = triangles.pop()!;
+            const [a, b, c] = triangle;
+            if (this.apexes.get(getEdgeKey(a, b)) !== c || !this.isBad(triangle, settings)) continue;
+
+            const center = getCircumcenter(this.pts[a], this.pts[b], this.pts[c]);
+            const location = this.locate(center, triangle, true);
+            if (!location) continue;
+
+            // A circumcenter beyond a segment, or inside its diametral circle, splits the segment instead.
+            const encroached = location.crossed ? [location.crossed] : this.getEncroachedBy(center, location.triangle);
+            if (steiner + Math.max(1, encroached.length) > settings.maxSteinerPoints) return;
+            if (encroached.length > 0) {
+                let isSplit = false;
+                for (const [u, v] of encroached) {
+                    if (this.constraints.has(getSegmentKey(u, v)) && splitSegment(u, v)) isSplit = true;
+                }
+                if (isSplit) triangles.push(triangle);
+                continue;
+            }
+
+            const index = this.addSteinerPoint(center);
+            if (index === undefined) continue;
+            this.insertPoint(index, location.triangle);
+            steiner++;
+            for (const around of this.getTrianglesAround(index)) {
+                if (this.isBad(around, settings)) triangles.push(around);
+            }
+        }
+    }
+
+    toIndexedTriangles(): IndexedTriangles<Vertex2d> {
+        const triangles = this.getTriangles().filter(t => !this.isOutside(t));
+        const used = new Set(triangles.flat());
+        const indices = new Map<number, number>();
+        const vertices: Vertex2d[] = [];
+        this.pts.forEach((pt, i) => {
+            if (used.has(i)) indices.set(i, vertices.push({...pt}) - 1);
+        });
+        return {vertices, triangles: triangles.map(t => t.map(i => indices.get(i)!) as [number, number, number])};
+    }
+
+    private getTriangles(): [number, number, number][] {
+        const triangles: [number, number, number][] = [];
+        for (const [key, c] of this.apexes) {
+            const a = Math.floor(key / EDGE_KEY_BASE);
+            const b = key % EDGE_KEY_BASE;
+            if (a < b && a < c) triangles.push([a, b, c]);
+        }
+        return triangles;
+    }
+
+    private isOutside([a, b, c]: number[]): boolean {
+        return this.outside.has(getEdgeKey(...getFirstEdge(a, b, c)));
+    }
+
+    private hasEdge(a: number, b: number): boolean {
+        return this.apexes.has(getEdgeKey(a, b)) || this.apexes.has(getEdgeKey(b, a));
+    }
+
+    private addTriangle(a: number, b: number, c: number, isOutside: boolean) {
+        this.apexes.set(getEdgeKey(a, b), c);
+        this.apexes.set(getEdgeKey(b, c), a);
+        this.apexes.set(getEdgeKey(c, a), b);
+        this.incident[a] = b;
+        this.incident[b] = c;
+        this.incident[c] = a;
+        if (isOutside) this.outside.add(getEdgeKey(...getFirstEdge(a, b, c)));
+        this.last = [a, b, c];
+    }
+
+    /**
+     * @returns Whether the removed triangle was outside the domain.
+     */
+    private removeTriangle(a: number, b: number, c: number): boolean {
+        this.apexes.delete(getEdgeKey(a, b));
+        this.apexes.delete(getEdgeKey(b, c));
+        this.apexes.delete(getEdgeKey(c, a));
+        return this.outside.delete(getEdgeKey(...getFirstEdge(a, b, c)));
+    }
+
+    private addSteinerPoint(pt: Vertex2d): number | undefined {
+        const key = ToleranceUtils.getHash2d(pt, this.tol);
+        if (this.pointIndices.has(key)) return;
+        const index = this.pts.push(pt) - 1;
+        this.pointIndices.set(key, index);
+        return index;
+    }
+
+    /**
+     * Walks from a triangle towards a point, choosing the first crossed edge from a rotating start,
+     * so the walk cannot cycle in a triangulation that is not Delaunay.
+     *
+     * @returns The triangle containing the point, or the constrained edge blocking the way if asked to stop there.
+     */
+    private locate(pt: Vertex2d, start: number[], stopAtConstraints: boolean): {triangle: number[], crossed?: number[]} | undefined {
+        let triangle = start;
+        if (this.apexes.get(getEdgeKey(triangle[0], triangle[1])) !== triangle[2]) triangle = this.getTriangles()[0];
+
+        for (let steps = 0; steps <= this.apexes.size; steps++) {
+            const offset = this.walkSeed++ % 3;
+            let next: number[] | undefined;
+            for (let k = 0; k < 3 && !next; k++) {
+                const a = triangle[(k + offset) % 3];
+                const b = triangle[(k + offset + 1) % 3];
+                if (GeometricPredicates.orient2d(this.pts[a], this.pts[b], pt) >= 0) continue;
+                if (stopAtConstraints && this.constraints.has(getSegmentKey(a, b))) return {triangle, crossed: [a, b]};
+
+                const d = this.apexes.get(getEdgeKey(b, a));
+                if (d === undefined) return;
+                next = [b, a, d];
+            }
+            if (!next) return {triangle};
+            triangle = next;
+        }
+    }
+
+    private insertPoint(p: number, [a, b, c]: number[]) {
+        for (const [u, v] of [[a, b], [b, c], [c, a]]) {
+            if (GeometricPredicates.orient2d(this.pts[u], this.pts[v], this.pts[p]) === 0) {
+                this.splitEdge(u, v, p);
+                return;
+            }
+        }
+
+        const isOutside = this.removeTriangle(a, b, c);
+        this.addTriangle(a, b, p, isOutside);
+        this.addTriangle(b, c, p, isOutside);
+        this.addTriangle(c, a, p, isOutside);
+        this.legalize([[a, b, p], [b, c, p], [c, a, p]]);
+    }
+
+    private splitEdge(a: number, b: number, p: number) {
+        const stack: number[][] = [];
+        const c = this.apexes.get(getEdgeKey(a, b));
+        if (c !== undefined) {
+            const isOutside = this.removeTriangle(a, b, c);
+            this.addTriangle(a, p, c, isOutside);
+            this.addTriangle(p, b, c, isOutside);
+            stack.push([b, c, p], [c, a, p]);
+        }
+
+        const d = this.apexes.get(getEdgeKey(b, a));
+        if (d !== undefined) {
+            const isOutside = this.removeTriangle(b, a, d);
+            this.addTriangle(b, p, d, isOutside);
+            this.addTriangle(p, a, d, isOutside);
+            stack.push([a, d, p], [d, b, p]);
+        }
+
+        if (this.constraints.delete(getSegmentKey(a, b))) {
+            this.constraints.add(getSegmentKey(a, p));
+            this.constraints.add(getSegmentKey(p, b));
+        }
+        this.legalize(stack);
+    }
+
+    /**
+     * Flips the unconstrained edges `(a, b)` whose opposite point lies in the circumcircle of the triangle `(a, b, p)`.
+     */
+    private legalize(stack: number[][]) {
+        while (stack.length > 0) {
+            const [a, b, p] = stack.pop()!;
+            if (this.apexes.get(getEdgeKey(a, b)) !== p || this.constraints.has(getSegmentKey(a, b))) continue;
+
+            const d = this.apexes.get(getEdgeKey(b, a));
+            if (d === undefined || GeometricPredicates.incircle(this.pts[a], this.pts[b], this.pts[p], this.pts[d]) <= 0) continue;
+
+            const isOutside = this.removeTriangle(a, b, p);
+            this.removeTriangle(b, a, d);
+            this.addTriangle(a, d, p, isOutside);
+            this.addTriangle(d, b, p, isOutside);
+            stack.push([a, d, p], [d, b, p]);
+        }
+    }
+
+    /**
+     * Removes the triangles crossed by the segment from `a` towards `b` and re-triangulates both sides of it.
+     *
+     * @returns `b`, or the first point lying exactly on the segment where the recovery stopped.
+     */
+    private recoverSegment(a: number, b: number): number | undefined {
+        const pa = this.pts[a];
+        const pb = this.pts[b];
+        const onSegment = (v: number) => GeometricPredicates.orient2d(pa, pb, this.pts[v]) === 0
+            && (this.pts[v].x - pa.x) * (pb.x - pa.x) + (this.pts[v].y - pa.y) * (pb.y - pa.y) > 0;
+
+        let first: number[] | undefined;
+        for (const [, w, x] of this.getTrianglesAround(a)) {
+            if (onSegment(w)) return w;
+            if (GeometricPredicates.orient2d(pa, this.pts[w], pb) > 0 && GeometricPredicates.orient2d(pa, this.pts[x], pb) < 0) {
+                first = [a, w, x];
+                break;
+            }
+        }
+        if (!first) return;
+
+        const removed = [first];
+        const upper: number[] = [first[2]];
+        const lower: number[] = [first[1]];
+        let end = b;
+        for (;;) {
+            const u = upper[upper.length - 1];
+            const l = lower[lower.length - 1];
+            const y = this.apexes.get(getEdgeKey(u, l));
+            if (y === undefined) return;
+            removed.push([u, l, y]);
+            if (y === b || onSegment(y)) {
+                end = y;
+                break;
+            }
+            if (GeometricPredicates.orient2d(pa, pb, this.pts[y]) > 0) upper.push(y);
+            else lower.push(y);
+        }
+
+        removed.forEach(([u, v, w]) => this.removeTriangle(u, v, w));
+        this.triangulatePseudoPolygon(a, end, upper);
+        this.triangulatePseudoPolygon(end, a, lower.reverse());
+        return end;
+    }
+
+    /**
+     * Triangulates the points on the left of the edge `(a, b)`, ordered from `a` to `b`,
+     * choosing for each edge the point whose circumcircle holds no other.
+     */
+    private triangulatePseudoPolygon(a: number, b: number, pts: number[]) {
+        if (pts.length === 0) return;
+        let best = 0;
+        for (let i = 1; i < pts.length; i++) {
+            if (GeometricPredicates.incircle(this.pts[a], this.pts[b], this.pts[pts[best]], this.pts[pts[i]]) > 0) best = i;
+        }
+
+        this.addTriangle(a, b, pts[best], false);
+        this.triangulatePseudoPolygon(a, pts[best], pts.slice(0, best));
+        this.triangulatePseudoPolygon(pts[best], b, pts.slice(best + 1));
+    }
+
+    /**
+     * Gets the triangles around a point, each starting with the point.
+     */
+    private getTrianglesAround(p: number): number[][] {
+        let start = this.incident[p];
+        if (this.apexes.get(getEdgeKey(p, start)) === undefined) {
+            const triangle = this.getTriangles().find(t => t.includes(p));
+            if (!triangle) return [];
+            start = triangle[(triangle.indexOf(p) + 1) % 3];
+        }
+
+        const triangles: number[][] = [];
+        let w = start;
+        do {
+            const x = this.apexes.get(getEdgeKey(p, w));
+            if (x === undefined) break;
+            triangles.push([p, w, x]);
+            w = x;
+        } while (w !== start && triangles.length <= this.apexes.size);
+        return triangles;
+    }
+
+    /**
+     * A segment is encroached when a point inside the domain lies in its diametral circle.
+     * Only the apexes of its own triangles need testing, as the triangulation is constrained Delaunay.
+     */
+    private isEncroached(a: number, b: number): boolean {
+        for (const [u, v] of [[a, b], [b, a]]) {
+            const c = this.apexes.get(getEdgeKey(u, v));
+            if (c !== undefined && !this.isOutside([u, v, c]) && isInDiametralCircle(this.pts[c], this.pts[a], this.pts[b])) return true;
+        }
+        return false;
+    }
+
+    /**
+     * Gets the segments bounding the cavity a new point would open, whose diametral circles hold the point.
+     */
+    private getEncroachedBy(pt: Vertex2d, triangle: number[]): number[][] {
+        const encroached: number[][] = [];
+        const visited = new Set<number>([getEdgeKey(...getFirstEdge(triangle[0], triangle[1], triangle[2]))]);
+        const queue = [triangle];
+        while (queue.length > 0) {
+            const [a, b, c] = queue.pop()!;
+            for (const [u, v] of [[a, b], [b, c], [c, a]]) {
+                if (this.constraints.has(getSegmentKey(u, v))) {
+                    if (isInDiametralCircle(pt, this.pts[u], this.pts[v])) encroached.push([u, v]);
+                    continue;
+                }
+
+                const w = this.apexes.get(getEdgeKey(v, u));
+                if (w === undefined) continue;
+                const key = getEdgeKey(...getFirstEdge(v, u, w));
+                if (visited.has(key) || GeometricPredicates.incircle(this.pts[v], this.pts[u], this.pts[w], pt) <= 0) continue;
+                visited.add(key);
+                queue.push([v, u, w]);
+            }
+        }
+        return encroached;
+    }
+
+    /**
+     * A triangle inside the domain is bad when it is too large, or when its smallest angle is too small
+     * and not fixed by two segments meeting at its vertex.
+     */
+    private isBad(triangle: number[], settings: Required<RefinementOptions>): boolean {
+        if (this.isOutside(triangle)) return false;
+        const pts = triangle.map(i => this.pts[i]);
+        const area = ((pts[1].x - pts[0].x) * (pts[2].y - pts[0].y) - (pts[1].y - pts[0].y) * (pts[2].x - pts[0].x)) / 2;
+        if (area > settings.maxArea) return true;
+        if (settings.minAngle === 0) return false;
+
+        // The smallest angle is at the vertex opposite the shortest edge.
+        const lengths = pts.map((_, i) => Math.hypot(pts[(i + 2) % 3].x - pts[(i + 1) % 3].x, pts[(i + 2) % 3].y - pts[(i + 1) % 3].y));
+        const i = lengths.indexOf(Math.min(...lengths));
+        const sin = 2 * area / (lengths[(i + 1) % 3] * lengths[(i + 2) % 3]);
+        if (Math.asin(Math.min(1, sin)) >= settings.minAngle) return false;
+
+        const v = triangle[i];
+        return !(this.constraints.has(getSegmentKey(v, triangle[(i + 1) % 3]))
+            && this.constraints.has(getSegmentKey(v, triangle[(i + 2) % 3])));
+    }
+}
+
+function getEdgeKey(a: number, b: number): number {
+    return a * EDGE_KEY_BASE + b;
+}
+
+function getSegmentKey(a: number, b: number): number {
+    return a < b ? getEdgeKey(a, b) : getEdgeKey(b, a);
+}
+
+/**
+ * Gets the edge of a triangle starting at its smallest index, identifying the triangle.
+ */
+function getFirstEdge(a: number, b: number, c: number): [number, number] {
+    if (a < b && a < c) return [a, b];
+    return b < c ? [b, c] : [c, a];
+}
+
+function isInDiametralCircle(pt: Vertex2d, a: Vertex2d, b: Vertex2d): boolean {
+    return (a.x - pt.x) * (b.x - pt.x) + (a.y - pt.y) * (b.y - pt.y) < 0;
+}
+
+function getCircumcenter(a: Vertex2d, b: Vertex2d, c: Vertex2d): Vertex2d {
+    const bx = b.x - a.x, by = b.y - a.y;
+    const cx = c.x - a.x, cy = c.y - a.y;
+    const d = 2 * (bx * cy - by * cx);
+    const b2 = bx * bx + by * by;
+    const c2 = cx * cx + cy * cy;
+    return {x: a.x + (cy * b2 - by * c2) / d, y: a.y + (bx * c2 - cx * b2) / d};
+}
@@ -0,0 +1,255 @@
+import { Vertex2d } from "../models/types/basicGeometries";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { ToleranceUtils } from "./toleranceUtils";
+
+interface Vector2Chain {
+    add(v: Vertex2d): Vector2Chain;
+    subtract(v: Vertex2d): Vector2Chain;
+    scale(scalar: number): Vector2Chain;
+    normalize(): Vector2Chain;
+    dot(v: Vertex2d): number;
+    perpDot(v: Vertex2d): number;
+    perp(): Vector2Chain;
+    flip(): Vector2Chain;
+    rotate(rad: number): Vector2Chain;
+    lerp(v: Vertex2d, t: number): Vector2Chain;
+    value(): Vertex2d;
+}
+
+/**
+ * Utility namespace for 2D vectors, working directly on `Vertex2d` without converting to 3D.
+ *
+ * Mirrors `VectorUtils` for plan-view calculations, and adds operations which only make sense in 2D
+ * such as the perpendicular dot product and signed angles.
+ */
+export namespace Vector2Utils {
+    /**
+     * Adds two 2D vectors component-wise.
+     *
+     * @param v0 - The first vector.
+     * @param v1 - The second vector.
+     * @returns A new `Vertex2d` representing `v0 + v1`.
+     */
+    export function add(v0: Vertex2d, v1: Vertex2d): Vertex2d {
+        return {x: v0.x + v1.x, y: v0.y + v1.y};
+    }
+
+    /**
+     * Subtracts the second 2D vector from the first one.
+     *
+     * @param v0 - The vector to subtract from.
+     * @param v1 - The vector to subtract.
+     * @returns A new `Vertex2d` representing `v0 - v1`.
+     */
+    export function subtract(v0: Vertex2d, v1: Vertex2d): Vertex2d {
+        return {x: v0.x - v1.x, y: v0.y - v1.y};
+    }
+
+    /**
+     * Scales a 2D vector by a scalar.
+     *
+     * @param v - The vector to scale.
+     * @param scalar - The scale factor.
+     * @returns A new scaled `Vertex2d`.
+     */
+    export function scale(v: Vertex2d, scalar: number): Vertex2d {
+        return {x: v.x * scalar, y: v.y * scalar};
+    }
+
+    /**
+     * Calculates the dot product of two 2D vectors.
+     *
+     * @param v0 - The first vector.
+     * @param v1 - The second vector.
+     * @returns The dot product.
+     */
+    export function dot(v0: Vertex2d, v1: Vertex2d): number {
+        return v0.x * v1.x + v0.y * v1.y;
+    }
+
+    /**
+     * Calculates the perpendicular dot product (the Z component of the 3D cross product).
+     *
+     * @param v0 - The first vector.
+     * @param v1 - The second vector.
+     * @returns Positive if `v1` is counter-clockwise from `v0`, negative if clockwise, and 0 if parallel.
+     */
+    export function perpDot(v0: Vertex2d, v1: Vertex2d): number {
+        return v0.x * v1.y - v0.y * v1.x;
+    }
+
+    /**
+     * Gets the vector rotated by 90 degrees counter-clockwise.
+     *
+     * @param v - The vector.
+     * @returns A new `Vertex2d` perpendicular to `v`, on its left side.
+     */
+    export function perp(v: Vertex2d): Vertex2d {
+        return {x: -v.y, y: v.x};
+    }
+
+    /**
+     * Normalizes a 2D vector so that its length becomes 1.
+     * If the input vector has zero length, returns a zero vector.
+     *
+     * @param v - The vector to normalize.
+     * @returns The normalized `Vertex2d`.
+     */
+    export function normalize(v: Vertex2d): Vertex2d {
+        const size = getSize(v);
+        if (size === 0) return {x: 0, y: 0};
+        return {x: v.x / size, y: v.y / size};
+    }
+
+    /**
+     * Returns a new `Vertex2d` with both components negated.
+     *
+     * @param v - The vector to flip.
+     * @returns The flipped `Vertex2d`.
+     */
+    export function flip(v: Vertex2d): Vertex2d {
+        return {x: -v.x, y: -v.y};
+    }
+
+    /**
+     * Rotates a 2D vector counter-clockwise about the origin.
+     *
+     * @param v - The vector to rotate.
+     * @param rad - The rotation angle in radians.
+     * @returns A new rotated `Vertex2d`.
+     */
+    export function rotate(v: Vertex2d, rad: number): Vertex2d {
+        const cos = Math.cos(rad);
+        const sin = Math.sin(rad);
+        return {x: v.x * cos - v.y * sin, y: v.x * sin + v.y * cos};
+    }
+
+    /**
+     * Gets the polar angle of a 2D vector, measured counter-clockwise from the X-axis.
+     *
+     * @param v - The vector.
+     * @returns The angle in radians between -π and π.
+     */
+    export function getAngle(v: Vertex2d): number {
+        return Math.atan2(v.y, v.x);
+    }
+
+    /**
+     * Gets the signed angle turning `v0` onto `v1`.
+     *
+     * @param v0 - The start vector.
+     * @param v1 - The end vector.
+     * @returns The angle in radians between -π and π, positive when counter-clockwise.
+     */
+    export function getAngleBetween(v0: Vertex2d, v1: Vertex2d): number {
+        return Math.atan2(perpDot(v0, v1), dot(v0, v1));
+    }
+
+    /**
+     * Linearly interpolates between two 2D points.
+     *
+     * @param v0 - The point at `t = 0`.
+     * @param v1 - The point at `t = 1`.
+     * @param t - The interpolation parameter. Values outside 0 ~ 1 extrapolate.
+     * @returns The interpolated `Vertex2d`.
+     */
+    export function lerp(v0: Vertex2d, v1: Vertex2d, t: number): Vertex2d {
+        return {x: v0.x + (v1.x - v0.x) * t, y: v0.y + (v1.y - v0.y) * t};
+    }
+
+    /**
+     * Calculates the length of a 2D vector.
+     *
+     * @param v - The vector.
+     * @returns The length of `v`.
+     */
+    export function getSize(v: Vertex2d): number {
+        return Math.sqrt(v.x ** 2 + v.y ** 2);
+    }
+
+    /**
+     * Calculates the distance between two 2D points.
+     *
+     * @param v0 - The first point.
+     * @param v1 - The second point.
+     * @returns The distance between `v0` and `v1`.
+     */
+    export function getDist(v0: Vertex2d, v1: Vertex2d): number {
+        return Math.sqrt((v1.x - v0.x) ** 2 + (v1.y - v0.y) ** 2);
+    }
+
+    /**
+     * Determines whether two 2D vectors are parallel, in the same or opposite direction.
+     *
+     * @param v0 - The first vector.
+     * @param v1 - The second vector.
+     * @param tolerance - Optional tolerance context. Its `angle` is the largest angle treated as parallel.
+     * @returns `true` if the vectors are parallel.
+     */
+    export function isParallel(v0: Vertex2d, v1: Vertex2d, tolerance?: Partial<ToleranceContext>): boolean {
+        const tol = ToleranceUtils.resolve(tolerance);
+        const sin = Math.abs(perpDot(normalize(v0), normalize(v1)));
+        return sin <= Math.sin(tol.angle);
+    }
+
+    /**
+     * Creates a chainable API for performing 2D vector operations, as `VectorUtils.chain` does for 3D.
+     *
+     * @example
+     * ```typescript
+     * const offsetPt = Vector2Utils.chain(dir).normalize().perp().scale(dist).add(pt).value();
+     * ```
+     *
+     * @param initial - The initial 2D vector to start the chain of operations.
+     * @returns A chainable API for 2D vector operations.
+     */
+    export function chain(initial: Vertex2d): Vector2Chain {
+        let current = {x: initial.x, y: initial.y};
+
+        const api: Vector2Chain = {
+            add(v: Vertex2d) {
+                current = add(current, v);
+                return api;
+            },
+            subtract(v: Vertex2d) {
+                current = subtract(current, v);
+                return api;
+            },
+            scale(scalar: number) {
+                current = scale(current, scalar);
+                return api;
+            },
+            normalize() {
+                current = normalize(current);
+                return api;
+            },
+            dot(v: Vertex2d) {
+                return dot(current, v);
+            },
+            perpDot(v: Vertex2d) {
+                return perpDot(current, v);
+            },
+            perp() {
+                current = perp(current);
+                return api;
+            },
+            flip() {
+                current = flip(current);
+                return api;
+            },
+            rotate(rad: number) {
+                current = rotate(current, rad);
+                return api;
+            },
+            lerp(v: Vertex2d, t: number) {
+                current = lerp(current, v, t);
+                return api;
+            },
+            value() {
+                return current;
+            },
+        };
+
+        return api;
+    }
+}
@@ -1,6 +1,7 @@
 import { Line, Vertex2d, Vertex3d } from "../models/types/basicGeometries";
-
-const TOLERANCE_PARALLEL = 1e-6;
+import { Quaternion } from "../models/basic/quaternion";
+import { ToleranceContext } from "../models/types/toleranceContext";
+import { ToleranceUtils } from "./toleranceUtils";
 
 interface VectorChain {
     add(v: Vertex3d): VectorChain;
@@ -14,6 +15,7 @@ interface VectorChain {
     rotateOnXY(rad: number): VectorChain;
     rotateOnYZ(rad: number): VectorChain;
     rotateOnXZ(rad: number): VectorChain;
+    rotate(q: Quaternion): VectorChain;
 }
 
 export namespace VectorUtils {
@@ -82,6 +84,19 @@ export namespace VectorUtils {
         };
     }
 
+    /**
+     * Rotates a 3D vertex about the origin by the given quaternion.
+     *
+     * Unlike `rotateOnXY`, `rotateOnYZ` and `rotateOnXZ`, the rotation axis can be any direction.
+     *
+     * @param v - The vertex to rotate.
+     * @param q - The rotation to apply.
+     * @returns A new `Vertex3d` object representing the rotated vertex.
+     */
+    export function rotate(v: Vertex3d, q: Quaternion): Vertex3d {
+        return q.rotate(v);
+    }
+
     /**
      * Subtracts the components of one 3D vertex (`v1`) from another (`v0`).
      *
@@ -182,11 +197,13 @@ export namespace VectorUtils {
      *
      * @param v0 - The first 3D vector.
      * @param v1 - The second 3D vector.
+     * @param tolerance - Optional tolerance context. Its `angle` is the largest angle treated as parallel.
      * @returns `true` if the vectors are parallel within the tolerance; otherwise, `false`.
      */
-    export function isParallel(v0: Vertex3d, v1: Vertex3d): boolean {
+    export function isParallel(v0: Vertex3d, v1: Vertex3d, tolerance?: Partial<ToleranceContext>): boolean {
+        const tol = ToleranceUtils.resolve(tolerance);
         const dotAbs = Math.abs(dot(normalize(v0), normalize(v1)));
-        return Math.abs(dotAbs - 1) <= TOLERANCE_PARALLEL;
+        return Math.abs(dotAbs - 1) <= 1 - Math.cos(tol.angle);
     }
 
     /**
@@ -194,13 +211,14 @@ export namespace VectorUtils {
      *
      * @param li0 - The first line, represented by two points.
      * @param li1 - The second line, represented by two points.
+     * @param tolerance - Optional tolerance context. Its `angle` is the largest angle treated as parallel.
      * @returns `true` if the lines are parallel, otherwise `false`.
      */
-    export function isParallelLines(li0: Line, li1: Line): boolean {
+    export function isParallelLines(li0: Line, li1: Line, tolerance?: Partial<ToleranceContext>): boolean {
         const li0Direction = subtract(li0.p1, li0.p0);
         const li1Direction = subtract(li1.p1, li1.p0);
 
-        return isParallel(li0Direction, li1Direction);
+        return isParallel(li0Direction, li1Direction, tolerance);
     }
 
     /**
@@ -308,6 +326,10 @@ export namespace VectorUtils {
                 current = rotateOnXZ(current, rad);
                 return api;
             },
+            rotate(q: Quaternion) {
+                current = rotate(current, q);
+                return api;
+            },
             value() {
                 return current;
             },
@@ -327,14 +349,16 @@ export namespace VectorUtils {
      *          the lower-left and upper-right corners of the bounding box, respectively.
      */
     export function getBoundingBox2d(pts: (Vertex2d|Vertex3d)[]): {min: Vertex2d, max: Vertex2d} {
-        const arrCoordX = pts.map(p => p.x);
-        const arrCoordY = pts.map(p => p.y);
+        // Loop instead of spreading into Math.min, which overflows the call stack on large inputs.
+        let minX = Infinity, minY = Infinity;
+        let maxX = -Infinity, maxY = -Infinity;
+        for (const p of pts) {
+            if (p.x < minX) minX = p.x;
+            if (p.x > maxX) maxX = p.x;
+            if (p.y < minY) minY = p.y;
+            if (p.y > maxY) maxY = p.y;
+        }
 
-        const minX = Math.min(...arrCoordX);
-        const minY = Math.min(...arrCoordY);
-        const maxX = Math.max(...arrCoordX);
-        const maxY = Math.max(...arrCoordY);
-        
         return {
             min: {x: minX, y: minY},
             max: {x: maxX, y: maxY},
@@ -344,22 +368,24 @@ export namespace VectorUtils {
     /**
      * Calculates the axis-aligned bounding box for a set of 3D vertices.
      *
+     * For large point clouds stored in buffers, see `BulkVectorUtils.getBoundingBox`.
+     *
      * @param pts - An array of `Vertex3d` objects representing the points in 3D space.
      * @returns An object containing the minimum and maximum coordinates (`min` and `max`) of the bounding box,
      *          each with `x`, `y`, and `z` properties.
      */
     export function getBoundingBox3d(pts: Vertex3d[]) {
-        const arrCoordX = pts.map(p => p.x);
-        const arrCoordY = pts.map(p => p.y);
-        const arrCoordZ = pts.map(p => p.z);
+        let minX = Infinity, minY = Infinity, minZ = Infinity;
+        let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+        for (const p of pts) {
+            if (p.x < minX) minX = p.x;
+            if (p.x > maxX) maxX = p.x;
+            if (p.y < minY) minY = p.y;
+            if (p.y > maxY) maxY = p.y;
+            if (p.z < minZ) minZ = p.z;
+            if (p.z > maxZ) maxZ = p.z;
+        }
 
-        const minX = Math.min(...arrCoordX);
-        const minY = Math.min(...arrCoordY);
-        const minZ = Math.min(...arrCoordZ);
-        const maxX = Math.max(...arrCoordX);
-        const maxY = Math.max(...arrCoordY);
-        const maxZ = Math.max(...arrCoordZ);
-        
         return {
             min: {x: minX, y: minY, z: minZ},
             max: {x: maxX, y: maxY, z: maxZ},